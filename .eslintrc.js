@@ -25,5 +25,12 @@ module.exports = {
         "no-magic-numbers": ["error", { "ignore": [0, 1, -1] }],
         "no-trailing-spaces": "error",
         "eol-last": ["error", "always"]
-    }
+    },
+    "overrides": [
+        {
+            "files": ["**/*.test.ts"],
+            "env": { "jest": true },
+            "rules": { "no-magic-numbers": "off" }
+        }
+    ]
 };
@@ -1,4 +1,5 @@
 import * as cdk from "aws-cdk-lib";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import {
     ApiGatewayStack,
     AuthStack,
@@ -111,6 +112,15 @@ export class SocialMediaApp extends cdk.Stack {
             vpc: networkingStack.vpc
         });
 
+        // Signs the pagination cursors of the list endpoints
+        const cursorSecret = new secretsmanager.Secret(this, "PaginationCursorSecret", {
+            generateSecretString: {
+                secretStringTemplate: JSON.stringify({}),
+                generateStringKey: "cursorSecret",
+                excludePunctuation: true
+            }
+        });
+
         // Environment variables for all Lambda functions
         const commonEnvironment = {
             STAGE: stage,
@@ -119,6 +129,7 @@ export class SocialMediaApp extends cdk.Stack {
             USER_POOL_ID: authStack.userPool.userPoolId,
             USER_POOL_CLIENT_ID: authStack.userPoolClient.userPoolClientId,
             S3_BUCKET_NAME: fileStack.bucket.bucketName,
+            PAGINATION_CURSOR_SECRET_ARN: cursorSecret.secretArn,
             AWS_REGION: this.region
         };
 
@@ -188,6 +199,8 @@ export class SocialMediaApp extends cdk.Stack {
         fileStack.bucket.grantReadWrite(fileUploadFunction);
         fileStack.bucket.grantRead(postsFunction);
 
+        cursorSecret.grantRead(postsFunction);
+
         // REST API Gateway Stack
         const apiStack = new ApiGatewayStack(this, "SocialMediaApi", {
             apiName: `social-media-api-${stage}`,
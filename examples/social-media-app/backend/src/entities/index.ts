@@ -0,0 +1,33 @@
+import { Entity, schema } from "aws-framework";
+import { v4 as uuidv4 } from "uuid";
+
+// Posts are stored under POST#<id>, listed per user through GSI1 and in the feed through GSI2
+export const PostEntity = new Entity({
+    name: "POST",
+    attributes: schema.object({
+        id: schema.string(),
+        userId: schema.string(),
+        content: schema.string().min(1),
+        mediaUrls: schema.array(schema.string()).optional(),
+        mediaType: schema.enum(["image", "video"]).optional(),
+        likes: schema.integer(),
+        likedBy: schema.array(schema.string()),
+        commentCount: schema.integer(),
+        isPublic: schema.boolean(),
+        createdAt: schema.string(),
+        updatedAt: schema.string(),
+    }),
+    key: { partitionKey: "POST#{id}", sortKey: "POST#{id}" },
+    indexes: {
+        GSI1: { partitionKey: "USER#{userId}", sortKey: "{createdAt}" },
+        GSI2: { partitionKey: "POST#FEED", sortKey: "{createdAt}" },
+    },
+    defaults: {
+        id: () => uuidv4(),
+        mediaUrls: [],
+        likes: 0,
+        likedBy: [],
+        commentCount: 0,
+        isPublic: true,
+    },
+});
@@ -1,4 +1,4 @@
-import { RestApiLambda, ApiResponse } from "aws-framework";
+import { RestApiLambda, ApiResponse, buildExpressions, expr } from "aws-framework";
 import { APIGatewayProxyEvent } from "aws-lambda";
 import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand, DeleteCommand } from "@aws-sdk/lib-dynamodb";
@@ -481,11 +481,11 @@ export class ChatLambda extends RestApiLambda {
                     PK: `CHAT#${chatId}`,
                     SK: `CHAT#${chatId}`
                 },
-                UpdateExpression: "SET lastActivity = :lastActivity, lastMessage = :lastMessage",
-                ExpressionAttributeValues: {
-                    ":lastActivity": lastMessage.createdAt,
-                    ":lastMessage": lastMessage
-                }
+                ...buildExpressions({
+                    update: expr.update<Chat>()
+                        .set("lastActivity", lastMessage.createdAt)
+                        .set("lastMessage", lastMessage)
+                })
             }));
         } catch (error) {
             this.logger.error("Error updating chat last activity", { error, chatId });
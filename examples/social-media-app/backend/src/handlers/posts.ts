@@ -1,20 +1,22 @@
-import { RestApiLambda, ApiResponse } from "aws-framework";
+import { RestApiLambda, ApiResponse, DynamoDBService, EntityRepository, secretsManager } from "aws-framework";
 import { APIGatewayProxyEvent } from "aws-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand, DeleteCommand } from "@aws-sdk/lib-dynamodb";
-import { v4 as uuidv4 } from "uuid";
+import { PostEntity } from "../entities";
 import { Post, CreatePostRequest, AuthUser, Permission, PaginatedResponse } from "../types";
 import { PermissionManager } from "../utils/permissions";
 
 export class PostsLambda extends RestApiLambda {
-    private dynamoClient: DynamoDBDocumentClient;
     private tableName: string;
+    private posts: EntityRepository<typeof PostEntity>;
 
     constructor() {
         super();
-        const client = new DynamoDBClient({ region: process.env.AWS_REGION });
-        this.dynamoClient = DynamoDBDocumentClient.from(client);
         this.tableName = process.env.DYNAMODB_TABLE_NAME!;
+        // The cursor secret is loaded at runtime, it never appears in the function configuration
+        this.use(secretsManager({ secretsPath: process.env.PAGINATION_CURSOR_SECRET_ARN }));
+        this.posts = new EntityRepository(PostEntity, {
+            tableName: this.tableName,
+            service: new DynamoDBService({ cursorSecret: () => this.context.secrets?.cursorSecret }),
+        });
     }
 
     protected async processApi(event: APIGatewayProxyEvent): Promise<ApiResponse> {
@@ -64,28 +66,13 @@ export class PostsLambda extends RestApiLambda {
         const userId = this.getQueryParameter(event, "userId"); // Filter by specific user
 
         try {
-            const queryParams: any = {
-                TableName: this.tableName,
-                IndexName: "GSI1",
-                KeyConditionExpression: "GSI1PK = :pk",
-                ExpressionAttributeValues: {
-                    ":pk": userId ? `USER#${userId}` : "POST#FEED",
-                    ":entityType": "POST"
-                },
-                FilterExpression: "entityType = :entityType",
-                Limit: limit,
-                ScanIndexForward: false // Most recent first
-            };
-
-            if (nextToken) {
-                queryParams.ExclusiveStartKey = JSON.parse(Buffer.from(nextToken, "base64").toString());
-            }
+            // Most recent first, from the user's posts or from the feed
+            const options = { limit, cursor: nextToken, descending: true };
+            const result = userId
+                ? await this.posts.queryIndex("GSI1", { userId }, options)
+                : await this.posts.queryIndex("GSI2", {}, options);
 
-            const result = await this.dynamoClient.send(new QueryCommand(queryParams));
-
-            const posts = await Promise.all(
-                (result.Items || []).map(item => this.mapDynamoItemToPost(item))
-            );
+            const posts: Post[] = result.items;
 
             // Filter posts based on privacy settings and user permissions
             const filteredPosts = posts.filter(post =>
@@ -96,10 +83,8 @@ export class PostsLambda extends RestApiLambda {
 
             const response: PaginatedResponse<Post> = {
                 items: filteredPosts,
-                hasMore: !!result.LastEvaluatedKey,
-                nextToken: result.LastEvaluatedKey ?
-                    Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString("base64") :
-                    undefined
+                hasMore: !!result.nextCursor,
+                nextToken: result.nextCursor
             };
 
             return this.successResponse(response);
@@ -111,21 +96,12 @@ export class PostsLambda extends RestApiLambda {
 
     private async getPost(postId: string, user: AuthUser): Promise<ApiResponse> {
         try {
-            const result = await this.dynamoClient.send(new QueryCommand({
-                TableName: this.tableName,
-                KeyConditionExpression: "PK = :pk AND SK = :sk",
-                ExpressionAttributeValues: {
-                    ":pk": `POST#${postId}`,
-                    ":sk": `POST#${postId}`
-                }
-            }));
+            const post = await this.posts.get({ id: postId });
 
-            if (!result.Items || result.Items.length === 0) {
+            if (!post) {
                 return this.notFoundResponse("Post not found");
             }
 
-            const post = this.mapDynamoItemToPost(result.Items[0]);
-
             // Check if user can view this post
             if (!post.isPublic && post.userId !== user.id &&
           !PermissionManager.hasPermission(user, Permission.MODERATE_CONTENT)) {
@@ -149,38 +125,15 @@ export class PostsLambda extends RestApiLambda {
             return this.badRequestResponse("Post content is required");
         }
 
-        const postId = uuidv4();
-        const now = new Date().toISOString();
-
-        const post: Post = {
-            id: postId,
-            userId: user.id,
-            content: body.content.trim(),
-            mediaUrls: body.mediaUrls || [],
-            mediaType: body.mediaType,
-            likes: 0,
-            likedBy: [],
-            commentCount: 0,
-            isPublic: body.isPublic !== false, // Default to public
-            createdAt: now,
-            updatedAt: now
-        };
-
         try {
-            // Store post in DynamoDB
-            await this.dynamoClient.send(new PutCommand({
-                TableName: this.tableName,
-                Item: {
-                    PK: `POST#${postId}`,
-                    SK: `POST#${postId}`,
-                    GSI1PK: `USER#${user.id}`,
-                    GSI1SK: now,
-                    GSI2PK: "POST#FEED",
-                    GSI2SK: now,
-                    entityType: "POST",
-                    ...post
-                }
-            }));
+            // Posts are public unless stated otherwise
+            const post = await this.posts.create({
+                userId: user.id,
+                content: body.content.trim(),
+                mediaUrls: body.mediaUrls,
+                mediaType: body.mediaType,
+                isPublic: body.isPublic,
+            });
 
             // Send WebSocket notification for new post
             await this.sendWebSocketMessage("post.created", {
@@ -189,7 +142,7 @@ export class PostsLambda extends RestApiLambda {
 
             return this.successResponse(post, "Post created successfully");
         } catch (error) {
-            this.logger.error("Error creating post", { error, post });
+            this.logger.error("Error creating post", { error, userId: user.id });
             throw error;
         }
     }
@@ -212,48 +165,12 @@ export class PostsLambda extends RestApiLambda {
                 return this.forbiddenResponse("Insufficient permissions to update this post");
             }
 
-            const now = new Date().toISOString();
-            const updateExpression: string[] = [];
-            const expressionAttributeValues: any = {};
-            const expressionAttributeNames: any = {};
-
-            if (body.content !== undefined) {
-                updateExpression.push("#content = :content");
-                expressionAttributeNames["#content"] = "content";
-                expressionAttributeValues[":content"] = body.content.trim();
-            }
-
-            if (body.mediaUrls !== undefined) {
-                updateExpression.push("mediaUrls = :mediaUrls");
-                expressionAttributeValues[":mediaUrls"] = body.mediaUrls;
-            }
-
-            if (body.mediaType !== undefined) {
-                updateExpression.push("mediaType = :mediaType");
-                expressionAttributeValues[":mediaType"] = body.mediaType;
-            }
-
-            if (body.isPublic !== undefined) {
-                updateExpression.push("isPublic = :isPublic");
-                expressionAttributeValues[":isPublic"] = body.isPublic;
-            }
-
-            updateExpression.push("updatedAt = :updatedAt");
-            expressionAttributeValues[":updatedAt"] = now;
-
-            await this.dynamoClient.send(new UpdateCommand({
-                TableName: this.tableName,
-                Key: {
-                    PK: `POST#${postId}`,
-                    SK: `POST#${postId}`
-                },
-                UpdateExpression: `SET ${updateExpression.join(", ")}`,
-                ExpressionAttributeValues: expressionAttributeValues,
-                ExpressionAttributeNames: Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined
-            }));
-
-            // Get updated post
-            const updatedPost = await this.getPostById(postId);
+            const updatedPost = await this.posts.update({ id: postId }, {
+                ...(body.content !== undefined && { content: body.content.trim() }),
+                ...(body.mediaUrls !== undefined && { mediaUrls: body.mediaUrls }),
+                ...(body.mediaType !== undefined && { mediaType: body.mediaType }),
+                ...(body.isPublic !== undefined && { isPublic: body.isPublic }),
+            });
 
             // Send WebSocket notification
             await this.sendWebSocketMessage("post.updated", {
@@ -281,13 +198,7 @@ export class PostsLambda extends RestApiLambda {
             }
 
             // Delete post
-            await this.dynamoClient.send(new DeleteCommand({
-                TableName: this.tableName,
-                Key: {
-                    PK: `POST#${postId}`,
-                    SK: `POST#${postId}`
-                }
-            }));
+            await this.posts.delete({ id: postId });
 
             // Send WebSocket notification
             await this.sendWebSocketMessage("post.deleted", {
@@ -303,41 +214,7 @@ export class PostsLambda extends RestApiLambda {
     }
 
     private async getPostById(postId: string): Promise<Post | null> {
-        try {
-            const result = await this.dynamoClient.send(new QueryCommand({
-                TableName: this.tableName,
-                KeyConditionExpression: "PK = :pk AND SK = :sk",
-                ExpressionAttributeValues: {
-                    ":pk": `POST#${postId}`,
-                    ":sk": `POST#${postId}`
-                }
-            }));
-
-            if (!result.Items || result.Items.length === 0) {
-                return null;
-            }
-
-            return this.mapDynamoItemToPost(result.Items[0]);
-        } catch (error) {
-            this.logger.error("Error getting post by ID", { error, postId });
-            throw error;
-        }
-    }
-
-    private mapDynamoItemToPost(item: any): Post {
-        return {
-            id: item.id,
-            userId: item.userId,
-            content: item.content,
-            mediaUrls: item.mediaUrls || [],
-            mediaType: item.mediaType,
-            likes: item.likes || 0,
-            likedBy: item.likedBy || [],
-            commentCount: item.commentCount || 0,
-            isPublic: item.isPublic !== false,
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt
-        };
+        return await this.posts.get({ id: postId });
     }
 
     private async sendWebSocketMessage(type: string, data: any): Promise<void> {
@@ -1,13 +1,28 @@
 // Lambda Base Classes
 export * from "./lambda/base-lambda";
+export * from "./lambda/router";
+export * from "./lambda/route-validation";
+export * from "./lambda/openapi";
 export * from "./lambda/rest-api-lambda";
+export * from "./lambda/response-encoding";
 export * from "./lambda/http-api-lambda";
+export * from "./lambda/http-adapters";
+export * from "./lambda/universal-api-lambda";
+export * from "./lambda/api-responses";
+export * from "./lambda/api-auth";
 export * from "./lambda/event-lambda";
+export * from "./lambda/batch-processor";
+export * from "./lambda/event-registry";
 export * from "./lambda/websocket-lambda";
 export * from "./lambda/websocket-api-lambda";
 export * from "./lambda/file-upload-lambda";
 export * from "./lambda/s3-event-lambda";
 export * from "./lambda/dynamodb-stream-lambda";
+export * from "./lambda/kinesis-stream-lambda";
+export * from "./lambda/cognito-trigger-lambda";
+export * from "./lambda/authorizer-lambda";
+export * from "./lambda/step-function-task-lambda";
+export * from "./lambda/scheduled-lambda";
 
 // CDK Stack Components
 export * from "./stacks/networking-stack";
@@ -24,15 +39,22 @@ export * from "./stacks/application-stack";
 
 // Middleware & Utilities
 export * from "./middleware/error-handler";
+export * from "./middleware/cors";
 export * from "./middleware/logger";
 export * from "./middleware/secrets";
 export * from "./middleware/auth";
 export * from "./middleware/validator";
+export * from "./middleware/schema";
 export * from "./middleware/dynamodb";
+export * from "./middleware/dynamodb-expressions";
+export * from "./middleware/dynamodb-entity";
+export * from "./middleware/idempotency";
+export * from "./middleware/middleware-chain";
 
 // Testing
 export * from "./testing/lambda-test-helpers";
 export * from "./testing/mock-event-generators";
+export * from "./testing/in-memory-dynamodb";
 
 // CI/CD
 export * from "./cicd/deployment-workflows";
@@ -0,0 +1,134 @@
+import { CognitoJwtVerifier, JwtRsaVerifier } from "aws-jwt-verify";
+import { AuthUser, RouteAuthRequirement } from "./rest-api-lambda";
+
+/**
+ * Creates a Cognito access token verifier when USER_POOL_ID and USER_POOL_CLIENT_ID are configured
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createCognitoVerifierFromEnv(): CognitoJwtVerifier<any, any, any> | undefined {
+    if (!process.env.USER_POOL_ID || !process.env.USER_POOL_CLIENT_ID) {
+        return undefined;
+    }
+
+    return CognitoJwtVerifier.create({
+        userPoolId: process.env.USER_POOL_ID,
+        tokenUse: "access",
+        clientId: process.env.USER_POOL_CLIENT_ID,
+    });
+}
+
+/**
+ * Creates a verifier for any OIDC provider when JWT_ISSUER is configured. The keys are
+ * fetched from JWKS_URI, or from the issuer's `/.well-known/jwks.json`; JWT_AUDIENCE is
+ * checked when set.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createJwksVerifierFromEnv(): JwtRsaVerifier<any, any, any> | undefined {
+    if (!process.env.JWT_ISSUER) {
+        return undefined;
+    }
+
+    return JwtRsaVerifier.create({
+        issuer: process.env.JWT_ISSUER,
+        audience: process.env.JWT_AUDIENCE || null,
+        ...(process.env.JWKS_URI && { jwksUri: process.env.JWKS_URI }),
+    });
+}
+
+/**
+ * Maps verified JWT claims to the framework's user shape
+ */
+export function authUserFromClaims(claims: Record<string, unknown>): AuthUser {
+    return {
+        id: claims.sub as string,
+        email: (claims.email as string) || "",
+        username: (claims["custom:username"] as string) || (claims.email as string) || "",
+        role: (claims["custom:role"] as string) || "user",
+        permissions: parsePermissions(claims["custom:permissions"])
+    };
+}
+
+/**
+ * Flattens a user into the context map of a Lambda authorizer, whose values must be
+ * strings, numbers or booleans
+ */
+export function authorizerContextFromUser(user: AuthUser): Record<string, string> {
+    return {
+        userId: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        permissions: JSON.stringify(user.permissions),
+    };
+}
+
+/**
+ * Reads the user from `requestContext.authorizer`, as set by a Cognito User Pool authorizer
+ * (`claims`) or by an `AuthorizerLambda` (flattened context map)
+ */
+export function authUserFromAuthorizer(authorizer?: Record<string, unknown> | null): AuthUser | null {
+    if (!authorizer) return null;
+
+    const claims = authorizer.claims as Record<string, unknown> | undefined;
+    if (claims?.sub) {
+        return authUserFromClaims(claims);
+    }
+
+    if (typeof authorizer.userId === "string" && authorizer.userId) {
+        return {
+            id: authorizer.userId,
+            email: (authorizer.email as string) || "",
+            username: (authorizer.username as string) || "",
+            role: (authorizer.role as string) || "user",
+            permissions: parsePermissions(authorizer.permissions),
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Extracts a `Bearer` token from the Authorization header, whatever its casing
+ */
+export function extractBearerToken(headers?: Record<string, string | undefined> | null): string | null {
+    const authHeader = headers?.Authorization || headers?.authorization;
+    if (!authHeader) return null;
+
+    const match = authHeader.match(/^Bearer\s+(.+)$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Checks that the user has one of the required roles and all of the required permissions
+ */
+export function meetsAuthRequirement(user: AuthUser, requirement: RouteAuthRequirement): boolean {
+    if (requirement.roles && !requirement.roles.includes(user.role)) {
+        return false;
+    }
+
+    if (requirement.permissions && !requirement.permissions.every(permission => user.permissions.includes(permission))) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Reads permissions given as an array or as a JSON-encoded array. A malformed value grants
+ * no permissions rather than failing the request.
+ */
+function parsePermissions(value: unknown): string[] {
+    let permissions = value;
+
+    if (typeof value === "string") {
+        try {
+            permissions = JSON.parse(value);
+        } catch (error) {
+            return [];
+        }
+    }
+
+    return Array.isArray(permissions)
+        ? permissions.filter((permission): permission is string => typeof permission === "string")
+        : [];
+}
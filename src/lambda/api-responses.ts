@@ -0,0 +1,192 @@
+import { BadRequestError, PreconditionFailedError } from "../middleware/error-handler";
+import { PageOptions, PaginatedResult } from "../middleware/dynamodb";
+import { ApiResponse } from "./rest-api-lambda";
+
+// Shared response envelope used by the API lambda base classes
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function successResponse(data: any, message?: string): ApiResponse {
+    return {
+        statusCode: 200,
+        body: {
+            success: true,
+            data,
+            message
+        }
+    };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createdResponse(data: any, message?: string): ApiResponse {
+    return {
+        statusCode: 201,
+        body: {
+            success: true,
+            data,
+            message
+        }
+    };
+}
+
+export function errorResponse(statusCode: number, message: string): ApiResponse {
+    return {
+        statusCode,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export function badRequestResponse(message: string): ApiResponse {
+    return {
+        statusCode: 400,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export function unauthorizedResponse(message: string = "Unauthorized"): ApiResponse {
+    return {
+        statusCode: 401,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export function forbiddenResponse(message: string = "Forbidden"): ApiResponse {
+    return {
+        statusCode: 403,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export function notFoundResponse(message: string = "Not found"): ApiResponse {
+    return {
+        statusCode: 404,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export function methodNotAllowedResponse(allowedMethods?: string[]): ApiResponse {
+    return {
+        statusCode: 405,
+        body: {
+            success: false,
+            error: "Method not allowed"
+        },
+        ...(allowedMethods && { headers: { Allow: allowedMethods.join(", ") } })
+    };
+}
+
+export function conflictResponse(message: string): ApiResponse {
+    return {
+        statusCode: 409,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export function internalServerErrorResponse(message: string = "Internal server error"): ApiResponse {
+    return {
+        statusCode: 500,
+        body: {
+            success: false,
+            error: message
+        }
+    };
+}
+
+export interface PaginationOptions {
+  /** Page size when the client sends no `limit` (default: 25) */
+  defaultLimit?: number;
+  /** Largest `limit` accepted (default: 100) */
+  maxLimit?: number;
+}
+
+/**
+ * `pagination` member of the envelope built by `paginatedResponse`
+ */
+export interface PaginationInfo {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const DEFAULT_PAGE_LIMIT = 25;
+const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Reads the `limit` and `cursor` query parameters, failing with a `400` for an invalid limit
+ */
+export function parsePageOptions(
+    query: Record<string, string | undefined> | null | undefined,
+    options: PaginationOptions = {}
+): PageOptions & { limit: number } {
+    const { defaultLimit = DEFAULT_PAGE_LIMIT, maxLimit = MAX_PAGE_LIMIT } = options;
+    const limit = query?.limit === undefined || query.limit === "" ? defaultLimit : Number(query.limit);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+        throw new BadRequestError(`limit must be an integer between 1 and ${maxLimit}`, {
+            code: "INVALID_LIMIT",
+            errors: [{ field: "query.limit", message: `must be an integer between 1 and ${maxLimit}` }],
+        });
+    }
+
+    return { limit, ...(query?.cursor && { cursor: query.cursor }) };
+}
+
+export function paginatedResponse<T>(page: PaginatedResult<T>, limit: number): ApiResponse {
+    const pagination: PaginationInfo = {
+        limit,
+        nextCursor: page.nextCursor ?? null,
+        hasMore: Boolean(page.nextCursor),
+    };
+
+    return {
+        statusCode: 200,
+        body: {
+            success: true,
+            data: page.items,
+            pagination
+        }
+    };
+}
+
+/**
+ * Strong `ETag` of an item version, e.g. `"3"`
+ */
+export function versionETag(version: number): string {
+    return `"${version}"`;
+}
+
+/**
+ * Reads the version from an `If-Match` header holding an ETag from `versionETag`. Returns
+ * `undefined` without a header or for `*`, and fails with a `412` for an ETag no version has.
+ */
+export function parseIfMatchVersion(header: string | undefined): number | undefined {
+    const value = header?.trim();
+    if (!value || value === "*") {
+        return undefined;
+    }
+
+    const version = Number(value.replace(/^W\//, "").replace(/^"(.*)"$/, "$1"));
+
+    if (!Number.isInteger(version) || version < 0) {
+        throw new PreconditionFailedError("If-Match does not match any version of the resource", { code: "VERSION_MISMATCH" });
+    }
+
+    return version;
+}
@@ -0,0 +1,178 @@
+import {
+    APIGatewayAuthorizerResult,
+    APIGatewayAuthorizerResultContext,
+    APIGatewayRequestAuthorizerEvent,
+    APIGatewayTokenAuthorizerEvent
+} from "aws-lambda";
+import { authUserFromClaims, authorizerContextFromUser, createCognitoVerifierFromEnv, createJwksVerifierFromEnv } from "./api-auth";
+import { BaseLambda } from "./base-lambda";
+import { AuthUser } from "./rest-api-lambda";
+
+export type AuthorizerEvent = APIGatewayTokenAuthorizerEvent | APIGatewayRequestAuthorizerEvent;
+
+export type PolicyEffect = "Allow" | "Deny";
+
+export interface TokenVerifier {
+  verify(token: string): Promise<object>;
+}
+
+/**
+ * Outcome of `authorize`: the caller's principal and the context passed to the integration
+ */
+export interface AuthorizerDecision {
+  principalId: string;
+  effect?: PolicyEffect;
+  context?: APIGatewayAuthorizerResultContext;
+  /** API key used for usage plans when the API key source is `AUTHORIZER` */
+  usageIdentifierKey?: string;
+}
+
+/**
+ * API Gateway answers with a 401 only for this exact error message
+ */
+export const UNAUTHORIZED = "Unauthorized";
+
+/**
+ * Base class for API Gateway Lambda authorizers of type TOKEN or REQUEST, including
+ * WebSocket `$connect` authorizers. Verifies a Bearer token with the Cognito User Pool
+ * (`USER_POOL_ID`, `USER_POOL_CLIENT_ID`) or any JWKS issuer (`JWT_ISSUER`, `JWKS_URI`,
+ * `JWT_AUDIENCE`) and passes the user to `RestApiLambda` through the authorizer context.
+ */
+export abstract class AuthorizerLambda extends BaseLambda<AuthorizerEvent, APIGatewayAuthorizerResult> {
+    protected jwtVerifier?: TokenVerifier;
+    /** Query string parameter checked for REQUEST authorizers when no Authorization header is sent */
+    protected tokenQueryParameter = "token";
+    /**
+     * Allow every method of the stage rather than only the called one, so a cached
+     * policy keeps working for the caller's other requests
+     */
+    protected wildcardResources = true;
+
+    constructor() {
+        super();
+        this.jwtVerifier = createCognitoVerifierFromEnv() || createJwksVerifierFromEnv();
+    }
+
+    /**
+     * Decides whether the caller may invoke the API. Returns `null` to deny with a 403;
+     * throwing `UNAUTHORIZED` answers with a 401. Verifies the JWT and maps its claims by default.
+     */
+    protected async authorize(token: string, event: AuthorizerEvent): Promise<AuthorizerDecision | null> {
+        const claims = await this.verifyToken(token, event);
+        const user = this.getUserFromClaims(claims);
+
+        return this.isAllowed(user, event)
+            ? { principalId: user.id, context: authorizerContextFromUser(user) }
+            : null;
+    }
+
+    /**
+     * Extra checks on the verified user. Allows everyone by default; turn `wildcardResources`
+     * off when the decision depends on `event.methodArn`, or the cached policy leaks to other methods.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    protected isAllowed(_user: AuthUser, _event: AuthorizerEvent): boolean {
+        return true;
+    }
+
+    /**
+     * Returns the token's verified claims, or throws `UNAUTHORIZED` when it is invalid
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    protected async verifyToken(token: string, _event: AuthorizerEvent): Promise<Record<string, unknown>> {
+        if (!this.jwtVerifier) {
+            throw new Error("No token verifier configured, set USER_POOL_ID and USER_POOL_CLIENT_ID or JWT_ISSUER");
+        }
+
+        try {
+            return await this.jwtVerifier.verify(token) as Record<string, unknown>;
+        } catch (error) {
+            this.logger.warn("Token verification failed", { error });
+            throw new Error(UNAUTHORIZED);
+        }
+    }
+
+    protected getUserFromClaims(claims: Record<string, unknown>): AuthUser {
+        return authUserFromClaims(claims);
+    }
+
+    protected async process(event: AuthorizerEvent): Promise<APIGatewayAuthorizerResult> {
+        const token = this.extractToken(event);
+        if (!token) {
+            throw new Error(UNAUTHORIZED);
+        }
+
+        const decision = await this.authorize(token, event);
+        if (!decision) {
+            return buildAuthorizerPolicy("anonymous", "Deny", event.methodArn);
+        }
+
+        const resource = this.wildcardResources ? wildcardMethodArn(event.methodArn) : event.methodArn;
+
+        return {
+            ...buildAuthorizerPolicy(decision.principalId, decision.effect || "Allow", resource, decision.context),
+            ...(decision.usageIdentifierKey && { usageIdentifierKey: decision.usageIdentifierKey }),
+        };
+    }
+
+    protected async handleError(error: Error | unknown): Promise<APIGatewayAuthorizerResult> {
+        if (!(error instanceof Error && error.message === UNAUTHORIZED)) {
+            this.logger.error("Error in Authorizer Lambda:", error);
+        }
+        throw error;
+    }
+
+    /**
+     * Reads the Bearer token of a TOKEN authorizer, or the Authorization header or
+     * `tokenQueryParameter` of a REQUEST authorizer
+     */
+    protected extractToken(event: AuthorizerEvent): string | null {
+        const header = event.type === "TOKEN"
+            ? event.authorizationToken
+            : event.headers?.Authorization || event.headers?.authorization;
+
+        if (header) {
+            const match = header.match(/^Bearer\s+(.+)$/i);
+            return match ? match[1] : null;
+        }
+
+        if (event.type === "REQUEST") {
+            return event.queryStringParameters?.[this.tokenQueryParameter] || null;
+        }
+
+        return null;
+    }
+}
+
+/**
+ * Builds the IAM policy returned by a Lambda authorizer
+ */
+export function buildAuthorizerPolicy(
+    principalId: string,
+    effect: PolicyEffect,
+    resource: string | string[],
+    context?: APIGatewayAuthorizerResultContext
+): APIGatewayAuthorizerResult {
+    return {
+        principalId,
+        policyDocument: {
+            Version: "2012-10-17",
+            Statement: [{
+                Action: "execute-api:Invoke",
+                Effect: effect,
+                Resource: resource,
+            }],
+        },
+        ...(context && { context }),
+    };
+}
+
+/**
+ * Turns `arn:aws:execute-api:region:account:apiId/stage/GET/users/1` into
+ * `arn:aws:execute-api:region:account:apiId/stage/*`
+ */
+export function wildcardMethodArn(methodArn: string): string {
+    const [apiArn, stage] = methodArn.split("/");
+
+    return stage ? `${apiArn}/${stage}/*` : methodArn;
+}
@@ -1,9 +1,30 @@
 import { Context } from "aws-lambda";
+import { Idempotency } from "../middleware/idempotency";
 import { Logger } from "../middleware/logger";
+import { LambdaMiddleware, MiddlewareChain } from "../middleware/middleware-chain";
+
+/**
+ * Reason of the invocation's abort signal when the Lambda timeout is near
+ */
+export class TimeoutImminentError extends Error {
+    constructor(public readonly remainingTimeMs: number) {
+        super(`Lambda timeout imminent, ${remainingTimeMs}ms remaining`);
+        this.name = "TimeoutImminentError";
+    }
+}
+
+const DEFAULT_TIMEOUT_MARGIN_MS = 1000;
 
 export abstract class BaseLambda<TEvent, TResult> {
     protected context: Context;
     protected logger: Logger;
+    /** When set, retries of an event replay the stored result instead of processing it again */
+    protected idempotency?: Idempotency;
+    /** Middy middleware objects run around `process`, see `use` */
+    protected middleware = new MiddlewareChain<TEvent, TResult>();
+    /** Time left before the Lambda timeout at which the invocation's signal aborts */
+    protected timeoutMarginMs = DEFAULT_TIMEOUT_MARGIN_MS;
+    private abortController = new AbortController();
 
     constructor() {
         this.context = {} as Context;
@@ -15,17 +36,92 @@ export abstract class BaseLambda<TEvent, TResult> {
    */
     public async handler(event: TEvent, context: Context): Promise<TResult> {
         this.context = context;
+        const request = this.middleware.createRequest(event, context);
+        const deadline = this.startDeadline();
 
         try {
             await this.initialize(event);
-            return await this.process(event);
+            await this.middleware.before(request);
+
+            // Middleware may replace the event, e.g. with a parsed body
+            const processed = request.event;
+            request.response = this.idempotency
+                ? await this.idempotency.run(processed, () => this.process(processed), context)
+                : await this.process(processed);
+
+            await this.middleware.after(request);
+            return request.response;
         } catch (error) {
-            return await this.handleError(error);
+            request.error = error as Error;
+            request.response = null as unknown as TResult;
+
+            if (await this.middleware.onError(request)) {
+                return request.response;
+            }
+
+            return await this.handleError(request.error || error);
         } finally {
+            clearTimeout(deadline);
             await this.cleanup();
         }
     }
 
+    /**
+   * Aborts when the invocation is `timeoutMarginMs` away from the Lambda timeout. Pass it to
+   * SDK calls, as `DynamoDBService`, `S3EventLambda.getObject` and `WebSocketLambda.sendMessage` do,
+   * so they fail before Lambda kills the invocation.
+   */
+    protected get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    /**
+   * Milliseconds left before the Lambda timeout, `Infinity` outside of Lambda
+   */
+    protected get remainingTimeMs(): number {
+        return this.context.getRemainingTimeInMillis?.() ?? Infinity;
+    }
+
+    /**
+   * Called once `signal` has aborted, while there is still `timeoutMarginMs` left to wrap up.
+   * Batch handlers report the records they have not processed yet as failures on their own;
+   * override to save progress or release resources.
+   */
+    protected async onTimeoutImminent(remainingTimeMs: number): Promise<void> {
+        this.logger.warn("Lambda timeout imminent, aborting pending work", {
+            remainingTimeMs,
+            functionName: this.context.functionName,
+            awsRequestId: this.context.awsRequestId,
+        });
+    }
+
+    /**
+   * Adds a middy middleware object, such as `jwtAuth`, `secretsManager` or `loggerMiddleware`.
+   * `before` hooks run in order before `process`, `after` hooks in reverse order after it,
+   * and `onError` hooks before `handleError`, which is skipped when one of them handles the error.
+   */
+    protected use(middleware: LambdaMiddleware<TEvent, TResult>): this {
+        this.middleware.use(middleware);
+        return this;
+    }
+
+    private startDeadline(): ReturnType<typeof setTimeout> | undefined {
+        this.abortController = new AbortController();
+
+        const remaining = this.remainingTimeMs;
+        if (!Number.isFinite(remaining)) {
+            return undefined;
+        }
+
+        return setTimeout(() => {
+            const remainingTimeMs = this.remainingTimeMs;
+            this.abortController.abort(new TimeoutImminentError(remainingTimeMs));
+            this.onTimeoutImminent(remainingTimeMs).catch(error => {
+                this.logger.error("Error in onTimeoutImminent:", error);
+            });
+        }, Math.max(0, remaining - this.timeoutMarginMs));
+    }
+
     /**
    * Initialize resources before processing
    */
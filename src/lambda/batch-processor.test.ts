@@ -0,0 +1,103 @@
+import { DynamoDBRecord, KinesisStreamRecord, SQSRecord } from "aws-lambda";
+import { BatchProcessor } from "./batch-processor";
+
+function sqsRecord(messageId: string, options: { fifo?: boolean; groupId?: string } = {}): SQSRecord {
+    return {
+        messageId,
+        body: messageId,
+        eventSourceARN: `arn:aws:sqs:eu-west-1:123456789012:orders${options.fifo ? ".fifo" : ""}`,
+        attributes: { MessageGroupId: options.groupId },
+    } as unknown as SQSRecord;
+}
+
+function kinesisRecord(sequenceNumber: string, partitionKey: string): KinesisStreamRecord {
+    return { kinesis: { sequenceNumber, partitionKey } } as unknown as KinesisStreamRecord;
+}
+
+function streamRecord(sequenceNumber: string, id: string): DynamoDBRecord {
+    return { dynamodb: { SequenceNumber: sequenceNumber, Keys: { PK: { S: id } } } } as DynamoDBRecord;
+}
+
+function failOn(...ids: string[]) {
+    const processed: string[] = [];
+    const handler = async (record: SQSRecord) => {
+        processed.push(record.messageId);
+        if (ids.includes(record.messageId)) {
+            throw new Error(`Failed ${record.messageId}`);
+        }
+    };
+    return { handler, processed };
+}
+
+describe("BatchProcessor", () => {
+    test("reports only the failed records of a standard queue and keeps processing the others", async () => {
+        const { handler, processed } = failOn("2");
+
+        const result = await new BatchProcessor<SQSRecord>().process(["1", "2", "3"].map(id => sqsRecord(id)), handler);
+
+        expect(processed).toEqual(["1", "2", "3"]);
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: "2" }]);
+        expect(result.failures[0].error).toEqual(new Error("Failed 2"));
+    });
+
+    test("skips the rest of a FIFO message group after its first failure", async () => {
+        const { handler, processed } = failOn("a1");
+        const records = [
+            sqsRecord("a1", { fifo: true, groupId: "a" }),
+            sqsRecord("b1", { fifo: true, groupId: "b" }),
+            sqsRecord("a2", { fifo: true, groupId: "a" }),
+        ];
+
+        const result = await new BatchProcessor<SQSRecord>().process(records, handler);
+
+        expect(processed).toEqual(["a1", "b1"]);
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: "a1" }, { itemIdentifier: "a2" }]);
+        expect(result.failures[1]).toEqual({ record: records[2] });
+    });
+
+    test("groups stream records by partition key or item and reports their sequence numbers", async () => {
+        const kinesis = await new BatchProcessor<KinesisStreamRecord>().process(
+            [kinesisRecord("1", "p"), kinesisRecord("2", "q"), kinesisRecord("3", "p")],
+            async record => {
+                if (record.kinesis.sequenceNumber === "1") throw new Error("boom");
+            },
+        );
+        const dynamodb = await new BatchProcessor<DynamoDBRecord>({ preserveOrder: false }).process(
+            [streamRecord("10", "x"), streamRecord("11", "x")],
+            async record => {
+                if (record.dynamodb?.SequenceNumber === "10") throw new Error("boom");
+            },
+        );
+
+        expect(kinesis.batchItemFailures).toEqual([{ itemIdentifier: "1" }, { itemIdentifier: "3" }]);
+        expect(dynamodb.batchItemFailures).toEqual([{ itemIdentifier: "10" }]);
+    });
+
+    test("reports the records not processed yet once the signal aborts", async () => {
+        const controller = new AbortController();
+        const processor = new BatchProcessor<SQSRecord>({ signal: controller.signal });
+
+        const result = await processor.process(["1", "2", "3"].map(id => sqsRecord(id)), async record => {
+            if (record.messageId === "1") controller.abort();
+        });
+
+        expect(result.batchItemFailures).toEqual([{ itemIdentifier: "2" }, { itemIdentifier: "3" }]);
+        expect(result.failures.every(failure => failure.error === undefined)).toBe(true);
+    });
+
+    test("limits the records processed at the same time", async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const processor = new BatchProcessor<SQSRecord>({ concurrency: 2 });
+
+        const result = await processor.process(["1", "2", "3", "4", "5"].map(id => sqsRecord(id)), async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+        });
+
+        expect(maxRunning).toBe(2);
+        expect(result.batchItemFailures).toEqual([]);
+    });
+});
@@ -0,0 +1,157 @@
+import { DynamoDBRecord, KinesisStreamRecord, SQSRecord } from "aws-lambda";
+
+export type BatchRecord = SQSRecord | KinesisStreamRecord | DynamoDBRecord;
+
+export interface BatchItemFailure {
+  itemIdentifier: string;
+}
+
+/**
+ * Response shape understood by SQS, Kinesis and DynamoDB Streams event source mappings
+ * with `ReportBatchItemFailures` enabled
+ */
+export interface BatchResponse {
+  batchItemFailures: BatchItemFailure[];
+}
+
+export interface BatchRecordFailure<TRecord extends BatchRecord> {
+  record: TRecord;
+  /** `undefined` for records skipped after an earlier failure in their group, or after `signal` aborted */
+  error?: unknown;
+}
+
+export interface BatchResult<TRecord extends BatchRecord> extends BatchResponse {
+  failures: BatchRecordFailure<TRecord>[];
+}
+
+export interface BatchProcessorOptions {
+  /** Number of records, or ordered groups of records, processed at the same time (default: 1) */
+  concurrency?: number;
+  /**
+   * Keep records of the same SQS FIFO message group, Kinesis partition key or DynamoDB item in order,
+   * and stop processing a group at its first failure. Defaults to `true` for FIFO queues and streams.
+   */
+  preserveOrder?: boolean;
+  /** Stops processing when aborted and reports the records not processed yet as failures */
+  signal?: AbortSignal;
+}
+
+export type BatchRecordHandler<TRecord extends BatchRecord> = (record: TRecord) => Promise<void>;
+
+/**
+ * Processes the records of an SQS, Kinesis or DynamoDB Streams batch one by one and reports
+ * the failed ones, so only those are retried instead of the whole batch
+ */
+export class BatchProcessor<TRecord extends BatchRecord> {
+    constructor(private readonly options: BatchProcessorOptions = {}) {}
+
+    async process(records: TRecord[], handler: BatchRecordHandler<TRecord>): Promise<BatchResult<TRecord>> {
+        const failed = new Map<TRecord, BatchRecordFailure<TRecord>>();
+        const groups = this.groupRecords(records);
+        const concurrency = Math.max(1, this.options.concurrency || 1);
+
+        const processGroup = async (group: TRecord[]): Promise<void> => {
+            for (let index = 0; index < group.length; index++) {
+                const record = group[index];
+
+                // Unprocessed records are retried instead of being lost to the Lambda timeout
+                if (this.options.signal?.aborted) {
+                    group.slice(index).forEach(skipped => failed.set(skipped, { record: skipped }));
+                    return;
+                }
+
+                try {
+                    await handler(record);
+                } catch (error) {
+                    failed.set(record, { record, error });
+
+                    // Later records of an ordered group must not overtake the failed one
+                    if (group.length > 1) {
+                        group.slice(index + 1).forEach(skipped => failed.set(skipped, { record: skipped }));
+                        return;
+                    }
+                }
+            }
+        };
+
+        let next = 0;
+        const worker = async (): Promise<void> => {
+            while (next < groups.length) {
+                await processGroup(groups[next++]);
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(concurrency, groups.length) }, worker));
+
+        const failures = records.filter(record => failed.has(record)).map(record => failed.get(record) as BatchRecordFailure<TRecord>);
+
+        return {
+            batchItemFailures: failures.map(({ record }) => ({ itemIdentifier: getItemIdentifier(record) })),
+            failures,
+        };
+    }
+
+    private groupRecords(records: TRecord[]): TRecord[][] {
+        const groups = new Map<string, TRecord[]>();
+        const ungrouped: TRecord[][] = [];
+
+        records.forEach(record => {
+            const key = this.getGroupKey(record);
+            if (key === undefined) {
+                ungrouped.push([record]);
+                return;
+            }
+
+            const group = groups.get(key);
+            if (group) {
+                group.push(record);
+            } else {
+                const created = [record];
+                groups.set(key, created);
+                ungrouped.push(created);
+            }
+        });
+
+        return ungrouped;
+    }
+
+    private getGroupKey(record: TRecord): string | undefined {
+        if (isSQSRecord(record)) {
+            const fifo = record.eventSourceARN?.endsWith(".fifo");
+            if (this.options.preserveOrder === false || (!fifo && !this.options.preserveOrder)) {
+                return undefined;
+            }
+            return record.attributes.MessageGroupId || "";
+        }
+
+        if (this.options.preserveOrder === false) {
+            return undefined;
+        }
+
+        if (isKinesisRecord(record)) {
+            return record.kinesis.partitionKey;
+        }
+
+        return JSON.stringify(record.dynamodb?.Keys || {});
+    }
+}
+
+export function getItemIdentifier(record: BatchRecord): string {
+    if (isSQSRecord(record)) {
+        return record.messageId;
+    }
+
+    if (isKinesisRecord(record)) {
+        return record.kinesis.sequenceNumber;
+    }
+
+    return record.dynamodb?.SequenceNumber || "";
+}
+
+function isSQSRecord(record: BatchRecord): record is SQSRecord {
+    return "messageId" in record;
+}
+
+function isKinesisRecord(record: BatchRecord): record is KinesisStreamRecord {
+    return "kinesis" in record;
+}
@@ -0,0 +1,199 @@
+import {
+    CustomMessageTriggerEvent,
+    PostConfirmationTriggerEvent,
+    PreSignUpTriggerEvent,
+    PreTokenGenerationTriggerEvent,
+    UserMigrationTriggerEvent,
+    UserStatus
+} from "aws-lambda";
+import { BaseLambda } from "./base-lambda";
+
+export type CognitoTriggerEvent =
+    | PreSignUpTriggerEvent
+    | PostConfirmationTriggerEvent
+    | PreTokenGenerationTriggerEvent
+    | CustomMessageTriggerEvent
+    | UserMigrationTriggerEvent;
+
+export type ClaimValue = string | number | boolean;
+
+export interface AutoConfirmOptions {
+  /** Mark the email as verified, defaults to `true` when the user has an email */
+  verifyEmail?: boolean;
+  /** Mark the phone number as verified, defaults to `true` when the user has a phone number */
+  verifyPhone?: boolean;
+}
+
+export interface GroupOverrideOptions {
+  iamRoles?: string[];
+  preferredRole?: string;
+}
+
+export interface CustomMessage {
+  emailSubject?: string;
+  /** Must contain the code placeholder, `event.request.codeParameter` */
+  emailMessage?: string;
+  smsMessage?: string;
+}
+
+export interface MigrateUserOptions {
+  /** Defaults to `CONFIRMED`, so migrated users can sign in right away */
+  finalUserStatus?: UserStatus;
+  /** Defaults to `SUPPRESS`, so migrated users get no welcome message */
+  messageAction?: "RESEND" | "SUPPRESS";
+  desiredDeliveryMediums?: Array<"SMS" | "EMAIL">;
+  forceAliasCreation?: boolean;
+}
+
+/**
+ * Base class for Cognito User Pool triggers. Cognito expects the event back with its
+ * `response` filled in; throwing fails the operation and shows the message to the user.
+ */
+export abstract class CognitoTriggerLambda<TEvent extends CognitoTriggerEvent> extends BaseLambda<TEvent, TEvent> {
+    protected abstract processTrigger(event: TEvent): Promise<void>;
+
+    protected async process(event: TEvent): Promise<TEvent> {
+        await this.processTrigger(event);
+        return event;
+    }
+
+    protected async handleError(error: Error | unknown): Promise<TEvent> {
+        this.logger.error("Error in Cognito trigger:", error);
+        throw error;
+    }
+}
+
+export abstract class PreSignUpLambda extends CognitoTriggerLambda<PreSignUpTriggerEvent> {
+    protected abstract processPreSignUp(event: PreSignUpTriggerEvent): Promise<void>;
+
+    protected async processTrigger(event: PreSignUpTriggerEvent): Promise<void> {
+        await this.processPreSignUp(event);
+    }
+
+    /**
+     * Confirms the user without a verification code
+     */
+    protected autoConfirm(event: PreSignUpTriggerEvent, options: AutoConfirmOptions = {}): void {
+        const { email, phone_number: phoneNumber } = event.request.userAttributes;
+
+        event.response.autoConfirmUser = true;
+        // Cognito rejects verifying attributes the user does not have
+        event.response.autoVerifyEmail = Boolean(email) && options.verifyEmail !== false;
+        event.response.autoVerifyPhone = Boolean(phoneNumber) && options.verifyPhone !== false;
+    }
+}
+
+export abstract class PostConfirmationLambda extends CognitoTriggerLambda<PostConfirmationTriggerEvent> {
+    protected abstract processPostConfirmation(event: PostConfirmationTriggerEvent): Promise<void>;
+
+    protected async processTrigger(event: PostConfirmationTriggerEvent): Promise<void> {
+        await this.processPostConfirmation(event);
+    }
+}
+
+export abstract class PreTokenGenerationLambda extends CognitoTriggerLambda<PreTokenGenerationTriggerEvent> {
+    protected abstract processPreTokenGeneration(event: PreTokenGenerationTriggerEvent): Promise<void>;
+
+    protected async processTrigger(event: PreTokenGenerationTriggerEvent): Promise<void> {
+        event.response.claimsOverrideDetails = event.response.claimsOverrideDetails || {};
+        await this.processPreTokenGeneration(event);
+    }
+
+    /**
+     * Adds claims to the ID token or overrides existing ones. Cognito only accepts string
+     * values, so numbers and booleans are converted.
+     */
+    protected addClaims(event: PreTokenGenerationTriggerEvent, claims: Record<string, ClaimValue>): void {
+        const details = event.response.claimsOverrideDetails;
+
+        details.claimsToAddOrOverride = {
+            ...details.claimsToAddOrOverride,
+            ...Object.fromEntries(Object.entries(claims).map(([name, value]) => [name, String(value)])),
+        };
+    }
+
+    /**
+     * Removes claims from the ID token
+     */
+    protected suppressClaims(event: PreTokenGenerationTriggerEvent, ...names: string[]): void {
+        const details = event.response.claimsOverrideDetails;
+
+        details.claimsToSuppress = Array.from(new Set([...(details.claimsToSuppress || []), ...names]));
+    }
+
+    /**
+     * Replaces the `cognito:groups` claim, and optionally the IAM roles, of the tokens
+     */
+    protected overrideGroups(event: PreTokenGenerationTriggerEvent, groups: string[], options: GroupOverrideOptions = {}): void {
+        event.response.claimsOverrideDetails.groupOverrideDetails = {
+            groupsToOverride: groups,
+            ...(options.iamRoles && { iamRolesToOverride: options.iamRoles }),
+            ...(options.preferredRole && { preferredRole: options.preferredRole }),
+        };
+    }
+
+    /**
+     * Returns the groups the user belongs to
+     */
+    protected getGroups(event: PreTokenGenerationTriggerEvent): string[] {
+        return event.request.groupConfiguration?.groupsToOverride || [];
+    }
+}
+
+export abstract class CustomMessageLambda extends CognitoTriggerLambda<CustomMessageTriggerEvent> {
+    protected abstract processCustomMessage(event: CustomMessageTriggerEvent): Promise<void>;
+
+    protected async processTrigger(event: CustomMessageTriggerEvent): Promise<void> {
+        await this.processCustomMessage(event);
+    }
+
+    /**
+     * Replaces the default messages. Cognito silently falls back to its own message when
+     * a custom one lacks the code placeholder, so that is logged as a warning.
+     */
+    protected setMessage(event: CustomMessageTriggerEvent, message: CustomMessage): void {
+        const { codeParameter } = event.request;
+
+        [message.emailMessage, message.smsMessage].forEach(text => {
+            if (text !== undefined && codeParameter && !text.includes(codeParameter)) {
+                this.logger.warn("Custom message does not contain the code placeholder", {
+                    triggerSource: event.triggerSource,
+                    codeParameter,
+                });
+            }
+        });
+
+        if (message.emailSubject !== undefined) event.response.emailSubject = message.emailSubject;
+        if (message.emailMessage !== undefined) event.response.emailMessage = message.emailMessage;
+        if (message.smsMessage !== undefined) event.response.smsMessage = message.smsMessage;
+    }
+}
+
+export abstract class UserMigrationLambda extends CognitoTriggerLambda<UserMigrationTriggerEvent> {
+    /**
+     * Looks the user up in the legacy system and calls `migrateUser`; throw when the user
+     * does not exist or the password is wrong
+     */
+    protected abstract processUserMigration(event: UserMigrationTriggerEvent): Promise<void>;
+
+    protected async processTrigger(event: UserMigrationTriggerEvent): Promise<void> {
+        await this.processUserMigration(event);
+    }
+
+    /**
+     * Creates the user in the pool with the given attributes
+     */
+    protected migrateUser(event: UserMigrationTriggerEvent, userAttributes: Record<string, string>, options: MigrateUserOptions = {}): void {
+        event.response.userAttributes = userAttributes;
+        event.response.finalUserStatus = options.finalUserStatus || "CONFIRMED";
+        event.response.messageAction = options.messageAction || "SUPPRESS";
+
+        if (options.desiredDeliveryMediums) {
+            event.response.desiredDeliveryMediums = options.desiredDeliveryMediums;
+        }
+
+        if (options.forceAliasCreation !== undefined) {
+            event.response.forceAliasCreation = options.forceAliasCreation;
+        }
+    }
+}
@@ -0,0 +1,33 @@
+export interface CookieOptions {
+  domain?: string;
+  path?: string;
+  expires?: Date;
+  maxAge?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+/**
+ * Serializes a cookie for a `Set-Cookie` header or the `cookies` field of an HTTP API response
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+    const parts = [`${name}=${encodeURIComponent(value)}`];
+
+    if (options.domain) parts.push(`Domain=${options.domain}`);
+    parts.push(`Path=${options.path || "/"}`);
+    if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+    if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+    if (options.httpOnly !== false) parts.push("HttpOnly");
+    if (options.secure !== false) parts.push("Secure");
+    if (options.sameSite) parts.push(`SameSite=${options.sameSite}`);
+
+    return parts.join("; ");
+}
+
+/**
+ * Serializes a cookie that makes the browser drop `name`
+ */
+export function serializeExpiredCookie(name: string, options: Omit<CookieOptions, "expires" | "maxAge"> = {}): string {
+    return serializeCookie(name, "", { ...options, expires: new Date(0), maxAge: 0 });
+}
@@ -1,10 +1,45 @@
-import { DynamoDBStreamEvent, Context } from "aws-lambda";
-import { BaseLambda } from "./base-lambda";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { AttributeValue, DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { DynamoDBRecord, DynamoDBStreamEvent } from "aws-lambda";
+import { BaseLambda } from "./base-lambda";
+import { BatchProcessor, BatchProcessorOptions, BatchResponse, getItemIdentifier } from "./batch-processor";
+
+export type StreamEventName = "INSERT" | "MODIFY" | "REMOVE";
+
+/**
+ * A stream record with its images unmarshalled into plain objects
+ */
+export interface StreamChange<TItem = Record<string, unknown>> {
+  eventName: StreamEventName;
+  keys: Record<string, unknown>;
+  newImage?: TItem;
+  oldImage?: TItem;
+  /** Top-level attributes added, removed or changed by a MODIFY; all attributes of the image otherwise */
+  changedAttributes: string[];
+  record: DynamoDBRecord;
+}
+
+export type StreamChangeHandler<TItem = Record<string, unknown>> = (change: StreamChange<TItem>) => Promise<void>;
 
-export abstract class DynamoDBStreamLambda extends BaseLambda<DynamoDBStreamEvent, void> {
+export interface StreamSubscriptionOptions {
+  /** Only run for these event names (default: all) */
+  events?: StreamEventName[];
+  /** Only run when one of these attributes changed */
+  attributes?: string[];
+}
+
+interface StreamSubscription extends StreamSubscriptionOptions {
+  entityType: string;
+  handler: StreamChangeHandler;
+}
+
+export abstract class DynamoDBStreamLambda extends BaseLambda<DynamoDBStreamEvent, BatchResponse | void> {
     protected dynamoDB: DynamoDBDocumentClient;
+    /** Attribute holding the entity type in single-table designs */
+    protected entityTypeAttribute = "type";
+    protected batchOptions: BatchProcessorOptions = {};
+    private subscriptions: StreamSubscription[] = [];
 
     constructor() {
         super();
@@ -12,26 +47,131 @@ export abstract class DynamoDBStreamLambda extends BaseLambda<DynamoDBStreamEven
         this.dynamoDB = DynamoDBDocumentClient.from(client);
     }
 
-  protected abstract processDynamoDBStream(event: DynamoDBStreamEvent): Promise<void>;
+    /**
+     * Dispatches each change to the handlers subscribed with `onChange`, reporting failed
+     * records through `batchItemFailures`. Override to handle the stream manually.
+     */
+    protected async processDynamoDBStream(event: DynamoDBStreamEvent): Promise<BatchResponse | void> {
+        const result = await new BatchProcessor<DynamoDBRecord>({ signal: this.signal, ...this.batchOptions }).process(
+            event.Records,
+            record => this.dispatchChange(this.toChange(record))
+        );
+
+        result.failures.filter(failure => failure.error !== undefined).forEach(failure => {
+            this.logger.error("Failed to process stream record", {
+                itemIdentifier: getItemIdentifier(failure.record),
+                error: failure.error,
+            });
+        });
+
+        return { batchItemFailures: result.batchItemFailures };
+    }
+
+    protected async process(event: DynamoDBStreamEvent): Promise<BatchResponse | void> {
+        return await this.processDynamoDBStream(event);
+    }
+
+    protected async handleError(error: Error | unknown): Promise<void> {
+        this.logger.error("Error in DynamoDB Stream Lambda:", error);
+        throw error;
+    }
+
+    /**
+     * Subscribes a handler to changes of items whose `entityTypeAttribute` equals `entityType`;
+     * `*` subscribes to every item
+     */
+    protected onChange<TItem = Record<string, unknown>>(
+        entityType: string,
+        handler: StreamChangeHandler<TItem>,
+        options: StreamSubscriptionOptions = {}
+    ): this {
+        this.subscriptions.push({ ...options, entityType, handler: handler as StreamChangeHandler });
+        return this;
+    }
+
+    protected async dispatchChange(change: StreamChange): Promise<void> {
+        const item = change.newImage || change.oldImage || {};
+        const entityType = item[this.entityTypeAttribute];
+
+        const subscriptions = this.subscriptions.filter(subscription =>
+            (subscription.entityType === "*" || subscription.entityType === entityType) &&
+            (!subscription.events || subscription.events.includes(change.eventName)) &&
+            (!subscription.attributes || subscription.attributes.some(name => change.changedAttributes.includes(name)))
+        );
+
+        for (const subscription of subscriptions) {
+            await subscription.handler(change);
+        }
+    }
+
+    protected toChange<TItem = Record<string, unknown>>(record: DynamoDBRecord): StreamChange<TItem> {
+        const newImage = toItem(record.dynamodb?.NewImage);
+        const oldImage = toItem(record.dynamodb?.OldImage);
+
+        return {
+            eventName: record.eventName as StreamEventName,
+            keys: toItem(record.dynamodb?.Keys) || {},
+            newImage: newImage as TItem | undefined,
+            oldImage: oldImage as TItem | undefined,
+            changedAttributes: diffAttributes(oldImage, newImage),
+            record,
+        };
+    }
+
+    protected getChanges<TItem = Record<string, unknown>>(event: DynamoDBStreamEvent): StreamChange<TItem>[] {
+        return event.Records.map(record => this.toChange<TItem>(record));
+    }
+
+    protected getInsertRecords(event: DynamoDBStreamEvent) {
+        return event.Records.filter(record => record.eventName === "INSERT");
+    }
+
+    protected getModifyRecords(event: DynamoDBStreamEvent) {
+        return event.Records.filter(record => record.eventName === "MODIFY");
+    }
 
-  protected async process(event: DynamoDBStreamEvent): Promise<void> {
-      return await this.processDynamoDBStream(event);
-  }
+    protected getRemoveRecords(event: DynamoDBStreamEvent) {
+        return event.Records.filter(record => record.eventName === "REMOVE");
+    }
+}
 
-  protected async handleError(error: Error | unknown): Promise<void> {
-      console.error("Error in DynamoDB Stream Lambda:", error);
-      throw error;
-  }
+/**
+ * Returns the top-level attributes that differ between two images
+ */
+export function diffAttributes(oldImage?: Record<string, unknown>, newImage?: Record<string, unknown>): string[] {
+    const names = new Set([...Object.keys(oldImage || {}), ...Object.keys(newImage || {})]);
 
-  protected getInsertRecords(event: DynamoDBStreamEvent) {
-      return event.Records.filter(record => record.eventName === "INSERT");
-  }
+    return Array.from(names).filter(name => !isEqual(oldImage?.[name], newImage?.[name]));
+}
 
-  protected getModifyRecords(event: DynamoDBStreamEvent) {
-      return event.Records.filter(record => record.eventName === "MODIFY");
-  }
+function toItem(image?: Record<string, unknown>): Record<string, unknown> | undefined {
+    // The stream's AttributeValue shape matches the SDK's, only the typings differ
+    return image ? unmarshall(image as Record<string, AttributeValue>) : undefined;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+    return JSON.stringify(normalize(left)) === JSON.stringify(normalize(right));
+}
+
+function normalize(value: unknown): unknown {
+    if (value instanceof Set) {
+        return Array.from(value).map(normalize).sort();
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+
+    if (value instanceof Uint8Array) {
+        return Buffer.from(value).toString("base64");
+    }
+
+    if (value && typeof value === "object") {
+        return Object.keys(value).sort().reduce<Record<string, unknown>>((result, key) => {
+            result[key] = normalize((value as Record<string, unknown>)[key]);
+            return result;
+        }, {});
+    }
 
-  protected getRemoveRecords(event: DynamoDBStreamEvent) {
-      return event.Records.filter(record => record.eventName === "REMOVE");
-  }
+    return value;
 }
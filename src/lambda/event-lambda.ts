@@ -1,31 +1,166 @@
-import { Context, SQSEvent, SNSEvent, EventBridgeEvent } from "aws-lambda";
+import {
+    Context,
+    SQSEvent,
+    SQSRecord,
+    SNSEvent,
+    SNSEventRecord,
+    EventBridgeEvent,
+    KinesisStreamEvent,
+    DynamoDBStreamEvent
+} from "aws-lambda";
 import { BaseLambda } from "./base-lambda";
+import {
+    BatchProcessor,
+    BatchProcessorOptions,
+    BatchRecord,
+    BatchRecordHandler,
+    BatchResponse,
+    getItemIdentifier
+} from "./batch-processor";
+import {
+    EventBridgeHandler,
+    EventBridgeHandlerOptions,
+    EventRegistry,
+    isEventBridgeEvent,
+    unwrapEventBridgeMessage
+} from "./event-registry";
 
-export type EventType = SQSEvent | SNSEvent | EventBridgeEvent<string, any>;
+export type EventType = SQSEvent | SNSEvent | EventBridgeEvent<string, any> | KinesisStreamEvent | DynamoDBStreamEvent;
 
 export abstract class EventLambda<TEvent extends EventType, TResult = void> extends BaseLambda<TEvent, TResult> {
-  protected abstract processEvent(event: TEvent): Promise<TResult>;
-
-  protected async process(event: TEvent): Promise<TResult> {
-      return await this.processEvent(event);
-  }
-
-  protected async handleError(error: Error | unknown): Promise<TResult> {
-      console.error("Error in Event Lambda:", error);
-      throw error; // Re-throw to let AWS handle the error based on event source
-  }
-
-  protected getEventSource(event: TEvent): string {
-      if ("Records" in event && event.Records?.[0]) {
-          const record = event.Records[0];
-          if ("eventSource" in record && record.eventSource === "aws:sqs") {
-              return "SQS";
-          } else if ("EventSource" in record && record.EventSource === "aws:sns") {
-              return "SNS";
-          }
-      } else if ("source" in event) {
-          return "EventBridge";
-      }
-      return "Unknown";
-  }
+    protected events = new EventRegistry();
+    /** Logs and acknowledges events without a bound handler instead of failing them */
+    protected dropUnknownEvents = false;
+
+    /**
+   * Dispatches EventBridge events to the handlers bound with `on`. Override to handle events manually.
+   */
+    protected async processEvent(event: TEvent): Promise<TResult> {
+        return await this.dispatchEvent(event) as TResult;
+    }
+
+    protected async process(event: TEvent): Promise<TResult> {
+        return await this.processEvent(event);
+    }
+
+    protected async handleError(error: Error | unknown): Promise<TResult> {
+        this.logger.error("Error in Event Lambda:", error);
+        throw error; // Re-throw to let AWS handle the error based on event source
+    }
+
+    /**
+   * Binds a handler to an EventBridge `source` and `detail-type`; `*` matches any detail type of the source
+   */
+    protected on<TDetail = unknown>(
+        source: string,
+        detailType: string,
+        handler: EventBridgeHandler<TDetail>,
+        options?: EventBridgeHandlerOptions<TDetail>
+    ): this {
+        this.events.on(source, detailType, handler, options);
+        return this;
+    }
+
+    /**
+   * Dispatches EventBridge events delivered directly, through SNS or through SQS. Failed SQS
+   * messages are returned as `batchItemFailures` instead of failing the whole batch.
+   */
+    protected async dispatchEvent(event: TEvent): Promise<BatchResponse | void> {
+        if (isEventBridgeEvent(event)) {
+            return await this.dispatchEventBridgeEvent(event);
+        }
+
+        if (this.getEventSource(event) === "SQS") {
+            return await this.processBatch(event as SQSEvent, (record: SQSRecord) => this.dispatchMessage(record.body, record));
+        }
+
+        if (this.getEventSource(event) === "SNS") {
+            for (const record of (event as SNSEvent).Records as SNSEventRecord[]) {
+                await this.dispatchMessage(record.Sns.Message, record);
+            }
+            return;
+        }
+
+        await this.handleUnknownEvent(event);
+    }
+
+    protected async dispatchEventBridgeEvent(event: EventBridgeEvent<string, unknown>): Promise<void> {
+        const handled = await this.events.dispatch(event);
+
+        if (!handled) {
+            await this.handleUnknownEvent(event);
+        }
+    }
+
+    /**
+   * Fallback for events without a bound handler, including SQS and SNS messages that are not
+   * EventBridge events. Throws by default, so SQS messages are retried and end up in the
+   * dead-letter queue; set `dropUnknownEvents` to log and drop them instead.
+   */
+    protected async handleUnknownEvent(event: unknown): Promise<void> {
+        const { source, "detail-type": detailType } = isEventBridgeEvent(event) ? event : { source: undefined, "detail-type": undefined };
+
+        if (this.dropUnknownEvents) {
+            this.logger.warn("No handler bound to event", { source, detailType });
+            return;
+        }
+
+        throw new Error(source ? `No handler bound to event ${source} ${detailType}` : "No handler bound to event");
+    }
+
+    private async dispatchMessage(message: string, record: SQSRecord | SNSEventRecord): Promise<void> {
+        const event = unwrapEventBridgeMessage(message);
+
+        if (event) {
+            await this.dispatchEventBridgeEvent(event);
+        } else {
+            await this.handleUnknownEvent(record);
+        }
+    }
+
+    /**
+   * Processes the records one by one and returns the failed ones as `batchItemFailures`,
+   * so the event source retries only those. Requires `reportBatchItemFailures` on the event source.
+   */
+    protected async processBatch<TRecord extends BatchRecord>(
+        event: { Records: TRecord[] },
+        handler: BatchRecordHandler<TRecord>,
+        options?: BatchProcessorOptions
+    ): Promise<BatchResponse> {
+        const result = await new BatchProcessor<TRecord>({ signal: this.signal, ...options }).process(event.Records, handler);
+
+        result.failures.filter(failure => failure.error !== undefined).forEach(failure => {
+            this.logger.error("Failed to process batch record", {
+                itemIdentifier: getItemIdentifier(failure.record),
+                error: failure.error,
+            });
+        });
+
+        if (result.batchItemFailures.length > 0) {
+            this.logger.warn("Batch completed with failures", {
+                failed: result.batchItemFailures.length,
+                total: event.Records.length,
+            });
+        }
+
+        return { batchItemFailures: result.batchItemFailures };
+    }
+
+    protected getEventSource(event: TEvent): string {
+        if ("Records" in event && event.Records?.[0]) {
+            const record = event.Records[0];
+            if ("eventSource" in record && record.eventSource === "aws:sqs") {
+                return "SQS";
+            } else if ("EventSource" in record && record.EventSource === "aws:sns") {
+                return "SNS";
+            } else if ("eventSource" in record && record.eventSource === "aws:kinesis") {
+                return "Kinesis";
+            } else if ("eventSource" in record && record.eventSource === "aws:dynamodb") {
+                return "DynamoDB";
+            }
+        } else if ("source" in event) {
+            return "EventBridge";
+        }
+        return "Unknown";
+    }
 }
@@ -0,0 +1,100 @@
+import { EventBridgeEvent } from "aws-lambda";
+import { Schema } from "../middleware/schema";
+
+export type EventBridgeHandler<TDetail = unknown> = (event: EventBridgeEvent<string, TDetail>) => Promise<void>;
+
+export interface EventBridgeHandlerOptions<TDetail> {
+  /** Validates and coerces `detail` before the handler runs */
+  schema?: Schema<TDetail>;
+}
+
+export interface EventBridgeBinding<TDetail = unknown> extends EventBridgeHandlerOptions<TDetail> {
+  source: string;
+  detailType: string;
+  handler: EventBridgeHandler<TDetail>;
+}
+
+const WILDCARD = "*";
+
+/**
+ * Binds handlers to EventBridge `source` + `detail-type` pairs. A `*` detail type matches
+ * every event of the source that has no handler of its own.
+ */
+export class EventRegistry {
+    private bindings = new Map<string, EventBridgeBinding>();
+
+    public on<TDetail = unknown>(
+        source: string,
+        detailType: string,
+        handler: EventBridgeHandler<TDetail>,
+        options: EventBridgeHandlerOptions<TDetail> = {}
+    ): this {
+        this.bindings.set(bindingKey(source, detailType), {
+            ...options,
+            source,
+            detailType,
+            handler,
+        } as EventBridgeBinding);
+        return this;
+    }
+
+    public resolve(source: string, detailType: string): EventBridgeBinding | undefined {
+        return this.bindings.get(bindingKey(source, detailType)) || this.bindings.get(bindingKey(source, WILDCARD));
+    }
+
+    public getBindings(): EventBridgeBinding[] {
+        return Array.from(this.bindings.values());
+    }
+
+    /**
+     * Runs the bound handler and returns `false` when no handler is bound to the event
+     */
+    public async dispatch(event: EventBridgeEvent<string, unknown>): Promise<boolean> {
+        const binding = this.resolve(event.source, event["detail-type"]);
+        if (!binding) return false;
+
+        const detail = binding.schema ? binding.schema.parse(event.detail, { path: "detail" }) : event.detail;
+        await binding.handler({ ...event, detail });
+
+        return true;
+    }
+}
+
+export function isEventBridgeEvent(value: unknown): value is EventBridgeEvent<string, unknown> {
+    return typeof value === "object" && value !== null &&
+        typeof (value as { source?: unknown }).source === "string" &&
+        typeof (value as Record<string, unknown>)["detail-type"] === "string";
+}
+
+/**
+ * Returns the EventBridge event carried by a message body, unwrapping the SNS notification
+ * envelope used when SNS delivers to SQS without raw message delivery
+ */
+export function unwrapEventBridgeMessage(message: string | undefined): EventBridgeEvent<string, unknown> | undefined {
+    const payload = parseJson(message);
+
+    if (isEventBridgeEvent(payload)) {
+        return payload;
+    }
+
+    const notification = payload as { Type?: unknown; Message?: unknown } | undefined;
+    if (notification?.Type === "Notification" && typeof notification.Message === "string") {
+        const inner = parseJson(notification.Message);
+        return isEventBridgeEvent(inner) ? inner : undefined;
+    }
+
+    return undefined;
+}
+
+function parseJson(value: string | undefined): unknown {
+    if (!value) return undefined;
+    try {
+        return JSON.parse(value);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+function bindingKey(source: string, detailType: string): string {
+    return `${source}\u0000${detailType}`;
+}
@@ -0,0 +1,368 @@
+import { STATUS_CODES } from "http";
+import {
+    ALBEvent,
+    ALBResult,
+    APIGatewayProxyEvent,
+    APIGatewayProxyEventV2,
+    APIGatewayProxyResult,
+    APIGatewayProxyStructuredResultV2
+} from "aws-lambda";
+import { lowerCaseKeys } from "../middleware/cors";
+import { compactValues } from "./route-validation";
+import { safeDecode } from "./router";
+
+export type HttpEventSource = "apiGatewayV1" | "apiGatewayV2" | "alb" | "functionUrl";
+
+export type HttpEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent;
+
+export type HttpResult = APIGatewayProxyResult | APIGatewayProxyStructuredResultV2 | ALBResult;
+
+export interface HttpIdentity {
+  sourceIp?: string;
+  userAgent?: string;
+  principalId?: string;
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Front-door independent view of an HTTP request. Header names are lower-cased.
+ */
+export interface HttpRequest {
+  source: HttpEventSource;
+  requestId?: string;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  pathParameters: Record<string, string>;
+  cookies: Record<string, string>;
+  body?: string;
+  isBase64Encoded: boolean;
+  identity: HttpIdentity;
+  rawEvent: HttpEvent;
+}
+
+export interface HttpResponse {
+  statusCode: number;
+  headers?: Record<string, string>;
+  cookies?: string[];
+  body?: unknown;
+  isBase64Encoded?: boolean;
+}
+
+export interface HttpAdapter<TEvent extends HttpEvent = HttpEvent, TResult extends HttpResult = HttpResult> {
+  source: HttpEventSource;
+  canHandle(event: unknown): event is TEvent;
+  toRequest(event: TEvent): HttpRequest;
+  toResult(response: HttpResponse, event: TEvent): TResult;
+}
+
+export const apiGatewayV1Adapter: HttpAdapter<APIGatewayProxyEvent, APIGatewayProxyResult> = {
+    source: "apiGatewayV1",
+
+    canHandle(event: unknown): event is APIGatewayProxyEvent {
+        const candidate = event as APIGatewayProxyEvent;
+        return !!candidate && typeof candidate.httpMethod === "string" &&
+            !!candidate.requestContext && !("elb" in candidate.requestContext);
+    },
+
+    toRequest(event) {
+        const headers = lowerCaseKeys(event.headers);
+        const authorizer = event.requestContext.authorizer || undefined;
+
+        return {
+            source: "apiGatewayV1",
+            requestId: event.requestContext.requestId,
+            method: event.httpMethod.toUpperCase(),
+            path: event.path,
+            headers,
+            query: compactValues(event.queryStringParameters),
+            pathParameters: compactValues(event.pathParameters),
+            cookies: parseCookieHeader(headers.cookie),
+            body: event.body ?? undefined,
+            isBase64Encoded: event.isBase64Encoded,
+            identity: {
+                sourceIp: event.requestContext.identity?.sourceIp,
+                userAgent: event.requestContext.identity?.userAgent ?? undefined,
+                principalId: authorizer?.principalId,
+                claims: authorizer?.claims || authorizer,
+            },
+            rawEvent: event,
+        };
+    },
+
+    toResult(response) {
+        const { headers, body, isBase64Encoded } = serializeResponse(response);
+        const result: APIGatewayProxyResult = {
+            statusCode: response.statusCode,
+            headers,
+            body,
+            isBase64Encoded,
+        };
+
+        if (response.cookies?.length) {
+            result.multiValueHeaders = { "Set-Cookie": response.cookies };
+        }
+
+        return result;
+    },
+};
+
+export const apiGatewayV2Adapter: HttpAdapter<APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2> = {
+    source: "apiGatewayV2",
+
+    canHandle(event: unknown): event is APIGatewayProxyEventV2 {
+        const candidate = event as APIGatewayProxyEventV2;
+        return !!candidate && candidate.version === "2.0" && !!candidate.requestContext?.http &&
+            !isFunctionUrlDomain(candidate.requestContext.domainName);
+    },
+
+    toRequest(event) {
+        return toV2Request(event, "apiGatewayV2");
+    },
+
+    toResult(response) {
+        return toV2Result(response);
+    },
+};
+
+export const functionUrlAdapter: HttpAdapter<APIGatewayProxyEventV2, APIGatewayProxyStructuredResultV2> = {
+    source: "functionUrl",
+
+    canHandle(event: unknown): event is APIGatewayProxyEventV2 {
+        const candidate = event as APIGatewayProxyEventV2;
+        return !!candidate && candidate.version === "2.0" && !!candidate.requestContext?.http &&
+            isFunctionUrlDomain(candidate.requestContext.domainName);
+    },
+
+    toRequest(event) {
+        return toV2Request(event, "functionUrl");
+    },
+
+    toResult(response) {
+        return toV2Result(response);
+    },
+};
+
+export const albAdapter: HttpAdapter<ALBEvent, ALBResult> = {
+    source: "alb",
+
+    canHandle(event: unknown): event is ALBEvent {
+        const candidate = event as ALBEvent;
+        return !!candidate && !!candidate.requestContext && "elb" in candidate.requestContext;
+    },
+
+    toRequest(event) {
+        // ALB forwards either single or multi-value headers and query parameters, never both,
+        // and does not URL-decode query parameters
+        const headers = event.multiValueHeaders
+            ? lowerCaseKeys(joinMultiValue(event.multiValueHeaders))
+            : lowerCaseKeys(event.headers);
+        const rawQuery = event.multiValueQueryStringParameters
+            ? joinMultiValue(event.multiValueQueryStringParameters)
+            : compactValues(event.queryStringParameters);
+
+        const query: Record<string, string> = {};
+        Object.entries(rawQuery).forEach(([key, value]) => {
+            query[decodeQueryComponent(key)] = decodeQueryComponent(value);
+        });
+
+        return {
+            source: "alb",
+            requestId: headers["x-amzn-trace-id"],
+            method: event.httpMethod.toUpperCase(),
+            path: event.path,
+            headers,
+            query,
+            pathParameters: {},
+            cookies: parseCookieHeader(headers.cookie),
+            body: event.body ?? undefined,
+            isBase64Encoded: event.isBase64Encoded,
+            identity: {
+                sourceIp: headers["x-forwarded-for"]?.split(",")[0].trim(),
+                userAgent: headers["user-agent"],
+            },
+            rawEvent: event,
+        };
+    },
+
+    toResult(response, event) {
+        const { headers, body, isBase64Encoded } = serializeResponse(response);
+        const result: ALBResult = {
+            statusCode: response.statusCode,
+            statusDescription: `${response.statusCode} ${STATUS_CODES[response.statusCode] || ""}`.trim(),
+            body,
+            isBase64Encoded,
+        };
+
+        if (event.multiValueHeaders) {
+            const multiValueHeaders: Record<string, string[]> = {};
+            Object.entries(headers).forEach(([key, value]) => {
+                multiValueHeaders[key] = [value];
+            });
+            if (response.cookies?.length) {
+                multiValueHeaders["Set-Cookie"] = response.cookies;
+            }
+            result.multiValueHeaders = multiValueHeaders;
+        } else {
+            // Without multi-value headers ALB can only return a single cookie
+            result.headers = {
+                ...headers,
+                ...(response.cookies?.length && { "Set-Cookie": response.cookies[response.cookies.length - 1] }),
+            };
+        }
+
+        return result;
+    },
+};
+
+export const httpAdapters: HttpAdapter[] = [
+    albAdapter,
+    functionUrlAdapter,
+    apiGatewayV2Adapter,
+    apiGatewayV1Adapter,
+] as HttpAdapter[];
+
+/**
+ * Picks the adapter for the front door that produced the event
+ */
+export function resolveHttpAdapter(event: unknown): HttpAdapter {
+    const adapter = httpAdapters.find(candidate => candidate.canHandle(event));
+
+    if (!adapter) {
+        throw new Error("Unsupported HTTP event: expected API Gateway, ALB or Function URL payload");
+    }
+
+    return adapter;
+}
+
+/**
+ * Serializes a response body, JSON-encoding objects and base64-encoding buffers
+ */
+export function serializeResponse(response: HttpResponse): { headers: Record<string, string>; body: string; isBase64Encoded: boolean } {
+    const headers = { ...response.headers };
+    const { body } = response;
+
+    if (body === undefined || body === null) {
+        return { headers, body: "", isBase64Encoded: false };
+    }
+
+    if (Buffer.isBuffer(body)) {
+        return { headers, body: body.toString("base64"), isBase64Encoded: true };
+    }
+
+    if (typeof body === "string") {
+        return { headers, body, isBase64Encoded: !!response.isBase64Encoded };
+    }
+
+    if (!Object.keys(headers).some(key => key.toLowerCase() === "content-type")) {
+        headers["Content-Type"] = "application/json";
+    }
+
+    return { headers, body: JSON.stringify(body), isBase64Encoded: false };
+}
+
+/**
+ * Returns the request body as text, decoding base64 payloads
+ */
+export function getRequestBodyText(request: HttpRequest): string | undefined {
+    if (request.body === undefined) return undefined;
+    return request.isBase64Encoded ? Buffer.from(request.body, "base64").toString("utf8") : request.body;
+}
+
+export function parseCookieHeader(header?: string): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    if (!header) return cookies;
+
+    header.split(";").forEach(pair => {
+        const index = pair.indexOf("=");
+        if (index < 0) return;
+
+        const name = pair.slice(0, index).trim();
+        if (name) {
+            cookies[name] = safeDecode(pair.slice(index + 1).trim());
+        }
+    });
+
+    return cookies;
+}
+
+interface V2Authorizer {
+  principalId?: string;
+  jwt?: { claims: Record<string, unknown> };
+  lambda?: Record<string, unknown>;
+  iam?: { userArn?: string } & Record<string, unknown>;
+}
+
+/**
+ * Path of an HTTP API (v2) request without the stage. `rawPath` starts with the stage on
+ * stages other than `$default`, e.g. `/prod/posts/1`.
+ */
+export function getV2RequestPath(event: APIGatewayProxyEventV2): string {
+    const path = event.rawPath || event.requestContext.http.path;
+    const { stage } = event.requestContext;
+    const prefix = `/${stage}`;
+
+    if (!stage || stage === "$default" || (path !== prefix && !path.startsWith(`${prefix}/`))) {
+        return path;
+    }
+
+    return path.slice(prefix.length) || "/";
+}
+
+// Helper functions
+function toV2Request(event: APIGatewayProxyEventV2, source: HttpEventSource): HttpRequest {
+    const headers = lowerCaseKeys(event.headers);
+    const { requestContext } = event;
+    const authorizer = (requestContext as { authorizer?: V2Authorizer }).authorizer;
+
+    return {
+        source,
+        requestId: requestContext.requestId,
+        method: requestContext.http.method.toUpperCase(),
+        path: getV2RequestPath(event),
+        headers,
+        query: compactValues(event.queryStringParameters),
+        pathParameters: compactValues(event.pathParameters),
+        cookies: event.cookies ? parseCookieHeader(event.cookies.join("; ")) : parseCookieHeader(headers.cookie),
+        body: event.body,
+        isBase64Encoded: event.isBase64Encoded,
+        identity: {
+            sourceIp: requestContext.http.sourceIp,
+            userAgent: requestContext.http.userAgent,
+            principalId: authorizer?.principalId ?? authorizer?.iam?.userArn,
+            claims: authorizer?.jwt?.claims ?? authorizer?.lambda ?? authorizer?.iam,
+        },
+        rawEvent: event,
+    };
+}
+
+function toV2Result(response: HttpResponse): APIGatewayProxyStructuredResultV2 {
+    const { headers, body, isBase64Encoded } = serializeResponse(response);
+
+    return {
+        statusCode: response.statusCode,
+        headers,
+        body,
+        isBase64Encoded,
+        cookies: response.cookies,
+    };
+}
+
+function isFunctionUrlDomain(domainName?: string): boolean {
+    return !!domainName && domainName.includes(".lambda-url.");
+}
+
+function joinMultiValue(values: Record<string, string[] | undefined>): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(values).forEach(([key, value]) => {
+        if (value && value.length > 0) {
+            result[key] = value.join(",");
+        }
+    });
+    return result;
+}
+
+function decodeQueryComponent(value: string): string {
+    return safeDecode(value.replace(/\+/g, " "));
+}
@@ -1,5 +1,21 @@
+import { CognitoJwtVerifier } from "aws-jwt-verify";
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2, Context } from "aws-lambda";
+import { CorsPolicy, applyCorsHeaders, defaultCorsPolicy, getPreflightHeaders, isPreflightRequest, lowerCaseKeys } from "../middleware/cors";
+import { ErrorMappingRegistry, defaultErrorMappings, isServerError, toProblemResponse } from "../middleware/error-handler";
+import {
+    authUserFromClaims,
+    createCognitoVerifierFromEnv,
+    extractBearerToken,
+    meetsAuthRequirement
+} from "./api-auth";
+import * as responses from "./api-responses";
 import { BaseLambda } from "./base-lambda";
+import { CookieOptions, serializeCookie, serializeExpiredCookie } from "./cookies";
+import { getV2RequestPath, parseCookieHeader } from "./http-adapters";
+import { AuthUser, RouteOptions } from "./rest-api-lambda";
+import { OpenApiDocument, OpenApiGenerationOptions, OpenApiInfo, generateOpenApiDocument } from "./openapi";
+import { RouteSchemas, SchemaOutput, compactValues, parseRouteRequest, verifyRouteResponse } from "./route-validation";
+import { HttpMethod, PathParams, Router, runRouteMiddleware } from "./router";
 
 export interface HttpApiResponse {
   statusCode: number;
@@ -8,51 +24,344 @@ export interface HttpApiResponse {
   cookies?: string[];
 }
 
+export interface HttpRouteRequest<
+  TParams = Record<string, string>,
+  TBody = unknown,
+  TQuery = Record<string, string>,
+  THeaders = Record<string, string>
+> {
+  event: APIGatewayProxyEventV2;
+  params: TParams;
+  query: TQuery;
+  headers: THeaders;
+  body: TBody;
+  user: AuthUser | null;
+}
+
+/**
+ * HTTP API route request typed from the path pattern and the route's schemas
+ */
+export type TypedHttpRouteRequest<TPath extends string, TSchemas extends RouteSchemas> = HttpRouteRequest<
+  SchemaOutput<TSchemas["params"], PathParams<TPath>>,
+  SchemaOutput<TSchemas["body"], unknown>,
+  SchemaOutput<TSchemas["query"], Record<string, string>>,
+  SchemaOutput<TSchemas["headers"], Record<string, string>>
+>;
+
+export type HttpRouteHandler<TParams = Record<string, string>, TBody = unknown, TQuery = Record<string, string>, THeaders = Record<string, string>> =
+  (request: HttpRouteRequest<TParams, TBody, TQuery, THeaders>) => Promise<HttpApiResponse>;
+
+export type HttpRouteMiddleware = (request: HttpRouteRequest, next: () => Promise<HttpApiResponse>) => Promise<HttpApiResponse>;
+
+export interface HttpRouteOptions extends Omit<RouteOptions, "middleware"> {
+  middleware?: HttpRouteMiddleware[];
+}
+
+export interface HttpApiRoute extends HttpRouteOptions {
+  method: HttpMethod;
+  path: string;
+  handler: HttpRouteHandler;
+}
+
+interface JwtAuthorizerContext {
+  jwt?: {
+    claims: Record<string, unknown>;
+    scopes?: string[];
+  };
+}
+
 export abstract class HttpApiLambda extends BaseLambda<APIGatewayProxyEventV2, APIGatewayProxyResultV2> {
-  protected abstract processHttpApi(event: APIGatewayProxyEventV2): Promise<HttpApiResponse>;
-
-  protected async process(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
-      const response = await this.processHttpApi(event);
-
-      return {
-          statusCode: response.statusCode,
-          body: JSON.stringify(response.body),
-          headers: {
-              "Content-Type": "application/json",
-              ...response.headers
-          },
-          cookies: response.cookies
-      };
-  }
-
-  protected async handleError(error: Error | unknown): Promise<APIGatewayProxyResultV2> {
-      console.error("Error in HTTP API Lambda:", error);
-
-      return {
-          statusCode: 500,
-          body: JSON.stringify({
-              message: "Internal Server Error"
-          }),
-          headers: {
-              "Content-Type": "application/json"
-          }
-      };
-  }
-
-  protected getPathParameter(event: APIGatewayProxyEventV2, name: string): string | undefined {
-      return event.pathParameters?.[name];
-  }
-
-  protected getQueryParameter(event: APIGatewayProxyEventV2, name: string): string | undefined {
-      return event.queryStringParameters?.[name];
-  }
-
-  protected getBody<T>(event: APIGatewayProxyEventV2): T | undefined {
-      if (!event.body) return undefined;
-      try {
-          return JSON.parse(event.body) as T;
-      } catch (error) {
-          return undefined;
-      }
-  }
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    protected jwtVerifier?: CognitoJwtVerifier<any, any, any>;
+    protected router = new Router<HttpApiRoute>();
+    protected errorMappings = new ErrorMappingRegistry(defaultErrorMappings);
+    /** CORS headers added to every response, and preflight handling; `false` leaves CORS to the HTTP API */
+    protected cors: CorsPolicy | false = defaultCorsPolicy;
+
+    constructor() {
+        super();
+
+        // Used only when the route has no JWT authorizer attached
+        this.jwtVerifier = createCognitoVerifierFromEnv();
+    }
+
+    /**
+     * Answers CORS preflight requests before any middleware or authentication runs, and adds
+     * the CORS headers to every other response, including errors
+     */
+    public async handler(event: APIGatewayProxyEventV2, context: Context): Promise<APIGatewayProxyResultV2> {
+        if (!this.cors) {
+            return await super.handler(event, context);
+        }
+
+        const requestHeaders = lowerCaseKeys(event.headers);
+
+        if (isPreflightRequest(event.requestContext?.http?.method, requestHeaders)) {
+            return { statusCode: 204, headers: getPreflightHeaders(this.cors, requestHeaders), body: "" };
+        }
+
+        const result = await super.handler(event, context);
+
+        // A string result is sent as a 200 JSON body and cannot carry headers
+        if (typeof result !== "object") {
+            return result;
+        }
+
+        return { ...result, headers: applyCorsHeaders(result.headers, this.cors, requestHeaders) };
+    }
+
+    /**
+     * Dispatches the request to the registered routes. Override to handle requests manually.
+     */
+    protected async processHttpApi(event: APIGatewayProxyEventV2): Promise<HttpApiResponse> {
+        return await this.dispatchRoute(event);
+    }
+
+    protected async process(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+        const response = await this.processHttpApi(event);
+
+        return {
+            statusCode: response.statusCode,
+            body: JSON.stringify(response.body),
+            headers: {
+                "Content-Type": "application/json",
+                ...response.headers
+            },
+            cookies: response.cookies
+        };
+    }
+
+    /**
+     * Maps `HttpError`s and registered domain errors to an `application/problem+json` response
+     */
+    protected async handleError(error: Error | unknown): Promise<APIGatewayProxyResultV2> {
+        const httpError = this.errorMappings.toHttpError(error);
+
+        if (isServerError(httpError)) {
+            this.logger.error("Error in HTTP API Lambda:", error);
+        } else {
+            this.logger.warn("Request failed in HTTP API Lambda:", { code: httpError.code, message: httpError.message });
+        }
+
+        return toProblemResponse(httpError, { requestId: this.context.awsRequestId });
+    }
+
+    /**
+     * Registers a handler for a `GET /posts/{postId}` style route
+     */
+    protected route<TPath extends string, TSchemas extends RouteSchemas = Record<never, never>>(
+        method: HttpMethod,
+        path: TPath,
+        handler: (request: TypedHttpRouteRequest<TPath, TSchemas>) => Promise<HttpApiResponse>,
+        options: HttpRouteOptions & { schemas?: TSchemas } = {}
+    ): this {
+        this.router.add({
+            ...options,
+            method,
+            path,
+            handler: handler as HttpRouteHandler,
+        });
+        return this;
+    }
+
+    public getRoutes(): HttpApiRoute[] {
+        return this.router.getRoutes();
+    }
+
+    /**
+     * Generates an OpenAPI 3.1 document from the registered routes
+     */
+    public getOpenApiDocument(info: OpenApiInfo, options?: OpenApiGenerationOptions): OpenApiDocument {
+        return generateOpenApiDocument(this.getRoutes(), info, options);
+    }
+
+    /**
+     * Serves the generated OpenAPI document, e.g. on `GET /openapi.json`
+     */
+    protected exposeOpenApiDocument(info: OpenApiInfo, path: string = "/openapi.json", options?: OpenApiGenerationOptions): this {
+        let document: OpenApiDocument | undefined;
+
+        this.router.add({
+            method: "GET",
+            path,
+            openapi: { hidden: true },
+            handler: async () => {
+                document = document || this.getOpenApiDocument(info, options);
+                return { statusCode: 200, body: document };
+            },
+        });
+        return this;
+    }
+
+    protected async dispatchRoute(event: APIGatewayProxyEventV2): Promise<HttpApiResponse> {
+        const resolution = this.router.resolve(event.requestContext.http.method, getV2RequestPath(event));
+
+        if (resolution.type === "notFound") {
+            return this.notFoundResponse();
+        }
+
+        if (resolution.type === "methodNotAllowed") {
+            return this.methodNotAllowedResponse(resolution.allow);
+        }
+
+        const { route, params } = resolution;
+        let user: AuthUser | null = null;
+
+        if (route.auth) {
+            user = await this.getAuthenticatedUser(event);
+
+            if (!user && route.auth !== "optional") {
+                return this.unauthorizedResponse();
+            }
+
+            if (user && typeof route.auth === "object" && !meetsAuthRequirement(user, route.auth)) {
+                return this.forbiddenResponse();
+            }
+        }
+
+        const parsed = parseRouteRequest(route.schemas, {
+            params,
+            query: compactValues(event.queryStringParameters),
+            headers: lowerCaseKeys(event.headers),
+            body: event.body,
+            isBase64Encoded: event.isBase64Encoded,
+        });
+
+        const request = { event, user, ...parsed } as HttpRouteRequest;
+        const response = await runRouteMiddleware(route.middleware || [], request, route.handler);
+
+        verifyRouteResponse(route, response, this.logger);
+
+        return response;
+    }
+
+    // Authentication methods
+    /**
+     * Returns the user from the claims of an HTTP API JWT authorizer, or verifies the
+     * Bearer token with the configured Cognito User Pool when no authorizer is attached
+     */
+    protected async getAuthenticatedUser(event: APIGatewayProxyEventV2): Promise<AuthUser | null> {
+        const claims = this.getJwtClaims(event);
+        if (claims?.sub) {
+            return authUserFromClaims(claims);
+        }
+
+        try {
+            const token = extractBearerToken(event.headers);
+            if (!token || !this.jwtVerifier) {
+                return null;
+            }
+
+            const payload = await this.jwtVerifier.verify(token);
+
+            return authUserFromClaims(payload);
+        } catch (error) {
+            this.logger.warn("Token verification failed", { error });
+            return null;
+        }
+    }
+
+    protected getJwtClaims(event: APIGatewayProxyEventV2): Record<string, unknown> | undefined {
+        const authorizer = (event.requestContext as { authorizer?: JwtAuthorizerContext }).authorizer;
+        return authorizer?.jwt?.claims;
+    }
+
+    protected getJwtScopes(event: APIGatewayProxyEventV2): string[] {
+        const authorizer = (event.requestContext as { authorizer?: JwtAuthorizerContext }).authorizer;
+        return authorizer?.jwt?.scopes || [];
+    }
+
+    // Cookie methods
+    protected getCookie(event: APIGatewayProxyEventV2, name: string): string | undefined {
+        const cookies = parseCookieHeader((event.cookies || []).join("; "));
+        return cookies[name];
+    }
+
+    protected setCookie(response: HttpApiResponse, name: string, value: string, options?: CookieOptions): HttpApiResponse {
+        return {
+            ...response,
+            cookies: [...(response.cookies || []), serializeCookie(name, value, options)]
+        };
+    }
+
+    protected clearCookie(response: HttpApiResponse, name: string, options?: Omit<CookieOptions, "expires" | "maxAge">): HttpApiResponse {
+        return {
+            ...response,
+            cookies: [...(response.cookies || []), serializeExpiredCookie(name, options)]
+        };
+    }
+
+    // Helper methods for common responses
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    protected successResponse(data: any, message?: string): HttpApiResponse {
+        return responses.successResponse(data, message);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    protected createdResponse(data: any, message?: string): HttpApiResponse {
+        return responses.createdResponse(data, message);
+    }
+
+    protected badRequestResponse(message: string): HttpApiResponse {
+        return responses.badRequestResponse(message);
+    }
+
+    protected unauthorizedResponse(message: string = "Unauthorized"): HttpApiResponse {
+        return responses.unauthorizedResponse(message);
+    }
+
+    protected forbiddenResponse(message: string = "Forbidden"): HttpApiResponse {
+        return responses.forbiddenResponse(message);
+    }
+
+    protected notFoundResponse(message: string = "Not found"): HttpApiResponse {
+        return responses.notFoundResponse(message);
+    }
+
+    protected methodNotAllowedResponse(allowedMethods?: string[]): HttpApiResponse {
+        return responses.methodNotAllowedResponse(allowedMethods);
+    }
+
+    protected conflictResponse(message: string): HttpApiResponse {
+        return responses.conflictResponse(message);
+    }
+
+    protected internalServerErrorResponse(message: string = "Internal server error"): HttpApiResponse {
+        return responses.internalServerErrorResponse(message);
+    }
+
+    // Utility methods
+    protected getPathParameter(event: APIGatewayProxyEventV2, name: string): string | undefined {
+        return event.pathParameters?.[name];
+    }
+
+    protected getQueryParameter(event: APIGatewayProxyEventV2, name: string): string | undefined {
+        return event.queryStringParameters?.[name];
+    }
+
+    protected parseJsonBody<T>(event: APIGatewayProxyEventV2): T | null {
+        if (!event.body) return null;
+        try {
+            return JSON.parse(getBodyText(event)) as T;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    protected getBody<T>(event: APIGatewayProxyEventV2): T | undefined {
+        if (!event.body) return undefined;
+        try {
+            return JSON.parse(getBodyText(event)) as T;
+        } catch (error) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * HTTP APIs base64-encode request bodies that are not text
+ */
+function getBodyText(event: APIGatewayProxyEventV2): string {
+    const body = event.body || "";
+    return event.isBase64Encoded ? Buffer.from(body, "base64").toString("utf8") : body;
 }
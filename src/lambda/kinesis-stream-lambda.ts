@@ -0,0 +1,79 @@
+import { KinesisStreamEvent, KinesisStreamRecord } from "aws-lambda";
+import { BaseLambda } from "./base-lambda";
+import { BatchProcessor, BatchProcessorOptions, BatchResponse, getItemIdentifier } from "./batch-processor";
+
+/**
+ * A Kinesis record with its payload decoded
+ */
+export interface KinesisRecordData<TData = unknown> {
+  data: TData;
+  partitionKey: string;
+  sequenceNumber: string;
+  shardId?: string;
+  /** Epoch seconds at which the record was added to the stream */
+  approximateArrivalTimestamp: number;
+  record: KinesisStreamRecord;
+}
+
+export type KinesisDecoder<TData = unknown> = (payload: Buffer, record: KinesisStreamRecord) => TData;
+
+export const jsonDecoder: KinesisDecoder = payload => JSON.parse(payload.toString("utf8"));
+
+export const textDecoder: KinesisDecoder<string> = payload => payload.toString("utf8");
+
+export const rawDecoder: KinesisDecoder<Buffer> = payload => payload;
+
+export abstract class KinesisStreamLambda<TData = unknown> extends BaseLambda<KinesisStreamEvent, BatchResponse | void> {
+    /** Decodes the base64 payload of each record, JSON by default */
+    protected decoder: KinesisDecoder<TData> = jsonDecoder as KinesisDecoder<TData>;
+    protected batchOptions: BatchProcessorOptions = {};
+
+    /**
+     * Processes a single decoded record. Throwing reports the record in `batchItemFailures`,
+     * so the shard checkpoints before it and retries it.
+     */
+    protected abstract processRecord(record: KinesisRecordData<TData>): Promise<void>;
+
+    /**
+     * Decodes and processes the records in order per partition key, reporting failed records
+     * through `batchItemFailures`. Override to handle the batch manually.
+     */
+    protected async processKinesisStream(event: KinesisStreamEvent): Promise<BatchResponse | void> {
+        const result = await new BatchProcessor<KinesisStreamRecord>({ signal: this.signal, ...this.batchOptions }).process(
+            event.Records,
+            record => this.processRecord(this.decodeRecord(record))
+        );
+
+        result.failures.filter(failure => failure.error !== undefined).forEach(failure => {
+            this.logger.error("Failed to process Kinesis record", {
+                partitionKey: failure.record.kinesis.partitionKey,
+                sequenceNumber: getItemIdentifier(failure.record),
+                error: failure.error,
+            });
+        });
+
+        return { batchItemFailures: result.batchItemFailures };
+    }
+
+    protected async process(event: KinesisStreamEvent): Promise<BatchResponse | void> {
+        return await this.processKinesisStream(event);
+    }
+
+    protected async handleError(error: Error | unknown): Promise<void> {
+        this.logger.error("Error in Kinesis Stream Lambda:", error);
+        throw error;
+    }
+
+    protected decodeRecord(record: KinesisStreamRecord): KinesisRecordData<TData> {
+        const { kinesis } = record;
+
+        return {
+            data: this.decoder(Buffer.from(kinesis.data, "base64"), record),
+            partitionKey: kinesis.partitionKey,
+            sequenceNumber: kinesis.sequenceNumber,
+            shardId: record.eventID?.split(":")[0],
+            approximateArrivalTimestamp: kinesis.approximateArrivalTimestamp,
+            record,
+        };
+    }
+}
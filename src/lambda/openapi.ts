@@ -0,0 +1,284 @@
+import * as fs from "fs";
+import * as path from "path";
+import { JsonSchema, ObjectSchema, AnySchema } from "../middleware/schema";
+import { RouteAuthRequirement } from "./rest-api-lambda";
+import { RouteSchemas } from "./route-validation";
+import { HttpMethod } from "./router";
+
+export const OPENAPI_VERSION = "3.1.0";
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/**
+ * Documentation-only route options
+ */
+export interface OpenApiOperationOptions {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  /** Status code of the success response, e.g. 201 for routes returning `createdResponse` */
+  successStatus?: number;
+  /** Leave the route out of the document */
+  hidden?: boolean;
+}
+
+/**
+ * The parts of a `RestApiRoute` or `HttpApiRoute` the document is generated from
+ */
+export interface OpenApiRoute {
+  method: HttpMethod;
+  path: string;
+  auth?: boolean | "optional" | RouteAuthRequirement;
+  schemas?: RouteSchemas;
+  openapi?: OpenApiOperationOptions;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: JsonSchema;
+  description?: string;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, { schema: JsonSchema }>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<string, OpenApiResponse>;
+  security?: Record<string, string[]>[];
+  "x-permissions"?: string[];
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: OpenApiInfo;
+  servers?: { url: string }[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes?: Record<string, JsonSchema>;
+  };
+}
+
+export interface OpenApiGenerationOptions {
+  servers?: string[];
+}
+
+const BEARER_AUTH = "bearerAuth";
+const DEFAULT_SUCCESS_STATUS = 200;
+const JSON_INDENT = 2;
+
+const problemDetailsSchema: JsonSchema = {
+    type: "object",
+    required: ["type", "title", "status", "detail", "code"],
+    properties: {
+        type: { type: "string" },
+        title: { type: "string" },
+        status: { type: "integer" },
+        detail: { type: "string" },
+        code: { type: "string" },
+        requestId: { type: "string" },
+        instance: { type: "string" },
+        errors: {
+            type: "array",
+            items: {
+                type: "object",
+                required: ["field", "message"],
+                properties: {
+                    field: { type: "string" },
+                    message: { type: "string" },
+                    code: { type: "string" },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Builds an OpenAPI 3.1 document from route declarations. Request parts come from the
+ * route's `schemas`, security from its `auth` option, and the success response from
+ * `schemas.response` wrapped in the `successResponse` envelope.
+ */
+export function generateOpenApiDocument(
+    routes: OpenApiRoute[],
+    info: OpenApiInfo,
+    options: OpenApiGenerationOptions = {}
+): OpenApiDocument {
+    const document: OpenApiDocument = {
+        openapi: OPENAPI_VERSION,
+        info,
+        ...(options.servers && { servers: options.servers.map(url => ({ url })) }),
+        paths: {},
+        components: {
+            schemas: { ProblemDetails: problemDetailsSchema },
+        },
+    };
+
+    routes.filter(route => !route.openapi?.hidden).forEach(route => {
+        const operations = document.paths[route.path] || (document.paths[route.path] = {});
+        operations[route.method.toLowerCase()] = toOperation(route);
+    });
+
+    if (routes.some(route => route.auth && !route.openapi?.hidden)) {
+        document.components.securitySchemes = {
+            [BEARER_AUTH]: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        };
+    }
+
+    return document;
+}
+
+/**
+ * Writes the document as a build-time artifact, creating the directory if needed
+ */
+export function writeOpenApiDocument(document: OpenApiDocument, filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(document, null, JSON_INDENT)}\n`);
+}
+
+/**
+ * Returns a stable operation ID such as `getPostsByPostId` for `GET /posts/{postId}`
+ */
+export function defaultOperationId(method: string, routePath: string): string {
+    const words = routePath.split("/").filter(Boolean).map(segment => {
+        const param = segment.match(/^\{([^}+]+)\+?\}$/);
+        return param ? `By${capitalize(param[1])}` : capitalize(segment.replace(/[^A-Za-z0-9]+(.)?/g, (_, next: string) => (next || "").toUpperCase()));
+    });
+
+    return `${method.toLowerCase()}${words.join("")}`;
+}
+
+// Helper functions
+function toOperation(route: OpenApiRoute): OpenApiOperation {
+    const { schemas = {}, openapi = {} } = route;
+    const parameters = [
+        ...pathParameters(route.path, schemas.params),
+        ...objectParameters(schemas.query, "query"),
+        ...objectParameters(schemas.headers, "header"),
+    ];
+
+    const operation: OpenApiOperation = {
+        operationId: openapi.operationId || defaultOperationId(route.method, route.path),
+        ...(openapi.summary && { summary: openapi.summary }),
+        ...(openapi.description && { description: openapi.description }),
+        ...(openapi.tags && { tags: openapi.tags }),
+        ...(openapi.deprecated && { deprecated: true }),
+        ...(parameters.length > 0 && { parameters }),
+        responses: toResponses(route),
+    };
+
+    if (schemas.body) {
+        operation.requestBody = {
+            required: schemas.body.isRequired(),
+            content: { "application/json": { schema: schemas.body.toJsonSchema() } },
+        };
+    }
+
+    if (route.auth) {
+        const roles = typeof route.auth === "object" ? route.auth.roles || [] : [];
+        operation.security = route.auth === "optional" ? [{}, { [BEARER_AUTH]: [] }] : [{ [BEARER_AUTH]: roles }];
+
+        if (typeof route.auth === "object" && route.auth.permissions?.length) {
+            operation["x-permissions"] = route.auth.permissions;
+        }
+    }
+
+    return operation;
+}
+
+function toResponses(route: OpenApiRoute): Record<string, OpenApiResponse> {
+    const { schemas = {}, openapi = {} } = route;
+    const responses: Record<string, OpenApiResponse> = {
+        [String(openapi.successStatus || DEFAULT_SUCCESS_STATUS)]: {
+            description: "Successful response",
+            content: {
+                "application/json": {
+                    schema: {
+                        type: "object",
+                        required: ["success", "data"],
+                        properties: {
+                            success: { type: "boolean" },
+                            data: schemas.response ? schemas.response.toJsonSchema() : {},
+                            message: { type: "string" },
+                        },
+                    },
+                },
+            },
+        },
+    };
+
+    if (schemas.params || schemas.query || schemas.headers || schemas.body) {
+        responses["400"] = problemResponse("Invalid request");
+    }
+
+    if (route.auth && route.auth !== "optional") {
+        responses["401"] = problemResponse("Missing or invalid credentials");
+    }
+
+    if (typeof route.auth === "object") {
+        responses["403"] = problemResponse("Insufficient roles or permissions");
+    }
+
+    responses.default = problemResponse("Error response");
+
+    return responses;
+}
+
+function problemResponse(description: string): OpenApiResponse {
+    return {
+        description,
+        content: { "application/problem+json": { schema: { $ref: "#/components/schemas/ProblemDetails" } } },
+    };
+}
+
+function pathParameters(routePath: string, paramsSchema?: AnySchema): OpenApiParameter[] {
+    const shape = paramsSchema instanceof ObjectSchema ? paramsSchema.shape as Record<string, AnySchema> : {};
+
+    return (routePath.match(/\{[^}]+\}/g) || []).map(segment => {
+        const name = segment.slice(1, -1).replace(/\+$/, "");
+        return {
+            name,
+            in: "path",
+            required: true,
+            schema: shape[name] ? shape[name].toJsonSchema() : { type: "string" },
+        };
+    });
+}
+
+function objectParameters(objectSchema: AnySchema | undefined, location: "query" | "header"): OpenApiParameter[] {
+    if (!(objectSchema instanceof ObjectSchema)) return [];
+
+    return Object.entries(objectSchema.shape as Record<string, AnySchema>).map(([name, schema]) => {
+        const jsonSchema = schema.toJsonSchema();
+        return {
+            name,
+            in: location,
+            required: schema.isRequired(),
+            schema: jsonSchema,
+            ...(typeof jsonSchema.description === "string" && { description: jsonSchema.description }),
+        };
+    });
+}
+
+function capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,269 @@
+import { Readable } from "stream";
+import { promisify } from "util";
+import { brotliCompress, constants as zlibConstants, gzip } from "zlib";
+
+export type ResponseBody = object | string | Buffer | Readable;
+
+/**
+ * Serializes object bodies for one media type
+ */
+export interface ContentFormat {
+  mediaType: string;
+  /** Full `Content-Type` header, defaults to `mediaType` */
+  contentType?: string;
+  serialize(body: unknown): string;
+}
+
+export type ContentEncoding = "br" | "gzip";
+
+export interface ResponseEncodingOptions {
+  /** Formats offered for object bodies through `Accept`; the first one is the default */
+  formats?: ContentFormat[];
+  /**
+   * Minimum body size in bytes for compression (default: `false`, no compression). Compressed
+   * bodies are base64-encoded, so the API must pass them through as binary.
+   */
+  compressionThreshold?: number | false;
+  /** Encodings offered through `Accept-Encoding`, in order of preference */
+  encodings?: ContentEncoding[];
+}
+
+export interface EncodedResponse {
+  headers: Record<string, string>;
+  body: string;
+  isBase64Encoded: boolean;
+}
+
+/** Brotli's default quality of 11 is too slow for responses */
+const BROTLI_QUALITY = 5;
+
+const gzipAsync = promisify(gzip);
+const brotliCompressAsync = promisify(brotliCompress);
+
+const COMPRESSIBLE_TYPES = [
+    /^text\//,
+    /^application\/(json|x-ndjson|xml|javascript|problem\+json)$/,
+    /\+(json|xml)$/,
+    /^image\/svg\+xml$/,
+];
+
+export const jsonFormat: ContentFormat = {
+    mediaType: "application/json",
+    serialize: body => JSON.stringify(body),
+};
+
+export const csvFormat: ContentFormat = {
+    mediaType: "text/csv",
+    contentType: "text/csv; charset=utf-8",
+    serialize: body => toCsv(toRows(body)),
+};
+
+export const ndjsonFormat: ContentFormat = {
+    mediaType: "application/x-ndjson",
+    serialize: body => toRows(body).map(row => `${JSON.stringify(row)}\n`).join(""),
+};
+
+export const defaultContentFormats: ContentFormat[] = [jsonFormat, csvFormat, ndjsonFormat];
+
+/**
+ * Turns a response into an API Gateway or ALB result body. Object bodies are serialized in
+ * the format negotiated from `Accept`, strings are sent as they are, buffers and streams
+ * base64-encoded. With a `compressionThreshold`, larger bodies are compressed for clients that accept it.
+ */
+export async function encodeResponse(
+    response: { body?: ResponseBody | null; headers?: Record<string, string>; isBase64Encoded?: boolean },
+    requestHeaders: Record<string, string>,
+    options: ResponseEncodingOptions = {}
+): Promise<EncodedResponse> {
+    const headers = { ...response.headers };
+    const { body } = response;
+    let payload: string | Buffer;
+    let isBase64Encoded = false;
+
+    if (body === undefined || body === null) {
+        return { headers, body: "", isBase64Encoded: false };
+    }
+
+    if (Buffer.isBuffer(body) || body instanceof Readable) {
+        payload = Buffer.isBuffer(body) ? body : await readStream(body);
+        setDefaultHeader(headers, "Content-Type", "application/octet-stream");
+    } else if (typeof body === "string") {
+        payload = body;
+        isBase64Encoded = !!response.isBase64Encoded;
+        setDefaultHeader(headers, "Content-Type", "text/plain; charset=utf-8");
+    } else {
+        const formats = options.formats || defaultContentFormats;
+        const contentType = getHeader(headers, "Content-Type");
+
+        if (contentType) {
+            // The handler chose the type, e.g. `application/vnd.api+json`
+            payload = (findFormat(formats, contentType) || jsonFormat).serialize(body);
+        } else {
+            // Clients accepting none of the formats get the default one rather than a 406
+            const format = negotiateFormat(formats, requestHeaders.accept) || formats[0];
+            payload = format.serialize(body);
+            headers["Content-Type"] = format.contentType || format.mediaType;
+            appendVary(headers, "Accept");
+        }
+    }
+
+    const encoding = shouldCompress(headers, payload, options)
+        ? negotiateEncoding(requestHeaders["accept-encoding"], options.encodings)
+        : null;
+
+    if (encoding) {
+        const raw = isBase64Encoded ? Buffer.from(payload as string, "base64") : payload;
+        headers["Content-Encoding"] = encoding;
+        appendVary(headers, "Accept-Encoding");
+        return { headers, body: (await compress(raw, encoding)).toString("base64"), isBase64Encoded: true };
+    }
+
+    if (Buffer.isBuffer(payload)) {
+        return { headers, body: payload.toString("base64"), isBase64Encoded: true };
+    }
+
+    return { headers, body: payload, isBase64Encoded };
+}
+
+/**
+ * Picks the format with the highest quality in an `Accept` header, `null` when none is acceptable
+ */
+export function negotiateFormat(formats: ContentFormat[], accept?: string): ContentFormat | null {
+    if (!accept) {
+        return formats[0] || null;
+    }
+
+    let best: { format: ContentFormat; quality: number } | null = null;
+
+    for (const { value, quality } of parseQualityList(accept)) {
+        if (quality === 0) continue;
+
+        const format = value === "*/*" ? formats[0] : formats.find(candidate => mediaTypeMatches(value, candidate.mediaType));
+        if (format && (!best || quality > best.quality)) {
+            best = { format, quality };
+        }
+    }
+
+    return best?.format || null;
+}
+
+/**
+ * Picks the preferred encoding accepted by an `Accept-Encoding` header, `null` for identity
+ */
+export function negotiateEncoding(acceptEncoding?: string, encodings: ContentEncoding[] = ["br", "gzip"]): ContentEncoding | null {
+    if (!acceptEncoding) {
+        return null;
+    }
+
+    const accepted = parseQualityList(acceptEncoding);
+    const wildcard = accepted.find(entry => entry.value === "*");
+    let best: { encoding: ContentEncoding; quality: number } | null = null;
+
+    for (const encoding of encodings) {
+        const quality = accepted.find(entry => entry.value === encoding)?.quality ?? wildcard?.quality ?? 0;
+        if (quality > 0 && (!best || quality > best.quality)) {
+            best = { encoding, quality };
+        }
+    }
+
+    return best?.encoding || null;
+}
+
+/**
+ * Serializes rows as CSV with a header line of all their keys. Nested values are JSON-encoded.
+ */
+export function toCsv(rows: unknown[]): string {
+    const records = rows.map(row => (typeof row === "object" && row !== null ? row : { value: row }) as Record<string, unknown>);
+    const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+
+    const lines = [columns, ...records.map(record => columns.map(column => record[column]))]
+        .map(values => values.map(csvValue).join(","));
+
+    return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Rows of a list body: the body itself when it is an array, or the `data` of the success envelope
+ */
+function toRows(body: unknown): unknown[] {
+    const data = typeof body === "object" && body !== null && "success" in body && "data" in body
+        ? (body as { data: unknown }).data
+        : body;
+
+    return Array.isArray(data) ? data : [data];
+}
+
+function csvValue(value: unknown): string {
+    if (value === undefined || value === null) return "";
+
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function parseQualityList(header: string): Array<{ value: string; quality: number }> {
+    return header.split(",").map(part => {
+        const [value, ...params] = part.trim().split(";").map(item => item.trim());
+        const q = params.find(param => param.startsWith("q="));
+        const quality = q ? Number(q.slice("q=".length)) : 1;
+
+        return { value: value.toLowerCase(), quality: Number.isNaN(quality) ? 0 : quality };
+    }).filter(entry => entry.value);
+}
+
+function mediaTypeMatches(range: string, mediaType: string): boolean {
+    const [rangeType, rangeSubtype] = range.split("/");
+    const [type, subtype] = mediaType.split("/");
+
+    return rangeType === type && (rangeSubtype === "*" || rangeSubtype === subtype);
+}
+
+function findFormat(formats: ContentFormat[], contentType?: string): ContentFormat | undefined {
+    const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+    return mediaType ? formats.find(format => format.mediaType === mediaType) : undefined;
+}
+
+function shouldCompress(headers: Record<string, string>, payload: string | Buffer, options: ResponseEncodingOptions): boolean {
+    const threshold = options.compressionThreshold ?? false;
+    if (threshold === false || getHeader(headers, "Content-Encoding")) {
+        return false;
+    }
+
+    const mediaType = getHeader(headers, "Content-Type")?.split(";")[0].trim().toLowerCase() || "";
+    const size = Buffer.isBuffer(payload) ? payload.length : Buffer.byteLength(payload);
+
+    return size >= threshold && COMPRESSIBLE_TYPES.some(pattern => pattern.test(mediaType));
+}
+
+async function compress(payload: string | Buffer, encoding: ContentEncoding): Promise<Buffer> {
+    return encoding === "br"
+        ? await brotliCompressAsync(payload, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY } })
+        : await gzipAsync(payload);
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+}
+
+function setDefaultHeader(headers: Record<string, string>, name: string, value: string): void {
+    if (getHeader(headers, name) === undefined) {
+        headers[name] = value;
+    }
+}
+
+function appendVary(headers: Record<string, string>, value: string): void {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === "vary") || "Vary";
+    const current = headers[key] ? headers[key].split(",").map(item => item.trim()) : [];
+
+    if (!current.includes(value)) {
+        headers[key] = [...current, value].join(", ");
+    }
+}
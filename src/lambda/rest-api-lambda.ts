@@ -1,11 +1,31 @@
 import { CognitoJwtVerifier } from "aws-jwt-verify";
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from "aws-lambda";
+import { CorsPolicy, applyCorsHeaders, defaultCorsPolicy, getPreflightHeaders, isPreflightRequest, lowerCaseKeys } from "../middleware/cors";
+import { PageOptions, PaginatedResult } from "../middleware/dynamodb";
+import {
+    ErrorMappingRegistry,
+    PreconditionFailedError,
+    VersionConflictError,
+    defaultErrorMappings,
+    isServerError,
+    toProblemResponse,
+} from "../middleware/error-handler";
+import { authUserFromAuthorizer, authUserFromClaims, createCognitoVerifierFromEnv, extractBearerToken, meetsAuthRequirement } from "./api-auth";
+import * as responses from "./api-responses";
 import { BaseLambda } from "./base-lambda";
+import { OpenApiDocument, OpenApiGenerationOptions, OpenApiInfo, OpenApiOperationOptions, generateOpenApiDocument } from "./openapi";
+import { ResponseBody, ResponseEncodingOptions, encodeResponse } from "./response-encoding";
+import { RouteSchemas, SchemaOutput, compactValues, parseRouteRequest, verifyRouteResponse } from "./route-validation";
+import { HttpMethod, PathParams, Router, runRouteMiddleware } from "./router";
+import "../types/context";
 
 export interface ApiResponse {
   statusCode: number;
-  body: object;
+  /** Objects are serialized as negotiated from `Accept`, strings sent as is, buffers and streams as binary */
+  body: ResponseBody;
   headers?: Record<string, string>;
+  /** Marks a string body as base64-encoded binary */
+  isBase64Encoded?: boolean;
 }
 
 export interface AuthUser {
@@ -16,207 +36,374 @@ export interface AuthUser {
   permissions: string[];
 }
 
+export interface RouteAuthRequirement {
+  roles?: string[];
+  permissions?: string[];
+}
+
+export interface RouteRequest<
+  TParams = Record<string, string>,
+  TBody = unknown,
+  TQuery = Record<string, string>,
+  THeaders = Record<string, string>
+> {
+  event: APIGatewayProxyEvent;
+  params: TParams;
+  query: TQuery;
+  headers: THeaders;
+  body: TBody;
+  user: AuthUser | null;
+}
+
+/**
+ * Route request typed from the path pattern and the route's schemas
+ */
+export type TypedRouteRequest<TPath extends string, TSchemas extends RouteSchemas> = RouteRequest<
+  SchemaOutput<TSchemas["params"], PathParams<TPath>>,
+  SchemaOutput<TSchemas["body"], unknown>,
+  SchemaOutput<TSchemas["query"], Record<string, string>>,
+  SchemaOutput<TSchemas["headers"], Record<string, string>>
+>;
+
+export type RouteHandler<TParams = Record<string, string>, TBody = unknown, TQuery = Record<string, string>, THeaders = Record<string, string>> =
+  (request: RouteRequest<TParams, TBody, TQuery, THeaders>) => Promise<ApiResponse>;
+
+export type RouteMiddleware = (request: RouteRequest, next: () => Promise<ApiResponse>) => Promise<ApiResponse>;
+
+export interface RouteOptions {
+  /**
+   * `true` requires a verified user, `"optional"` resolves the user when a token is present,
+   * an object additionally requires one of the roles and all of the permissions
+   */
+  auth?: boolean | "optional" | RouteAuthRequirement;
+  middleware?: RouteMiddleware[];
+  schemas?: RouteSchemas;
+  /** Fail with a 500 instead of logging when a successful response does not match `schemas.response` */
+  enforceResponseSchema?: boolean;
+  openapi?: OpenApiOperationOptions;
+}
+
+export interface RestApiRoute extends RouteOptions {
+  method: HttpMethod;
+  path: string;
+  handler: RouteHandler;
+}
+
 export abstract class RestApiLambda extends BaseLambda<APIGatewayProxyEvent, APIGatewayProxyResult> {
     protected jwtVerifier?: CognitoJwtVerifier<any, any, any>;
+    protected router = new Router<RestApiRoute>();
+    protected errorMappings = new ErrorMappingRegistry(defaultErrorMappings);
+    /** Content formats offered for object bodies and compression of large responses */
+    protected responseEncoding: ResponseEncodingOptions = {};
+    /** CORS headers added to every response, and preflight handling; `false` leaves CORS to API Gateway */
+    protected cors: CorsPolicy | false = defaultCorsPolicy;
 
     constructor() {
         super();
 
         // Initialize JWT verifier if User Pool is configured
-        if (process.env.USER_POOL_ID && process.env.USER_POOL_CLIENT_ID) {
-            this.jwtVerifier = CognitoJwtVerifier.create({
-                userPoolId: process.env.USER_POOL_ID,
-                tokenUse: "access",
-                clientId: process.env.USER_POOL_CLIENT_ID,
-            });
+        this.jwtVerifier = createCognitoVerifierFromEnv();
+    }
+
+    /**
+     * Answers CORS preflight requests before any middleware or authentication runs, and adds
+     * the CORS headers to every other response, including errors
+     */
+    public async handler(event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> {
+        if (!this.cors) {
+            return await super.handler(event, context);
+        }
+
+        const requestHeaders = lowerCaseKeys(event.headers);
+
+        if (isPreflightRequest(event.httpMethod, requestHeaders)) {
+            return { statusCode: 204, headers: getPreflightHeaders(this.cors, requestHeaders), body: "" };
+        }
+
+        const result = await super.handler(event, context);
+
+        return { ...result, headers: applyCorsHeaders(result.headers, this.cors, requestHeaders) };
+    }
+
+    /**
+   * Dispatches the request to the registered routes. Override to handle requests manually.
+   */
+    protected async processApi(event: APIGatewayProxyEvent): Promise<ApiResponse> {
+        return await this.dispatchRoute(event);
+    }
+
+    /**
+   * Registers a handler for a `GET /posts/{postId}` style route
+   */
+    protected route<TPath extends string, TSchemas extends RouteSchemas = Record<never, never>>(
+        method: HttpMethod,
+        path: TPath,
+        handler: (request: TypedRouteRequest<TPath, TSchemas>) => Promise<ApiResponse>,
+        options: RouteOptions & { schemas?: TSchemas } = {}
+    ): this {
+        this.router.add({
+            ...options,
+            method,
+            path,
+            handler: handler as RouteHandler,
+        });
+        return this;
+    }
+
+    public getRoutes(): RestApiRoute[] {
+        return this.router.getRoutes();
+    }
+
+    /**
+     * Generates an OpenAPI 3.1 document from the registered routes
+     */
+    public getOpenApiDocument(info: OpenApiInfo, options?: OpenApiGenerationOptions): OpenApiDocument {
+        return generateOpenApiDocument(this.getRoutes(), info, options);
+    }
+
+    /**
+     * Serves the generated OpenAPI document, e.g. on `GET /openapi.json`
+     */
+    protected exposeOpenApiDocument(info: OpenApiInfo, path: string = "/openapi.json", options?: OpenApiGenerationOptions): this {
+        let document: OpenApiDocument | undefined;
+
+        this.router.add({
+            method: "GET",
+            path,
+            openapi: { hidden: true },
+            handler: async () => {
+                document = document || this.getOpenApiDocument(info, options);
+                return { statusCode: 200, body: document };
+            },
+        });
+        return this;
+    }
+
+    protected async dispatchRoute(event: APIGatewayProxyEvent): Promise<ApiResponse> {
+        const resolution = this.router.resolve(event.httpMethod, event.path);
+
+        if (resolution.type === "notFound") {
+            return this.notFoundResponse();
+        }
+
+        if (resolution.type === "methodNotAllowed") {
+            return this.methodNotAllowedResponse(resolution.allow);
+        }
+
+        const { route, params } = resolution;
+        let user: AuthUser | null = null;
+
+        if (route.auth) {
+            user = await this.getAuthenticatedUser(event);
+
+            if (!user && route.auth !== "optional") {
+                return this.unauthorizedResponse();
+            }
+
+            if (user && typeof route.auth === "object" && !meetsAuthRequirement(user, route.auth)) {
+                return this.forbiddenResponse();
+            }
+        }
+
+        const parsed = parseRouteRequest(route.schemas, {
+            params,
+            query: compactValues(event.queryStringParameters),
+            headers: lowerCaseKeys(event.headers),
+            body: event.body,
+            isBase64Encoded: event.isBase64Encoded,
+        });
+
+        const request = { event, user, ...parsed } as RouteRequest;
+        const response = await runRouteMiddleware(route.middleware || [], request, route.handler);
+
+        verifyRouteResponse(route, response, this.logger);
+
+        return response;
+    }
+
+    protected async process(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+        const response = await this.processApiConditionally(event);
+        const encoded = await encodeResponse(response, lowerCaseKeys(event.headers), this.responseEncoding);
+
+        return {
+            statusCode: response.statusCode,
+            body: encoded.body,
+            isBase64Encoded: encoded.isBase64Encoded,
+            headers: encoded.headers
+        };
+    }
+
+    /**
+     * Version conflicts of requests sent with `If-Match` fail with `412 Precondition Failed`,
+     * those of unconditional requests with `409 Conflict`
+     */
+    private async processApiConditionally(event: APIGatewayProxyEvent): Promise<ApiResponse> {
+        try {
+            return await this.processApi(event);
+        } catch (error) {
+            if (error instanceof VersionConflictError && lowerCaseKeys(event.headers)["if-match"]) {
+                throw new PreconditionFailedError(error.message, { code: error.code }, error.currentVersion);
+            }
+            throw error;
+        }
+    }
+
+    /**
+   * Maps `HttpError`s and registered domain errors to an `application/problem+json` response
+   */
+    protected async handleError(error: Error | unknown): Promise<APIGatewayProxyResult> {
+        const httpError = this.errorMappings.toHttpError(error);
+
+        if (isServerError(httpError)) {
+            this.logger.error("Error in REST API Lambda:", error);
+        } else {
+            this.logger.warn("Request failed in REST API Lambda:", { code: httpError.code, message: httpError.message });
+        }
+
+        const response = toProblemResponse(httpError, { requestId: this.context.awsRequestId });
+
+        // Lets the client retry with the version it conflicted with
+        if ((httpError instanceof VersionConflictError || httpError instanceof PreconditionFailedError)
+            && httpError.currentVersion !== undefined) {
+            response.headers.ETag = responses.versionETag(httpError.currentVersion);
+        }
+
+        return response;
+    }
+
+    // Authentication methods
+    /**
+     * Returns the user resolved by the API's authorizer or the `jwtAuth` middleware, or verifies
+     * the Bearer token with the configured Cognito User Pool
+     */
+    protected async getAuthenticatedUser(event: APIGatewayProxyEvent): Promise<AuthUser | null> {
+        const authorizerUser = authUserFromAuthorizer(event.requestContext?.authorizer);
+        if (authorizerUser) {
+            return authorizerUser;
+        }
+
+        // Claims already verified by the jwtAuth middleware
+        if (this.context.user?.sub) {
+            return authUserFromClaims(this.context.user);
+        }
+
+        try {
+            const token = this.extractToken(event);
+            if (!token || !this.jwtVerifier) {
+                return null;
+            }
+
+            const payload = await this.jwtVerifier.verify(token);
+
+            return authUserFromClaims(payload);
+        } catch (error) {
+            this.logger.warn("Token verification failed", { error });
+            return null;
+        }
+    }
+
+    private extractToken(event: APIGatewayProxyEvent): string | null {
+        return extractBearerToken(event.headers);
+    }
+
+    // Helper methods for common responses
+    protected successResponse(data: any, message?: string): ApiResponse {
+        return responses.successResponse(data, message);
+    }
+
+    protected createdResponse(data: any, message?: string): ApiResponse {
+        return responses.createdResponse(data, message);
+    }
+
+    protected badRequestResponse(message: string): ApiResponse {
+        return responses.badRequestResponse(message);
+    }
+
+    protected unauthorizedResponse(message: string = "Unauthorized"): ApiResponse {
+        return responses.unauthorizedResponse(message);
+    }
+
+    protected forbiddenResponse(message: string = "Forbidden"): ApiResponse {
+        return responses.forbiddenResponse(message);
+    }
+
+    protected notFoundResponse(message: string = "Not found"): ApiResponse {
+        return responses.notFoundResponse(message);
+    }
+
+    protected methodNotAllowedResponse(allowedMethods?: string[]): ApiResponse {
+        return responses.methodNotAllowedResponse(allowedMethods);
+    }
+
+    protected conflictResponse(message: string): ApiResponse {
+        return responses.conflictResponse(message);
+    }
+
+    protected internalServerErrorResponse(message: string = "Internal server error"): ApiResponse {
+        return responses.internalServerErrorResponse(message);
+    }
+
+    /**
+     * Reads the `limit` and `cursor` query parameters, fetches the page and returns it in the
+     * `{ success, data, pagination: { limit, nextCursor, hasMore } }` envelope
+     */
+    protected async paginatedResponse<T>(
+        event: APIGatewayProxyEvent,
+        fetchPage: (page: PageOptions & { limit: number }) => Promise<PaginatedResult<T>>,
+        options?: responses.PaginationOptions
+    ): Promise<ApiResponse> {
+        const page = responses.parsePageOptions(event.queryStringParameters, options);
+        return responses.paginatedResponse(await fetchPage(page), page.limit);
+    }
+
+    /**
+     * Adds the `ETag` of an item version to a response, for clients to send back in `If-Match`
+     */
+    protected withVersionETag(response: ApiResponse, version: number): ApiResponse {
+        return { ...response, headers: { ...response.headers, ETag: responses.versionETag(version) } };
+    }
+
+    /**
+     * Version expected by the request's `If-Match` header, to pass as `expectedVersion`
+     * to the versioned writes of `DynamoDBService`
+     */
+    protected getIfMatchVersion(event: APIGatewayProxyEvent): number | undefined {
+        return responses.parseIfMatchVersion(lowerCaseKeys(event.headers)["if-match"]);
+    }
+
+    // Utility methods
+    protected getPathParameter(event: APIGatewayProxyEvent, name: string): string | undefined {
+        return event.pathParameters?.[name];
+    }
+
+    protected getQueryParameter(event: APIGatewayProxyEvent, name: string): string | undefined {
+        return event.queryStringParameters?.[name];
+    }
+
+    protected parseJsonBody<T>(event: APIGatewayProxyEvent): T | null {
+        if (!event.body) return null;
+        try {
+            return JSON.parse(getBodyText(event)) as T;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    // Deprecated - use parseJsonBody instead
+    protected getBody<T>(event: APIGatewayProxyEvent): T | undefined {
+        if (!event.body) return undefined;
+        try {
+            return JSON.parse(getBodyText(event)) as T;
+        } catch (error) {
+            return undefined;
         }
     }
+}
 
-  protected abstract processApi(event: APIGatewayProxyEvent): Promise<ApiResponse>;
-
-  protected async process(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-      const response = await this.processApi(event);
-
-      return {
-          statusCode: response.statusCode,
-          body: JSON.stringify(response.body),
-          headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*",
-              "Access-Control-Allow-Credentials": "true",
-              ...response.headers
-          }
-      };
-  }
-
-  protected async handleError(error: Error | unknown): Promise<APIGatewayProxyResult> {
-      this.logger.error("Error in REST API Lambda:", error);
-
-      return {
-          statusCode: 500,
-          body: JSON.stringify({
-              success: false,
-              message: "Internal Server Error"
-          }),
-          headers: {
-              "Content-Type": "application/json",
-              "Access-Control-Allow-Origin": "*",
-              "Access-Control-Allow-Credentials": "true"
-          }
-      };
-  }
-
-  // Authentication methods
-  protected async getAuthenticatedUser(event: APIGatewayProxyEvent): Promise<AuthUser | null> {
-      try {
-          const token = this.extractToken(event);
-          if (!token || !this.jwtVerifier) {
-              return null;
-          }
-
-          const payload = await this.jwtVerifier.verify(token);
-
-          return {
-              id: payload.sub as string,
-              email: (payload.email as string) || "",
-              username: (payload["custom:username"] as string) || (payload.email as string) || "",
-              role: (payload["custom:role"] as string) || "user",
-              permissions: payload["custom:permissions"] ? JSON.parse(payload["custom:permissions"] as string) : []
-          };
-      } catch (error) {
-          this.logger.warn("Token verification failed", { error });
-          return null;
-      }
-  }
-
-  private extractToken(event: APIGatewayProxyEvent): string | null {
-      const authHeader = event.headers.Authorization || event.headers.authorization;
-      if (!authHeader) return null;
-
-      const parts = authHeader.split(" ");
-      if (parts.length !== 2 || parts[0] !== "Bearer") return null;
-
-      return parts[1];
-  }
-
-  // Helper methods for common responses
-  protected successResponse(data: any, message?: string): ApiResponse {
-      return {
-          statusCode: 200,
-          body: {
-              success: true,
-              data,
-              message
-          }
-      };
-  }
-
-  protected createdResponse(data: any, message?: string): ApiResponse {
-      return {
-          statusCode: 201,
-          body: {
-              success: true,
-              data,
-              message
-          }
-      };
-  }
-
-  protected badRequestResponse(message: string): ApiResponse {
-      return {
-          statusCode: 400,
-          body: {
-              success: false,
-              error: message
-          }
-      };
-  }
-
-  protected unauthorizedResponse(message: string = "Unauthorized"): ApiResponse {
-      return {
-          statusCode: 401,
-          body: {
-              success: false,
-              error: message
-          }
-      };
-  }
-
-  protected forbiddenResponse(message: string = "Forbidden"): ApiResponse {
-      return {
-          statusCode: 403,
-          body: {
-              success: false,
-              error: message
-          }
-      };
-  }
-
-  protected notFoundResponse(message: string = "Not found"): ApiResponse {
-      return {
-          statusCode: 404,
-          body: {
-              success: false,
-              error: message
-          }
-      };
-  }
-
-  protected methodNotAllowedResponse(): ApiResponse {
-      return {
-          statusCode: 405,
-          body: {
-              success: false,
-              error: "Method not allowed"
-          }
-      };
-  }
-
-  protected conflictResponse(message: string): ApiResponse {
-      return {
-          statusCode: 409,
-          body: {
-              success: false,
-              error: message
-          }
-      };
-  }
-
-  protected internalServerErrorResponse(message: string = "Internal server error"): ApiResponse {
-      return {
-          statusCode: 500,
-          body: {
-              success: false,
-              error: message
-          }
-      };
-  }
-
-  // Utility methods
-  protected getPathParameter(event: APIGatewayProxyEvent, name: string): string | undefined {
-      return event.pathParameters?.[name];
-  }
-
-  protected getQueryParameter(event: APIGatewayProxyEvent, name: string): string | undefined {
-      return event.queryStringParameters?.[name];
-  }
-
-  protected parseJsonBody<T>(event: APIGatewayProxyEvent): T | null {
-      if (!event.body) return null;
-      try {
-          return JSON.parse(event.body) as T;
-      } catch (error) {
-          return null;
-      }
-  }
-
-  // Deprecated - use parseJsonBody instead
-  protected getBody<T>(event: APIGatewayProxyEvent): T | undefined {
-      if (!event.body) return undefined;
-      try {
-          return JSON.parse(event.body) as T;
-      } catch (error) {
-          return undefined;
-      }
-  }
+/**
+ * Request bodies are base64-encoded when the API has `binaryMediaTypes`
+ */
+function getBodyText(event: APIGatewayProxyEvent): string {
+    const body = event.body || "";
+    return event.isBase64Encoded ? Buffer.from(body, "base64").toString("utf8") : body;
 }
@@ -0,0 +1,133 @@
+import { FieldError, InternalServerError } from "../middleware/error-handler";
+import { Logger } from "../middleware/logger";
+import { AnySchema, Infer, ValidationError } from "../middleware/schema";
+
+/**
+ * Schemas a route declares for its request parts and, optionally, its response.
+ * Header names are matched in lower case.
+ */
+export interface RouteSchemas {
+  params?: AnySchema;
+  query?: AnySchema;
+  headers?: AnySchema;
+  body?: AnySchema;
+  /** Describes the `data` of the success envelope, or the whole body for custom bodies */
+  response?: AnySchema;
+}
+
+const SUCCESS_STATUS_MIN = 200;
+const SUCCESS_STATUS_MAX = 299;
+
+export type SchemaOutput<TSchema, TFallback> = TSchema extends AnySchema ? Infer<TSchema> : TFallback;
+
+export interface RawRequestParts {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: string | null;
+  isBase64Encoded?: boolean;
+}
+
+export interface ParsedRequestParts {
+  params: unknown;
+  query: unknown;
+  headers: unknown;
+  body: unknown;
+}
+
+/**
+ * Parses and coerces the request parts against the route's schemas.
+ * Throws a `ValidationError` listing every invalid field.
+ */
+export function parseRouteRequest(schemas: RouteSchemas = {}, parts: RawRequestParts): ParsedRequestParts {
+    const errors: FieldError[] = [];
+
+    const parsePart = (schema: AnySchema | undefined, value: unknown, path: string, coerce: boolean): unknown => {
+        if (!schema) return value;
+
+        const result = schema.safeParse(value, { coerce, path });
+        if (!result.success) {
+            errors.push(...result.errors);
+            return undefined;
+        }
+        return result.data;
+    };
+
+    let body: unknown = null;
+    if (parts.body) {
+        const text = parts.isBase64Encoded ? Buffer.from(parts.body, "base64").toString("utf8") : parts.body;
+        try {
+            body = JSON.parse(text);
+        } catch (error) {
+            if (schemas.body) {
+                errors.push({ field: "body", message: "must be valid JSON", code: "invalid_json" });
+            }
+            body = undefined;
+        }
+    }
+
+    const parsed: ParsedRequestParts = {
+        params: parsePart(schemas.params, parts.params, "params", true),
+        query: parsePart(schemas.query, parts.query, "query", true),
+        headers: parsePart(schemas.headers, parts.headers, "headers", true),
+        body: errors.some(error => error.code === "invalid_json")
+            ? undefined
+            : parsePart(schemas.body, body ?? undefined, "body", false),
+    };
+
+    if (errors.length > 0) {
+        throw new ValidationError(errors);
+    }
+
+    return parsed;
+}
+
+/**
+ * Checks a successful response against the route's response schema
+ */
+export function checkRouteResponse(schemas: RouteSchemas = {}, body: unknown): FieldError[] {
+    if (!schemas.response) return [];
+
+    const payload = isSuccessEnvelope(body) ? body.data : body;
+    const result = schemas.response.safeParse(payload, { path: "response" });
+
+    return result.success ? [] : result.errors;
+}
+
+/**
+ * Logs a response that does not match the route's response schema, and fails it
+ * with a 500 when `enforceResponseSchema` is set
+ */
+export function verifyRouteResponse(
+    route: { schemas?: RouteSchemas; enforceResponseSchema?: boolean },
+    response: { statusCode: number; body?: unknown },
+    logger: Logger
+): void {
+    if (!route.schemas?.response || response.statusCode < SUCCESS_STATUS_MIN || response.statusCode > SUCCESS_STATUS_MAX) {
+        return;
+    }
+
+    const errors = checkRouteResponse(route.schemas, response.body);
+    if (errors.length === 0) return;
+
+    if (route.enforceResponseSchema) {
+        logger.error("Response validation failed", { errors });
+        throw new InternalServerError("Internal Server Error", { code: "RESPONSE_VALIDATION_FAILED" });
+    }
+
+    logger.warn("Response validation failed", { errors });
+}
+
+export function compactValues(values?: Record<string, string | undefined> | null): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(values || {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+            result[key] = value;
+        }
+    });
+    return result;
+}
+
+function isSuccessEnvelope(body: unknown): body is { success: true; data: unknown } {
+    return typeof body === "object" && body !== null && (body as { success?: unknown }).success === true && "data" in body;
+}
@@ -0,0 +1,111 @@
+import { HttpMethod, RouteDefinition, Router, runRouteMiddleware } from "./router";
+
+interface TestRoute extends RouteDefinition {
+  name: string;
+}
+
+function createRouter(routes: Array<[HttpMethod, string, string]>): Router<TestRoute> {
+    const router = new Router<TestRoute>();
+    routes.forEach(([method, path, name]) => router.add({ method, path, name }));
+    return router;
+}
+
+describe("Router", () => {
+    test("matches a route and decodes its path parameters", () => {
+        const router = createRouter([["GET", "/posts/{postId}/comments/{commentId}", "comment"]]);
+
+        expect(router.resolve("GET", "/posts/a%20b/comments/42")).toEqual({
+            type: "matched",
+            route: { method: "GET", path: "/posts/{postId}/comments/{commentId}", name: "comment" },
+            params: { postId: "a b", commentId: "42" },
+        });
+    });
+
+    test("prefers the pattern with the most literal segments, whatever the registration order", () => {
+        const router = createRouter([
+            ["GET", "/posts/{postId}", "byId"],
+            ["GET", "/posts/latest", "latest"],
+            ["GET", "/{resource}/{id}", "generic"],
+        ]);
+
+        const resolution = router.resolve("GET", "/posts/latest");
+
+        expect(resolution.type === "matched" && resolution.route.name).toBe("latest");
+        expect(router.resolve("GET", "/posts/1")).toMatchObject({ route: { name: "byId" } });
+        expect(router.resolve("GET", "/users/1")).toMatchObject({ route: { name: "generic" } });
+    });
+
+    test("keeps the first registered route between equally specific patterns", () => {
+        const router = createRouter([
+            ["GET", "/{a}/x", "first"],
+            ["GET", "/y/{b}", "second"],
+        ]);
+
+        expect(router.resolve("GET", "/y/x")).toMatchObject({ route: { name: "first" } });
+    });
+
+    test("matches the rest of the path with a greedy parameter", () => {
+        const router = createRouter([["GET", "/files/{key+}", "file"]]);
+
+        expect(router.resolve("GET", "/files/a/b/c.txt")).toMatchObject({ params: { key: "a/b/c.txt" } });
+        expect(router.resolve("GET", "/files")).toEqual({ type: "notFound" });
+    });
+
+    test("ignores trailing slashes, duplicate slashes and the query string", () => {
+        const router = createRouter([["GET", "/posts/{postId}", "post"]]);
+
+        expect(router.resolve("get", "//posts/1/?include=comments")).toMatchObject({ type: "matched", params: { postId: "1" } });
+    });
+
+    test("answers a known path with the wrong method with the allowed methods", () => {
+        const router = createRouter([
+            ["GET", "/posts/{postId}", "get"],
+            ["DELETE", "/posts/{postId}", "delete"],
+            ["PUT", "/posts/{postId}", "put"],
+            ["POST", "/posts", "create"],
+        ]);
+
+        expect(router.resolve("PATCH", "/posts/1")).toEqual({ type: "methodNotAllowed", allow: ["GET", "DELETE", "PUT"] });
+    });
+
+    test("returns notFound for unknown paths", () => {
+        const router = createRouter([["GET", "/posts", "list"]]);
+
+        expect(router.resolve("GET", "/users")).toEqual({ type: "notFound" });
+    });
+
+    test("keeps malformed percent-encoding as it is", () => {
+        const router = createRouter([["GET", "/tags/{tag}", "tag"]]);
+
+        expect(router.resolve("GET", "/tags/100%")).toMatchObject({ params: { tag: "100%" } });
+    });
+});
+
+describe("runRouteMiddleware", () => {
+    test("runs middleware in registration order around the handler", async () => {
+        const calls: string[] = [];
+        const middleware = ["outer", "inner"].map(name => async (request: string[], next: () => Promise<string>) => {
+            calls.push(`${name}:before`);
+            const result = await next();
+            calls.push(`${name}:after`);
+            return result;
+        });
+
+        const result = await runRouteMiddleware(middleware, calls, async () => {
+            calls.push("handler");
+            return "done";
+        });
+
+        expect(result).toBe("done");
+        expect(calls).toEqual(["outer:before", "inner:before", "handler", "inner:after", "outer:after"]);
+    });
+
+    test("lets middleware answer without calling the handler", async () => {
+        const handler = jest.fn(async () => "handler");
+
+        const result = await runRouteMiddleware([async () => "short-circuit"], {}, handler);
+
+        expect(result).toBe("short-circuit");
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
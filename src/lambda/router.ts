@@ -0,0 +1,139 @@
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD" | "OPTIONS";
+
+/**
+ * Extracts the `{param}` / `{param+}` names of a route pattern into a typed record
+ */
+export type PathParams<TPath extends string> =
+    TPath extends `${string}{${infer Param}}${infer Rest}`
+        ? { [K in Param extends `${infer Name}+` ? Name : Param]: string } & PathParams<Rest>
+        : Record<never, string>;
+
+export interface RouteDefinition {
+    method: HttpMethod;
+    path: string;
+}
+
+export type RouteResolution<TRoute extends RouteDefinition> =
+    | { type: "matched"; route: TRoute; params: Record<string, string> }
+    | { type: "methodNotAllowed"; allow: HttpMethod[] }
+    | { type: "notFound" };
+
+interface CompiledRoute<TRoute extends RouteDefinition> {
+    route: TRoute;
+    pattern: RegExp;
+    paramNames: string[];
+    literalSegments: number;
+}
+
+/**
+ * Matches HTTP method and path pairs against registered `/posts/{postId}` style patterns.
+ * When several patterns match, the one with the most literal segments wins.
+ */
+export class Router<TRoute extends RouteDefinition> {
+    private routes: CompiledRoute<TRoute>[] = [];
+
+    public add(route: TRoute): this {
+        const segments = splitPath(route.path);
+        const paramNames: string[] = [];
+
+        const source = segments.map(segment => {
+            const param = segment.match(/^\{([^}]+?)(\+)?\}$/);
+            if (!param) {
+                return escapeRegExp(segment);
+            }
+
+            const [, name, greedy] = param;
+            paramNames.push(name);
+            return greedy ? "(.+)" : "([^/]+)";
+        }).join("/");
+
+        this.routes.push({
+            route,
+            pattern: new RegExp(`^/${source}$`),
+            paramNames,
+            literalSegments: segments.length - paramNames.length,
+        });
+
+        return this;
+    }
+
+    public getRoutes(): TRoute[] {
+        return this.routes.map(compiled => compiled.route);
+    }
+
+    public resolve(method: string, path: string): RouteResolution<TRoute> {
+        const normalizedPath = `/${splitPath(path).join("/")}`;
+        const normalizedMethod = method.toUpperCase();
+
+        let best: { compiled: CompiledRoute<TRoute>; values: string[] } | undefined;
+        const allow: HttpMethod[] = [];
+
+        for (const compiled of this.routes) {
+            const match = normalizedPath.match(compiled.pattern);
+            if (!match) continue;
+
+            if (!allow.includes(compiled.route.method)) {
+                allow.push(compiled.route.method);
+            }
+
+            if (compiled.route.method !== normalizedMethod) continue;
+
+            if (!best || compiled.literalSegments > best.compiled.literalSegments) {
+                best = { compiled, values: match.slice(1) };
+            }
+        }
+
+        if (best) {
+            const params: Record<string, string> = {};
+            best.compiled.paramNames.forEach((name, index) => {
+                params[name] = safeDecode(best!.values[index]);
+            });
+
+            return { type: "matched", route: best.compiled.route, params };
+        }
+
+        if (allow.length > 0) {
+            return { type: "methodNotAllowed", allow };
+        }
+
+        return { type: "notFound" };
+    }
+}
+
+/**
+ * Runs route middleware in registration order around the route handler
+ */
+export async function runRouteMiddleware<TRequest, TResponse>(
+    middleware: ((request: TRequest, next: () => Promise<TResponse>) => Promise<TResponse>)[],
+    request: TRequest,
+    handler: (request: TRequest) => Promise<TResponse>
+): Promise<TResponse> {
+    const run = async (index: number): Promise<TResponse> => {
+        if (index < middleware.length) {
+            return await middleware[index](request, () => run(index + 1));
+        }
+        return await handler(request);
+    };
+
+    return await run(0);
+}
+
+// Helper functions
+function splitPath(path: string): string[] {
+    return path.split("?")[0].split("/").filter(segment => segment);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Decodes a URI component, keeping malformed escapes as they are
+ */
+export function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch (error) {
+        return value;
+    }
+}
@@ -30,6 +30,6 @@ export abstract class S3EventLambda extends BaseLambda<S3Event, void> {
           Bucket: bucket,
           Key: key
       });
-      return await this.s3.send(command);
+      return await this.s3.send(command, { abortSignal: this.signal });
   }
 }
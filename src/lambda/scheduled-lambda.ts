@@ -0,0 +1,224 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DeleteCommand, DynamoDBDocumentClient, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { ScheduledEvent } from "aws-lambda";
+import { BaseLambda } from "./base-lambda";
+
+/**
+ * Payload sent by schedules created with `ServerlessStack.addSchedule`
+ */
+export interface ScheduledJobEvent {
+  jobName: string;
+  scheduledTime: string;
+  executionId?: string;
+  attempt?: number | string;
+  payload?: unknown;
+}
+
+export type ScheduledLambdaEvent = ScheduledJobEvent | ScheduledEvent<unknown>;
+
+export interface ScheduledJob<TPayload = unknown> {
+  name: string;
+  scheduledTime: Date;
+  /** Identifies the invocation and owns the lease while the job runs */
+  executionId: string;
+  attempt: number;
+  payload?: TPayload;
+}
+
+export type JobRunStatus = "RUNNING" | "SUCCEEDED" | "FAILED" | "SKIPPED";
+
+export interface JobRunRecord {
+  id: string;
+  jobName: string;
+  scheduledTime: string;
+  executionId: string;
+  attempt: number;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  /** Epoch seconds, used as the table's TTL attribute */
+  expiresAt: number;
+}
+
+export interface JobRunResult<TResult> {
+  jobName: string;
+  status: JobRunStatus;
+  result?: TResult;
+}
+
+/**
+ * Persistence for job leases and run records
+ */
+export interface JobLeaseStore {
+  /** Returns `false` when another run holds an unexpired lease on the job */
+  acquire(jobName: string, owner: string, leaseExpiresAt: number, now: number): Promise<boolean>;
+  release(jobName: string, owner: string): Promise<void>;
+  recordRun(run: JobRunRecord): Promise<void>;
+}
+
+const MS_PER_SECOND = 1000;
+const SECONDS_PER_DAY = 86400;
+const DEFAULT_RUN_RETENTION_DAYS = 30;
+const DEFAULT_LEASE_MS = 900000;
+
+export class DynamoDBJobLeaseStore implements JobLeaseStore {
+    private documentClient: DynamoDBDocumentClient;
+
+    constructor(private readonly tableName: string, options: { documentClient?: DynamoDBDocumentClient } = {}) {
+        this.documentClient = options.documentClient || DynamoDBDocumentClient.from(new DynamoDBClient({}));
+    }
+
+    async acquire(jobName: string, owner: string, leaseExpiresAt: number, now: number): Promise<boolean> {
+        try {
+            await this.documentClient.send(new PutCommand({
+                TableName: this.tableName,
+                Item: {
+                    id: `lease#${jobName}`,
+                    owner,
+                    leaseExpiresAt,
+                    expiresAt: Math.ceil(leaseExpiresAt / MS_PER_SECOND),
+                },
+                ConditionExpression: "attribute_not_exists(id) OR leaseExpiresAt < :now OR #owner = :owner",
+                ExpressionAttributeNames: { "#owner": "owner" },
+                ExpressionAttributeValues: { ":now": now, ":owner": owner },
+            }));
+            return true;
+        } catch (error) {
+            if ((error as Error).name === "ConditionalCheckFailedException") {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async release(jobName: string, owner: string): Promise<void> {
+        try {
+            await this.documentClient.send(new DeleteCommand({
+                TableName: this.tableName,
+                Key: { id: `lease#${jobName}` },
+                ConditionExpression: "#owner = :owner",
+                ExpressionAttributeNames: { "#owner": "owner" },
+                ExpressionAttributeValues: { ":owner": owner },
+            }));
+        } catch (error) {
+            // The lease expired and another run took it over
+            if ((error as Error).name !== "ConditionalCheckFailedException") {
+                throw error;
+            }
+        }
+    }
+
+    async recordRun(run: JobRunRecord): Promise<void> {
+        await this.documentClient.send(new PutCommand({ TableName: this.tableName, Item: run }));
+    }
+}
+
+/**
+ * Base class for jobs triggered by EventBridge Scheduler or scheduled EventBridge rules.
+ * A lease in the `SCHEDULED_JOBS_TABLE_NAME` table keeps two runs of the same job from
+ * executing at once, and every run is recorded there with its status.
+ */
+export abstract class ScheduledLambda<TResult = unknown, TPayload = unknown>
+    extends BaseLambda<ScheduledLambdaEvent, JobRunResult<TResult>> {
+    protected jobStore?: JobLeaseStore;
+    /** Skip runs while another run of the job holds the lease */
+    protected preventOverlap = true;
+    /** How long run records are kept */
+    protected runRetentionDays = DEFAULT_RUN_RETENTION_DAYS;
+    /** Job name for scheduled EventBridge rules, which do not send one */
+    protected jobName?: string;
+
+    constructor() {
+        super();
+
+        if (process.env.SCHEDULED_JOBS_TABLE_NAME) {
+            this.jobStore = new DynamoDBJobLeaseStore(process.env.SCHEDULED_JOBS_TABLE_NAME);
+        }
+    }
+
+    protected abstract runJob(job: ScheduledJob<TPayload>): Promise<TResult>;
+
+    protected async process(event: ScheduledLambdaEvent): Promise<JobRunResult<TResult>> {
+        if (this.preventOverlap && !this.jobStore) {
+            throw new Error("ScheduledLambda requires the SCHEDULED_JOBS_TABLE_NAME environment variable, or preventOverlap = false");
+        }
+
+        const job = this.toJob(event);
+        const startedAt = Date.now();
+        const leaseExpiresAt = startedAt + (this.context.getRemainingTimeInMillis?.() || DEFAULT_LEASE_MS);
+
+        if (this.preventOverlap && !(await this.jobStore?.acquire(job.name, job.executionId, leaseExpiresAt, startedAt))) {
+            this.logger.warn("Skipping job run, a previous run is still in progress", { jobName: job.name });
+            await this.recordRun(job, "SKIPPED", startedAt);
+            return { jobName: job.name, status: "SKIPPED" };
+        }
+
+        try {
+            await this.recordRun(job, "RUNNING", startedAt);
+            const result = await this.runJob(job);
+            await this.recordRun(job, "SUCCEEDED", startedAt);
+
+            return { jobName: job.name, status: "SUCCEEDED", result };
+        } catch (error) {
+            await this.recordRun(job, "FAILED", startedAt, error);
+            throw error;
+        } finally {
+            if (this.preventOverlap) {
+                await this.jobStore?.release(job.name, job.executionId);
+            }
+        }
+    }
+
+    protected async handleError(error: Error | unknown): Promise<JobRunResult<TResult>> {
+        this.logger.error("Error in Scheduled Lambda:", error);
+        throw error;
+    }
+
+    protected toJob(event: ScheduledLambdaEvent): ScheduledJob<TPayload> {
+        if ("detail-type" in event) {
+            const ruleName = event.resources?.[0]?.split("/").pop();
+
+            return {
+                name: this.jobName || ruleName || this.context.functionName || "scheduled-job",
+                scheduledTime: new Date(event.time),
+                executionId: event.id,
+                attempt: 1,
+            };
+        }
+
+        return {
+            name: event.jobName || this.jobName || "scheduled-job",
+            scheduledTime: new Date(event.scheduledTime),
+            executionId: event.executionId || this.context.awsRequestId || `${event.jobName}#${event.scheduledTime}`,
+            attempt: Number(event.attempt) || 1,
+            payload: event.payload as TPayload | undefined,
+        };
+    }
+
+    private async recordRun(job: ScheduledJob<TPayload>, status: JobRunStatus, startedAt: number, error?: unknown): Promise<void> {
+        if (!this.jobStore) return;
+
+        const now = Date.now();
+        const scheduledTime = job.scheduledTime.toISOString();
+
+        try {
+            await this.jobStore.recordRun({
+                id: `run#${job.name}#${scheduledTime}#${job.executionId}`,
+                jobName: job.name,
+                scheduledTime,
+                executionId: job.executionId,
+                attempt: job.attempt,
+                status,
+                startedAt: new Date(startedAt).toISOString(),
+                ...(status !== "RUNNING" && { finishedAt: new Date(now).toISOString(), durationMs: now - startedAt }),
+                ...(error !== undefined && { error: error instanceof Error ? error.message : String(error) }),
+                expiresAt: Math.floor(now / MS_PER_SECOND) + this.runRetentionDays * SECONDS_PER_DAY,
+            });
+        } catch (recordError) {
+            // Bookkeeping must not fail the job itself
+            this.logger.warn("Failed to record job run", { jobName: job.name, status, error: recordError });
+        }
+    }
+}
@@ -0,0 +1,176 @@
+import { SFNClient, SendTaskFailureCommand, SendTaskHeartbeatCommand, SendTaskSuccessCommand } from "@aws-sdk/client-sfn";
+import { Schema } from "../middleware/schema";
+import { BaseLambda } from "./base-lambda";
+
+/**
+ * Error names matched by the retriers and catchers of `ServerlessStack.createStateMachine`
+ */
+export const TaskErrorType = {
+    Retryable: "RetryableTaskError",
+    Fatal: "FatalTaskError",
+} as const;
+
+/**
+ * Payload sent by a `waitForTaskToken` task state
+ */
+export interface TaskTokenEvent<TInput> {
+  taskToken: string;
+  input: TInput;
+}
+
+export interface TaskContext {
+  /** Set when the state waits for a task token callback */
+  taskToken?: string;
+  /** Leaves the task open after `processTask` returns, for another process to complete it */
+  defer(): void;
+}
+
+/**
+ * Base class for errors reported to Step Functions under a stable error name
+ */
+export class TaskError extends Error {
+    constructor(name: string, message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = name;
+    }
+}
+
+/**
+ * Transient failure the state machine retries with backoff
+ */
+export class RetryableTaskError extends TaskError {
+    constructor(message: string, cause?: unknown) {
+        super(TaskErrorType.Retryable, message, cause);
+    }
+}
+
+/**
+ * Permanent failure the state machine catches without retrying
+ */
+export class FatalTaskError extends TaskError {
+    constructor(message: string, cause?: unknown) {
+        super(TaskErrorType.Fatal, message, cause);
+    }
+}
+
+const DEFAULT_RETRYABLE_ERRORS = [
+    "ThrottlingException",
+    "TooManyRequestsException",
+    "ProvisionedThroughputExceededException",
+    "RequestLimitExceeded",
+    "ServiceUnavailable",
+    "TimeoutError",
+    "ECONNRESET",
+    "ETIMEDOUT",
+];
+
+const MAX_ERROR_LENGTH = 256;
+const MAX_CAUSE_LENGTH = 32768;
+
+/**
+ * Sends task token callbacks, for tasks completed outside of the lambda that received the token
+ */
+export class TaskTokenCallbacks {
+    constructor(private readonly client: SFNClient = new SFNClient({})) {}
+
+    async success(taskToken: string, output: unknown): Promise<void> {
+        await this.client.send(new SendTaskSuccessCommand({
+            taskToken,
+            output: JSON.stringify(output ?? null),
+        }));
+    }
+
+    async failure(taskToken: string, error: Error): Promise<void> {
+        await this.client.send(new SendTaskFailureCommand({
+            taskToken,
+            error: error.name.slice(0, MAX_ERROR_LENGTH),
+            cause: JSON.stringify({ errorType: error.name, errorMessage: error.message }).slice(0, MAX_CAUSE_LENGTH),
+        }));
+    }
+
+    async heartbeat(taskToken: string): Promise<void> {
+        await this.client.send(new SendTaskHeartbeatCommand({ taskToken }));
+    }
+}
+
+export abstract class StepFunctionTaskLambda<TInput = unknown, TOutput = unknown>
+    extends BaseLambda<TInput | TaskTokenEvent<TInput>, TOutput | void> {
+    protected callbacks = new TaskTokenCallbacks();
+    /** Validates and coerces the task input before `processTask` runs */
+    protected inputSchema?: Schema<TInput>;
+    /** Error names, besides `RetryableTaskError`, reported as retryable */
+    protected retryableErrors: string[] = DEFAULT_RETRYABLE_ERRORS;
+
+    protected abstract processTask(input: TInput, task: TaskContext): Promise<TOutput>;
+
+    /**
+     * Runs the task. For `waitForTaskToken` states the result is sent with `SendTaskSuccess`
+     * and failures with `SendTaskFailure`, unless the task was deferred.
+     */
+    protected async process(event: TInput | TaskTokenEvent<TInput>): Promise<TOutput | void> {
+        if (!isTaskTokenEvent<TInput>(event)) {
+            return await this.processTask(this.parseInput(event), { defer: () => undefined });
+        }
+
+        let deferred = false;
+        const task: TaskContext = { taskToken: event.taskToken, defer: () => { deferred = true; } };
+
+        let output: TOutput;
+        try {
+            output = await this.processTask(this.parseInput(event.input), task);
+        } catch (error) {
+            const taskError = this.mapError(error);
+            this.logger.error("Task failed", { errorType: taskError.name, error });
+            await this.callbacks.failure(event.taskToken, taskError);
+            return;
+        }
+
+        // Outside the try, so a failed SendTaskSuccess surfaces instead of failing a task that succeeded
+        if (!deferred) {
+            await this.callbacks.success(event.taskToken, output);
+        }
+        return output;
+    }
+
+    protected async handleError(error: Error | unknown): Promise<TOutput | void> {
+        const taskError = this.mapError(error);
+        this.logger.error("Task failed", { errorType: taskError.name, error });
+        throw taskError;
+    }
+
+    /**
+     * Maps an error to `RetryableTaskError` or `FatalTaskError`. Task errors keep their name,
+     * AWS SDK errors marked retryable and `retryableErrors` become retryable, the rest fatal.
+     */
+    protected mapError(error: Error | unknown): TaskError {
+        if (error instanceof TaskError) {
+            return error;
+        }
+
+        const name = (error as Error)?.name || "Error";
+        const message = (error as Error)?.message || String(error);
+        const sdkRetryable = Boolean((error as { $retryable?: unknown })?.$retryable);
+        const code = (error as { code?: string })?.code;
+
+        if (sdkRetryable || this.retryableErrors.includes(name) || (code && this.retryableErrors.includes(code))) {
+            return new RetryableTaskError(`${name}: ${message}`, error);
+        }
+
+        return new FatalTaskError(`${name}: ${message}`, error);
+    }
+
+    protected parseInput(input: unknown): TInput {
+        return this.inputSchema ? this.inputSchema.parse(input, { path: "input" }) : input as TInput;
+    }
+
+    protected async sendTaskHeartbeat(task: TaskContext): Promise<void> {
+        if (task.taskToken) {
+            await this.callbacks.heartbeat(task.taskToken);
+        }
+    }
+}
+
+function isTaskTokenEvent<TInput>(event: unknown): event is TaskTokenEvent<TInput> {
+    return typeof event === "object" && event !== null &&
+        typeof (event as { taskToken?: unknown }).taskToken === "string" && "input" in event;
+}
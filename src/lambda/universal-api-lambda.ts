@@ -0,0 +1,177 @@
+import { Context } from "aws-lambda";
+import { CognitoJwtVerifier } from "aws-jwt-verify";
+import { CorsPolicy, applyCorsHeaders, defaultCorsPolicy, getPreflightHeaders, isPreflightRequest } from "../middleware/cors";
+import { ErrorMappingRegistry, defaultErrorMappings, isServerError, PROBLEM_JSON_CONTENT_TYPE, toProblemDetails } from "../middleware/error-handler";
+import { authUserFromClaims, createCognitoVerifierFromEnv, extractBearerToken } from "./api-auth";
+import * as responses from "./api-responses";
+import { BaseLambda } from "./base-lambda";
+import {
+    HttpAdapter,
+    HttpEvent,
+    HttpRequest,
+    HttpResponse,
+    HttpResult,
+    getRequestBodyText,
+    httpAdapters,
+    resolveHttpAdapter
+} from "./http-adapters";
+import { AuthUser } from "./rest-api-lambda";
+
+/**
+ * HTTP handler that runs unchanged behind API Gateway REST (v1), HTTP APIs (v2),
+ * ALB target groups and Lambda Function URLs
+ */
+export abstract class UniversalApiLambda extends BaseLambda<HttpEvent, HttpResult> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    protected jwtVerifier?: CognitoJwtVerifier<any, any, any>;
+    protected errorMappings = new ErrorMappingRegistry(defaultErrorMappings);
+    /** CORS headers added to every response, and preflight handling; `false` leaves CORS to the front door */
+    protected cors: CorsPolicy | false = defaultCorsPolicy;
+    /** Event of the current invocation, so errors thrown before `process` get its response shape */
+    private event?: HttpEvent;
+
+    constructor() {
+        super();
+        this.jwtVerifier = createCognitoVerifierFromEnv();
+    }
+
+    /**
+     * Answers CORS preflight requests before any middleware or authentication runs. The CORS
+     * headers of other responses are added by `process` and `handleError`.
+     */
+    public async handler(event: HttpEvent, context: Context): Promise<HttpResult> {
+        this.event = event;
+
+        const adapter = httpAdapters.find(candidate => candidate.canHandle(event));
+        if (this.cors && adapter) {
+            const request = adapter.toRequest(event);
+
+            if (isPreflightRequest(request.method, request.headers)) {
+                return adapter.toResult({ statusCode: 204, headers: getPreflightHeaders(this.cors, request.headers) }, event);
+            }
+        }
+
+        return await super.handler(event, context);
+    }
+
+    protected abstract handleRequest(request: HttpRequest): Promise<HttpResponse>;
+
+    protected async process(event: HttpEvent): Promise<HttpResult> {
+        const adapter = resolveHttpAdapter(event);
+        const request = adapter.toRequest(event);
+        const response = await this.handleRequest(request);
+
+        return adapter.toResult(this.withCorsHeaders(response, request.headers), event);
+    }
+
+    /**
+     * Maps `HttpError`s and registered domain errors to an `application/problem+json` response
+     */
+    protected async handleError(error: Error | unknown): Promise<HttpResult> {
+        const httpError = this.errorMappings.toHttpError(error);
+
+        if (isServerError(httpError)) {
+            this.logger.error("Error in Universal API Lambda:", error);
+        } else {
+            this.logger.warn("Request failed in Universal API Lambda:", { code: httpError.code, message: httpError.message });
+        }
+
+        const response: HttpResponse = {
+            statusCode: httpError.statusCode,
+            headers: { "Content-Type": PROBLEM_JSON_CONTENT_TYPE },
+            body: toProblemDetails(httpError, { requestId: this.context.awsRequestId })
+        };
+
+        const event = this.event;
+        const adapter: HttpAdapter | undefined = httpAdapters.find(candidate => candidate.canHandle(event));
+
+        if (event && adapter) {
+            return adapter.toResult(this.withCorsHeaders(response, adapter.toRequest(event).headers), event);
+        }
+
+        return {
+            statusCode: response.statusCode,
+            body: JSON.stringify(response.body),
+            headers: response.headers
+        };
+    }
+
+    /**
+     * Resolves the user from claims verified by the front door's authorizer,
+     * falling back to verifying a Bearer token with the configured Cognito User Pool
+     */
+    protected async getAuthenticatedUser(request: HttpRequest): Promise<AuthUser | null> {
+        if (request.identity.claims?.sub) {
+            return authUserFromClaims(request.identity.claims);
+        }
+
+        try {
+            const token = extractBearerToken(request.headers);
+            if (!token || !this.jwtVerifier) {
+                return null;
+            }
+
+            return authUserFromClaims(await this.jwtVerifier.verify(token));
+        } catch (error) {
+            this.logger.warn("Token verification failed", { error });
+            return null;
+        }
+    }
+
+    private withCorsHeaders(response: HttpResponse, requestHeaders: Record<string, string>): HttpResponse {
+        if (!this.cors) {
+            return response;
+        }
+
+        return { ...response, headers: applyCorsHeaders(response.headers, this.cors, requestHeaders) as Record<string, string> };
+    }
+
+    protected parseJsonBody<T>(request: HttpRequest): T | null {
+        const body = getRequestBodyText(request);
+        if (!body) return null;
+        try {
+            return JSON.parse(body) as T;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    // Helper methods for common responses
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    protected successResponse(data: any, message?: string): HttpResponse {
+        return responses.successResponse(data, message);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    protected createdResponse(data: any, message?: string): HttpResponse {
+        return responses.createdResponse(data, message);
+    }
+
+    protected badRequestResponse(message: string): HttpResponse {
+        return responses.badRequestResponse(message);
+    }
+
+    protected unauthorizedResponse(message: string = "Unauthorized"): HttpResponse {
+        return responses.unauthorizedResponse(message);
+    }
+
+    protected forbiddenResponse(message: string = "Forbidden"): HttpResponse {
+        return responses.forbiddenResponse(message);
+    }
+
+    protected notFoundResponse(message: string = "Not found"): HttpResponse {
+        return responses.notFoundResponse(message);
+    }
+
+    protected methodNotAllowedResponse(allowedMethods?: string[]): HttpResponse {
+        return responses.methodNotAllowedResponse(allowedMethods);
+    }
+
+    protected conflictResponse(message: string): HttpResponse {
+        return responses.conflictResponse(message);
+    }
+
+    protected internalServerErrorResponse(message: string = "Internal server error"): HttpResponse {
+        return responses.internalServerErrorResponse(message);
+    }
+}
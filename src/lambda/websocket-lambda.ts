@@ -1,5 +1,6 @@
 import { ApiGatewayManagementApiClient, PostToConnectionCommand } from "@aws-sdk/client-apigatewaymanagementapi";
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { ErrorMappingRegistry, defaultErrorMappings, isServerError, toProblemResponse } from "../middleware/error-handler";
 import { BaseLambda } from "./base-lambda";
 
 export interface WebSocketResponse {
@@ -9,6 +10,7 @@ export interface WebSocketResponse {
 
 export abstract class WebSocketLambda extends BaseLambda<APIGatewayProxyEvent, APIGatewayProxyResult> {
     protected apiGatewayClient?: ApiGatewayManagementApiClient;
+    protected errorMappings = new ErrorMappingRegistry(defaultErrorMappings);
 
     constructor() {
         super();
@@ -65,15 +67,19 @@ export abstract class WebSocketLambda extends BaseLambda<APIGatewayProxyEvent, A
       };
   }
 
+  /**
+   * Maps `HttpError`s and registered domain errors to an `application/problem+json` response
+   */
   protected async handleError(error: Error | unknown): Promise<APIGatewayProxyResult> {
-      this.logger.error("Error in WebSocket Lambda:", error);
+      const httpError = this.errorMappings.toHttpError(error);
 
-      return {
-          statusCode: 500,
-          body: JSON.stringify({
-              message: "Internal Server Error"
-          })
-      };
+      if (isServerError(httpError)) {
+          this.logger.error("Error in WebSocket Lambda:", error);
+      } else {
+          this.logger.warn("Request failed in WebSocket Lambda:", { code: httpError.code, message: httpError.message });
+      }
+
+      return toProblemResponse(httpError, { requestId: this.context.awsRequestId });
   }
 
   // Utility methods
@@ -114,7 +120,7 @@ export abstract class WebSocketLambda extends BaseLambda<APIGatewayProxyEvent, A
       });
 
       try {
-          await this.apiGatewayClient.send(command);
+          await this.apiGatewayClient.send(command, { abortSignal: this.signal });
       } catch (error: any) {
           if (error.statusCode === 410) {
               // Connection is stale, handle cleanup
@@ -0,0 +1,137 @@
+/**
+ * CORS policy shared by the lambda base classes, the `errorHandler` middleware and
+ * `ApiGatewayStack`, so the preflight answered by API Gateway matches the runtime headers
+ */
+export interface CorsPolicy {
+  /** `"*"`, a list of origins such as `https://app.example.com`, or a pattern matched against the `Origin` */
+  allowOrigins?: "*" | string[] | RegExp;
+  allowMethods?: string[];
+  allowHeaders?: string[];
+  /** Response headers readable by browser scripts (default: `DEFAULT_CORS_EXPOSE_HEADERS`) */
+  exposeHeaders?: string[];
+  /** Seconds browsers may cache a preflight response */
+  maxAge?: number;
+  /** Allow cookies and `Authorization` headers. Ignored for `"*"`, which browsers reject with credentials. */
+  allowCredentials?: boolean;
+}
+
+export const DEFAULT_CORS_METHODS = ["OPTIONS", "GET", "PUT", "POST", "DELETE", "PATCH", "HEAD"];
+
+export const DEFAULT_CORS_HEADERS = ["Content-Type", "Authorization", "X-Amz-Date", "X-Api-Key", "If-Match"];
+
+/**
+ * `ETag` carries the item version that versioned routes expect back in `If-Match`
+ */
+export const DEFAULT_CORS_EXPOSE_HEADERS = ["ETag"];
+
+/**
+ * Any origin, without credentials
+ */
+export const defaultCorsPolicy: CorsPolicy = { allowOrigins: "*" };
+
+export function isWildcardOrigin(policy: CorsPolicy): boolean {
+    const { allowOrigins } = policy;
+    return !allowOrigins || allowOrigins === "*" || (Array.isArray(allowOrigins) && allowOrigins.includes("*"));
+}
+
+export function isOriginAllowed(policy: CorsPolicy, origin?: string): boolean {
+    if (isWildcardOrigin(policy)) return true;
+    if (!origin) return false;
+
+    const { allowOrigins } = policy;
+    return allowOrigins instanceof RegExp ? allowOrigins.test(origin) : (allowOrigins as string[]).includes(origin);
+}
+
+/**
+ * Returns the CORS headers of a response to a request with the given lower-cased headers.
+ * A matching `Origin` is echoed; requests from other origins get no `Access-Control-Allow-Origin`.
+ */
+export function getCorsHeaders(policy: CorsPolicy, requestHeaders: Record<string, string>): Record<string, string> {
+    const origin = requestHeaders.origin;
+    const exposeHeaders = policy.exposeHeaders || DEFAULT_CORS_EXPOSE_HEADERS;
+
+    if (isWildcardOrigin(policy)) {
+        return {
+            "Access-Control-Allow-Origin": "*",
+            ...(exposeHeaders.length && { "Access-Control-Expose-Headers": exposeHeaders.join(", ") }),
+        };
+    }
+
+    // Caches must not serve a response echoing one origin to another
+    const headers: Record<string, string> = { Vary: "Origin" };
+
+    if (origin && isOriginAllowed(policy, origin)) {
+        headers["Access-Control-Allow-Origin"] = origin;
+
+        if (policy.allowCredentials) {
+            headers["Access-Control-Allow-Credentials"] = "true";
+        }
+
+        if (exposeHeaders.length) {
+            headers["Access-Control-Expose-Headers"] = exposeHeaders.join(", ");
+        }
+    }
+
+    return headers;
+}
+
+/**
+ * Whether the request is a CORS preflight: an `OPTIONS` request with `Access-Control-Request-Method`
+ */
+export function isPreflightRequest(method: string | undefined, requestHeaders: Record<string, string>): boolean {
+    return method?.toUpperCase() === "OPTIONS" && Boolean(requestHeaders["access-control-request-method"]);
+}
+
+/**
+ * Returns the headers of the `204` response to a preflight request
+ */
+export function getPreflightHeaders(policy: CorsPolicy, requestHeaders: Record<string, string>): Record<string, string> {
+    const headers = getCorsHeaders(policy, requestHeaders);
+    delete headers["Access-Control-Expose-Headers"];
+
+    if (!headers["Access-Control-Allow-Origin"]) {
+        return headers;
+    }
+
+    return {
+        ...headers,
+        "Access-Control-Allow-Methods": (policy.allowMethods || DEFAULT_CORS_METHODS).join(", "),
+        "Access-Control-Allow-Headers": (policy.allowHeaders || DEFAULT_CORS_HEADERS).join(", "),
+        ...(policy.maxAge !== undefined && { "Access-Control-Max-Age": String(policy.maxAge) }),
+    };
+}
+
+/**
+ * Adds the CORS headers to a response's headers, replacing hard-coded ones and merging `Vary`
+ */
+export function applyCorsHeaders(
+    headers: Record<string, string | number | boolean> | undefined,
+    policy: CorsPolicy,
+    requestHeaders: Record<string, string>
+): Record<string, string | number | boolean> {
+    const result = Object.fromEntries(Object.entries(headers || {})
+        .filter(([name]) => !name.toLowerCase().startsWith("access-control-")));
+    const cors = getCorsHeaders(policy, requestHeaders);
+
+    if (cors.Vary) {
+        const varyKey = Object.keys(result).find(name => name.toLowerCase() === "vary") || "Vary";
+        const vary = result[varyKey] ? String(result[varyKey]).split(",").map(value => value.trim()) : [];
+        cors.Vary = Array.from(new Set([...vary, cors.Vary])).join(", ");
+        delete result[varyKey];
+    }
+
+    return { ...result, ...cors };
+}
+
+/**
+ * Drops undefined values and lower-cases the keys, e.g. of request headers
+ */
+export function lowerCaseKeys(values?: Record<string, string | undefined> | null): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(values || {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+            result[key.toLowerCase()] = value;
+        }
+    });
+    return result;
+}
@@ -0,0 +1,450 @@
+import { DynamoDBService, PageOptions, PaginatedResult } from "./dynamodb";
+import { Condition, expr } from "./dynamodb-expressions";
+import { ConflictError, FieldError, NotFoundError } from "./error-handler";
+import { ObjectOutput, ObjectSchema, ObjectShape, ValidationError } from "./schema";
+
+/**
+ * Templates of a key's attributes, such as `POST#{postId}`, whose `{placeholders}` name
+ * attributes of the entity
+ */
+export interface KeyTemplates {
+  partitionKey: string;
+  sortKey?: string;
+}
+
+export interface IndexTemplates extends KeyTemplates {
+  /** Defaults to `<indexName>PK`, e.g. `GSI1PK` */
+  partitionKeyAttribute?: string;
+  /** Defaults to `<indexName>SK`, e.g. `GSI1SK` */
+  sortKeyAttribute?: string;
+}
+
+/**
+ * Names of the `{placeholders}` of a key template
+ */
+export type TemplateFields<TTemplate> =
+    TTemplate extends `${string}{${infer Field}}${infer Rest}`
+        ? Field | TemplateFields<Rest>
+        : never;
+
+export type EntityKeyFields<TKey extends KeyTemplates> = TemplateFields<TKey["partitionKey"]> | TemplateFields<TKey["sortKey"]>;
+
+type TimestampFields = "createdAt" | "updatedAt";
+
+export interface EntityDefinition<TShape extends ObjectShape, TKey extends KeyTemplates, TDefaults extends keyof ObjectOutput<TShape>> {
+  /** Stored in the type attribute, which keeps entities sharing a partition apart */
+  name: string;
+  /** Attributes of the entity, validated on every write */
+  attributes: ObjectSchema<TShape>;
+  key: TKey;
+  /** Global secondary indexes by name, e.g. `{ GSI1: { partitionKey: "USER#{userId}", sortKey: "POST#{createdAt}" } }` */
+  indexes?: Record<string, IndexTemplates>;
+  /** Values of attributes missing on `create`, or functions generating them such as ids */
+  defaults?: { [K in TDefaults]: ObjectOutput<TShape>[K] | (() => ObjectOutput<TShape>[K]) };
+  /** Set `createdAt` on create and `updatedAt` on every write, as ISO strings (default: true) */
+  timestamps?: boolean;
+  /** Attribute names of the table's key (default: `PK` and `SK`) */
+  keyAttributes?: { partitionKey: string; sortKey?: string };
+  /** Attribute holding `name`, `false` for none (default: `entityType`) */
+  typeAttribute?: string | false;
+}
+
+/**
+ * An entity stored in a single-table design: its attributes, and the templates its table and
+ * index keys are built from
+ */
+export class Entity<
+    TShape extends ObjectShape,
+    const TKey extends KeyTemplates,
+    TDefaults extends keyof ObjectOutput<TShape> = never
+> {
+    readonly name: string;
+
+    constructor(readonly definition: EntityDefinition<TShape, TKey, TDefaults>) {
+        this.name = definition.name;
+    }
+
+    get keyAttributes(): { partitionKey: string; sortKey?: string } {
+        return this.definition.keyAttributes || { partitionKey: "PK", sortKey: "SK" };
+    }
+
+    get typeAttribute(): string | undefined {
+        return this.definition.typeAttribute === false ? undefined : this.definition.typeAttribute || "entityType";
+    }
+
+    /**
+     * Builds the table key of an item
+     */
+    key(values: Record<string, unknown>): Record<string, string> {
+        return this.buildKey(this.definition.key, this.keyAttributes, values);
+    }
+
+    /**
+     * Builds the key attributes of an index for an item
+     */
+    indexKey(indexName: string, values: Record<string, unknown>): Record<string, string> {
+        return this.buildKey(this.getIndex(indexName), this.indexAttributes(indexName), values);
+    }
+
+    /**
+     * Adds the table and index keys and the type attribute to the attributes of an item
+     */
+    toItem(data: Record<string, unknown>): Record<string, unknown> {
+        const indexKeys = Object.keys(this.definition.indexes || {})
+            .filter(indexName => this.hasTemplateFields(this.getIndex(indexName), data))
+            .map(indexName => this.indexKey(indexName, data));
+
+        return {
+            ...data,
+            ...Object.assign({}, ...indexKeys),
+            ...this.key(data),
+            ...(this.typeAttribute && { [this.typeAttribute]: this.name }),
+        };
+    }
+
+    /**
+     * Strips the key and type attributes from a stored item
+     */
+    fromItem(item: Record<string, unknown>): ObjectOutput<TShape> {
+        const stored = new Set(this.storedAttributes());
+        return Object.fromEntries(Object.entries(item).filter(([name]) => !stored.has(name))) as ObjectOutput<TShape>;
+    }
+
+    /**
+     * Key condition matching the items whose templates are filled by `values`: equality for a
+     * complete template, `begins_with` with the text before the first missing placeholder otherwise.
+     * Fails with a `ValidationError` when `values` lack an attribute of the partition key.
+     */
+    keyCondition(values: Record<string, unknown>, indexName?: string): Condition {
+        const templates = indexName ? this.getIndex(indexName) : this.definition.key;
+        const attributes = indexName ? this.indexAttributes(indexName) : this.keyAttributes;
+
+        const missingPartition = templateFields(templates.partitionKey).filter(field => values[field] === undefined);
+        if (missingPartition.length > 0) {
+            throw new ValidationError(missingPartition.map(field => ({ field, message: "is required", code: "required" })));
+        }
+
+        const partition = expr.attr(attributes.partitionKey).eq(fillTemplate(templates.partitionKey, values));
+
+        if (!templates.sortKey || !attributes.sortKey) {
+            return partition;
+        }
+
+        const missing = templateFields(templates.sortKey).find(field => values[field] === undefined);
+        if (!missing) {
+            return partition.and(expr.attr(attributes.sortKey).eq(fillTemplate(templates.sortKey, values)));
+        }
+
+        const prefix = templates.sortKey.slice(0, templates.sortKey.indexOf(`{${missing}}`));
+        return prefix
+            ? partition.and(expr.attr(attributes.sortKey).beginsWith(fillTemplate(prefix, values)))
+            : partition;
+    }
+
+    getIndex(indexName: string): IndexTemplates {
+        const index = this.definition.indexes?.[indexName];
+        if (!index) {
+            throw new Error(`Entity ${this.name} has no index ${indexName}`);
+        }
+        return index;
+    }
+
+    /**
+     * Names of the key attributes of an index, e.g. `GSI1PK` and `GSI1SK`
+     */
+    indexAttributes(indexName: string): { partitionKey: string; sortKey?: string } {
+        const index = this.getIndex(indexName);
+        return {
+            partitionKey: index.partitionKeyAttribute || `${indexName}PK`,
+            sortKey: index.sortKey ? index.sortKeyAttribute || `${indexName}SK` : undefined,
+        };
+    }
+
+    private storedAttributes(): string[] {
+        const keyAttributes = [this.keyAttributes, ...Object.keys(this.definition.indexes || {}).map(name => this.indexAttributes(name))]
+            .flatMap(({ partitionKey, sortKey }) => (sortKey ? [partitionKey, sortKey] : [partitionKey]));
+
+        return this.typeAttribute ? [...keyAttributes, this.typeAttribute] : keyAttributes;
+    }
+
+    private hasTemplateFields(templates: KeyTemplates, values: Record<string, unknown>): boolean {
+        return keyTemplateFields(templates)
+            .every(field => values[field] !== undefined);
+    }
+
+    private buildKey(
+        templates: KeyTemplates,
+        attributes: { partitionKey: string; sortKey?: string },
+        values: Record<string, unknown>
+    ): Record<string, string> {
+        const missing = keyTemplateFields(templates)
+            .filter(field => values[field] === undefined);
+
+        if (missing.length > 0) {
+            throw new Error(`Building the key of ${this.name} requires ${missing.join(", ")}`);
+        }
+
+        return {
+            [attributes.partitionKey]: fillTemplate(templates.partitionKey, values),
+            ...(templates.sortKey && attributes.sortKey && { [attributes.sortKey]: fillTemplate(templates.sortKey, values) }),
+        };
+    }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyEntity = Entity<any, KeyTemplates, any>;
+
+type EntityItem<TEntity> = TEntity extends Entity<infer TShape, KeyTemplates, never> ? ObjectOutput<TShape> : never;
+
+type EntityKeyTemplates<TEntity> = TEntity extends Entity<ObjectShape, infer TKey, never> ? TKey : never;
+
+type EntityDefaults<TEntity> = TEntity extends Entity<ObjectShape, KeyTemplates, infer TDefaults> ? TDefaults : never;
+
+/**
+ * Attributes identifying one item, e.g. `{ postId }`
+ */
+export type EntityKey<TEntity extends AnyEntity> =
+    Pick<EntityItem<TEntity>, EntityKeyFields<EntityKeyTemplates<TEntity>> & keyof EntityItem<TEntity>>;
+
+export type EntityCreateInput<TEntity extends AnyEntity> =
+    Omit<EntityItem<TEntity>, EntityDefaults<TEntity> | TimestampFields> &
+    Partial<Pick<EntityItem<TEntity>, EntityDefaults<TEntity> & keyof EntityItem<TEntity>>>;
+
+/**
+ * Changed attributes; `undefined` removes an attribute. Key attributes cannot change.
+ */
+export type EntityChanges<TEntity extends AnyEntity> =
+    Partial<Omit<EntityItem<TEntity>, EntityKeyFields<EntityKeyTemplates<TEntity>> | TimestampFields>>;
+
+export interface EntityQueryOptions extends PageOptions {
+  /** Newest first for ISO timestamps in the sort key (default: false) */
+  descending?: boolean;
+  filter?: Condition;
+}
+
+export interface EntityRepositoryOptions {
+  tableName: string;
+  service?: DynamoDBService;
+}
+
+/**
+ * Typed reads and writes of one entity in a single-table design. Items are validated against
+ * the entity's attributes, stored with their keys, and returned without them.
+ */
+export class EntityRepository<TEntity extends AnyEntity> {
+    private tableName: string;
+    private service: DynamoDBService;
+
+    constructor(private readonly entity: TEntity, options: EntityRepositoryOptions) {
+        this.tableName = options.tableName;
+        this.service = options.service || new DynamoDBService();
+    }
+
+    async get(key: EntityKey<TEntity>): Promise<EntityItem<TEntity> | null> {
+        const item = await this.service.get<Record<string, unknown>>({
+            TableName: this.tableName,
+            Key: this.entity.key(key),
+        });
+
+        return item && this.isEntityItem(item) ? this.entity.fromItem(item) as EntityItem<TEntity> : null;
+    }
+
+    /**
+     * Creates the item, failing with a `ConflictError` when an item with its key exists
+     */
+    async create(input: EntityCreateInput<TEntity>): Promise<EntityItem<TEntity>> {
+        const { defaults = {}, timestamps = true } = this.entity.definition;
+        const now = new Date().toISOString();
+        const generated = Object.fromEntries(Object.entries(defaults as Record<string, unknown>)
+            .map(([name, value]) => [name, typeof value === "function" ? value() : value]));
+        const times = timestamps ? { createdAt: now, updatedAt: now } : {};
+        const given = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+
+        // Timestamps are kept even when the attributes do not declare them
+        const data = { ...this.entity.definition.attributes.parse({ ...generated, ...given, ...times }), ...times };
+
+        try {
+            await this.service.put({
+                TableName: this.tableName,
+                Item: this.entity.toItem(data),
+                expressions: { condition: expr.notExists(this.entity.keyAttributes.partitionKey) },
+            });
+        } catch (error) {
+            if ((error as Error).name === "ConditionalCheckFailedException") {
+                throw new ConflictError(`${this.entity.name} already exists`, { code: "ALREADY_EXISTS" });
+            }
+            throw error;
+        }
+
+        return data as EntityItem<TEntity>;
+    }
+
+    /**
+     * Applies the changes to an existing item, failing with a `NotFoundError` when there is none.
+     * Index keys built from changed attributes are rebuilt, reading the other attributes of their
+     * templates from the stored item. The item leaves an index whose attributes it no longer has.
+     */
+    async update(key: EntityKey<TEntity>, changes: EntityChanges<TEntity>): Promise<EntityItem<TEntity>> {
+        const values = { ...changes } as Record<string, unknown>;
+        this.validateChanges(values);
+
+        if (this.entity.definition.timestamps !== false) {
+            values.updatedAt = new Date().toISOString();
+        }
+
+        const update = expr.update();
+        Object.entries(values).forEach(([name, value]) => (value === undefined ? update.remove(name) : update.set(name, value)));
+
+        const changed = Object.keys(changes);
+        const indexes = Object.entries(this.entity.definition.indexes || {})
+            .filter(([, templates]) => keyTemplateFields(templates).some(field => changed.includes(field)));
+
+        let known: Record<string, unknown> = { ...key, ...values };
+        if (indexes.some(([, templates]) => keyTemplateFields(templates).some(field => !(field in known)))) {
+            known = { ...await this.getStoredAttributes(key), ...known };
+        }
+
+        indexes.forEach(([indexName, templates]) => {
+            if (keyTemplateFields(templates).every(field => known[field] !== undefined)) {
+                Object.entries(this.entity.indexKey(indexName, known)).forEach(([name, value]) => update.set(name, value));
+            } else {
+                const { partitionKey, sortKey } = this.entity.indexAttributes(indexName);
+                update.remove(...(sortKey ? [partitionKey, sortKey] : [partitionKey]));
+            }
+        });
+
+        try {
+            const result = await this.service.update({
+                TableName: this.tableName,
+                Key: this.entity.key(key),
+                ReturnValues: "ALL_NEW",
+                expressions: { update, condition: this.existsCondition() },
+            });
+
+            return this.entity.fromItem(result.Attributes || {}) as EntityItem<TEntity>;
+        } catch (error) {
+            if ((error as Error).name === "ConditionalCheckFailedException") {
+                throw new NotFoundError(`${this.entity.name} not found`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes the item and returns it, or `null` when there was none
+     */
+    async delete(key: EntityKey<TEntity>): Promise<EntityItem<TEntity> | null> {
+        try {
+            const result = await this.service.delete({
+                TableName: this.tableName,
+                Key: this.entity.key(key),
+                ReturnValues: "ALL_OLD",
+                ...(this.entity.typeAttribute && {
+                    expressions: { condition: expr.notExists(this.entity.keyAttributes.partitionKey).or(this.existsCondition()) },
+                }),
+            });
+
+            return result.Attributes ? this.entity.fromItem(result.Attributes) as EntityItem<TEntity> : null;
+        } catch (error) {
+            // Another entity type stored under the key
+            if ((error as Error).name === "ConditionalCheckFailedException") {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Lists the entity's items in a partition, e.g. the comments of a post with `{ postId }`,
+     * narrowed by the leading sort key attributes given
+     */
+    async list(values: Partial<EntityItem<TEntity>>, options: EntityQueryOptions = {}): Promise<PaginatedResult<EntityItem<TEntity>>> {
+        return await this.query(values, options);
+    }
+
+    /**
+     * Queries a global secondary index, e.g. the posts of a user with `("GSI1", { userId })`
+     */
+    async queryIndex(
+        indexName: string,
+        values: Partial<EntityItem<TEntity>>,
+        options: EntityQueryOptions = {}
+    ): Promise<PaginatedResult<EntityItem<TEntity>>> {
+        return await this.query(values, options, indexName);
+    }
+
+    private async query(
+        values: Record<string, unknown>,
+        options: EntityQueryOptions,
+        indexName?: string
+    ): Promise<PaginatedResult<EntityItem<TEntity>>> {
+        const { descending, filter, ...page } = options;
+        const typeFilter = this.entity.typeAttribute ? expr.attr(this.entity.typeAttribute).eq(this.entity.name) : undefined;
+        const combined = typeFilter && filter ? typeFilter.and(filter) : typeFilter || filter;
+
+        const result = await this.service.queryPage<Record<string, unknown>>({
+            TableName: this.tableName,
+            ...(indexName && { IndexName: indexName }),
+            ...(descending && { ScanIndexForward: false }),
+            expressions: { keyCondition: this.entity.keyCondition(values, indexName), filter: combined },
+        }, page);
+
+        return { ...result, items: result.items.map(item => this.entity.fromItem(item) as EntityItem<TEntity>) };
+    }
+
+    private validateChanges(changes: Record<string, unknown>): void {
+        const { shape } = this.entity.definition.attributes;
+        const keyFields = keyTemplateFields(this.entity.definition.key);
+        const errors: FieldError[] = [];
+
+        Object.entries(changes).forEach(([name, value]) => {
+            const attribute = shape[name];
+
+            if (!attribute) {
+                errors.push({ field: name, message: "is not an attribute", code: "unknown_attribute" });
+            } else if (keyFields.includes(name)) {
+                errors.push({ field: name, message: "is part of the key and cannot change", code: "immutable" });
+            } else if (value !== undefined || attribute.isRequired()) {
+                const result = attribute.safeParse(value, { path: name });
+                if (result.success) {
+                    changes[name] = result.data;
+                } else {
+                    errors.push(...result.errors);
+                }
+            }
+        });
+
+        if (errors.length > 0) {
+            throw new ValidationError(errors);
+        }
+    }
+
+    private async getStoredAttributes(key: EntityKey<TEntity>): Promise<Record<string, unknown>> {
+        const item = await this.get(key);
+        if (!item) {
+            throw new NotFoundError(`${this.entity.name} not found`);
+        }
+        return item as Record<string, unknown>;
+    }
+
+    private existsCondition(): Condition {
+        const exists = expr.exists(this.entity.keyAttributes.partitionKey);
+        return this.entity.typeAttribute ? exists.and(expr.attr(this.entity.typeAttribute).eq(this.entity.name)) : exists;
+    }
+
+    private isEntityItem(item: Record<string, unknown>): boolean {
+        return !this.entity.typeAttribute || item[this.entity.typeAttribute] === this.entity.name;
+    }
+}
+
+function keyTemplateFields(templates: KeyTemplates): string[] {
+    return [templates.partitionKey, templates.sortKey || ""].flatMap(templateFields);
+}
+
+function templateFields(template: string): string[] {
+    return Array.from(template.matchAll(/\{([^}]+)\}/g), ([, field]) => field);
+}
+
+function fillTemplate(template: string, values: Record<string, unknown>): string {
+    return template.replace(/\{([^}]+)\}/g, (_, field: string) => String(values[field]));
+}
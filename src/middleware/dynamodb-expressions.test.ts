@@ -0,0 +1,99 @@
+import { buildExpressions, expr, mergeExpressions } from "./dynamodb-expressions";
+
+interface Post {
+  title: string;
+  views: number;
+  tags: string[];
+  author: { name: string; city: string };
+  labels: Set<string>;
+}
+
+describe("buildExpressions", () => {
+    test("renders updates with one clause per action and shared placeholders", () => {
+        const update = expr.update<Post>()
+            .set("title", "Hello")
+            .set("views", expr.attr<Post>("views").plus(1))
+            .appendToList("tags", ["new"])
+            .remove("author.city")
+            .add("views", 2)
+            .delete("labels", new Set(["draft"]));
+
+        expect(buildExpressions({ update })).toEqual({
+            UpdateExpression: "SET #n0 = :v0, #n1 = #n1 + :v1, #n2 = list_append(if_not_exists(#n2, :v2), :v3) " +
+                "REMOVE #n3.#n4 ADD #n1 :v4 DELETE #n5 :v5",
+            ExpressionAttributeNames: { "#n0": "title", "#n1": "views", "#n2": "tags", "#n3": "author", "#n4": "city", "#n5": "labels" },
+            ExpressionAttributeValues: { ":v0": "Hello", ":v1": 1, ":v2": [], ":v3": ["new"], ":v4": 2, ":v5": new Set(["draft"]) },
+        });
+    });
+
+    test("parenthesizes nested AND and OR conditions", () => {
+        const condition = expr.attr("status").eq("published")
+            .and(expr.attr("views").gt(10).or(expr.exists("featured")))
+            .and(expr.not(expr.attr("tags[0]").in(["spam", "ads"])));
+
+        expect(buildExpressions({ condition })).toEqual({
+            ConditionExpression: "(#n0 = :v0 AND (#n1 > :v1 OR attribute_exists(#n2))) AND NOT (#n3[0] IN (:v2, :v3))",
+            ExpressionAttributeNames: { "#n0": "status", "#n1": "views", "#n2": "featured", "#n3": "tags" },
+            ExpressionAttributeValues: { ":v0": "published", ":v1": 10, ":v2": "spam", ":v3": "ads" },
+        });
+    });
+
+    test("numbers placeholders across all parts of the request", () => {
+        expect(buildExpressions({
+            keyCondition: expr.attr("PK").eq("POST#1").and(expr.attr("SK").beginsWith("COMMENT#")),
+            filter: expr.size("text").between(1, 280),
+            projection: ["SK", "text"],
+        })).toEqual({
+            KeyConditionExpression: "#n0 = :v0 AND begins_with(#n1, :v1)",
+            FilterExpression: "size(#n2) BETWEEN :v2 AND :v3",
+            ProjectionExpression: "#n1, #n2",
+            ExpressionAttributeNames: { "#n0": "PK", "#n1": "SK", "#n2": "text" },
+            ExpressionAttributeValues: { ":v0": "POST#1", ":v1": "COMMENT#", ":v2": 1, ":v3": 280 },
+        });
+    });
+
+    test("leaves out empty updates and placeholder maps", () => {
+        expect(buildExpressions({ update: expr.update(), condition: expr.notExists("PK") })).toEqual({
+            ConditionExpression: "attribute_not_exists(#n0)",
+            ExpressionAttributeNames: { "#n0": "PK" },
+        });
+    });
+
+    test("rejects invalid paths and empty lists", () => {
+        expect(() => buildExpressions({ condition: expr.exists("tags[x]") })).toThrow("Invalid attribute path: tags[x]");
+        expect(() => expr.attr("status").in([])).toThrow("IN requires at least one value");
+        expect(() => expr.and()).toThrow("AND requires at least one condition");
+    });
+});
+
+describe("mergeExpressions", () => {
+    test("combines conditions with the request's own using AND and keeps its placeholders", () => {
+        const merged = mergeExpressions({
+            TableName: "app",
+            ConditionExpression: "attribute_exists(PK) OR #s = :draft",
+            ExpressionAttributeNames: { "#s": "status" },
+            ExpressionAttributeValues: { ":draft": "draft" },
+        }, { condition: expr.attr("version").eq(3) });
+
+        expect(merged).toEqual({
+            TableName: "app",
+            ConditionExpression: "(attribute_exists(PK) OR #s = :draft) AND (#n0 = :v0)",
+            ExpressionAttributeNames: { "#s": "status", "#n0": "version" },
+            ExpressionAttributeValues: { ":draft": "draft", ":v0": 3 },
+        });
+    });
+
+    test("appends projections and returns the request unchanged without parts", () => {
+        const params = { TableName: "app", ProjectionExpression: "PK" };
+
+        expect(mergeExpressions(params)).toBe(params);
+        expect(mergeExpressions(params, { projection: ["title"] })).toMatchObject({ ProjectionExpression: "PK, #n0" });
+    });
+
+    test("refuses to replace an update expression or a placeholder of the request", () => {
+        expect(() => mergeExpressions({ UpdateExpression: "SET a = :a" }, { update: expr.update().set("b", 1) }))
+            .toThrow("The request defines an UpdateExpression already");
+        expect(() => mergeExpressions({ ExpressionAttributeValues: { ":v0": 1 } }, { filter: expr.attr("b").eq(2) }))
+            .toThrow("Expression placeholder :v0 is already defined by the request");
+    });
+});
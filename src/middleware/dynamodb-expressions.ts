@@ -0,0 +1,360 @@
+/**
+ * Attribute path of an item: a top-level attribute, or a nested one such as `address.city` or `tags[0]`
+ */
+export type AttributePath<T> =
+    | (keyof T & string)
+    | `${keyof T & string}.${string}`
+    | `${keyof T & string}[${number}]${string}`;
+
+export type PathValue<T, P> = P extends keyof T ? T[P] : unknown;
+
+export type AttributeType = "S" | "SS" | "N" | "NS" | "B" | "BS" | "BOOL" | "NULL" | "L" | "M";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyItem = Record<string, any>;
+
+type Render = (attributes: ExpressionAttributes) => string;
+
+/**
+ * Expression fragments to combine into one request, sharing their placeholders
+ */
+export interface ExpressionParts {
+  /** Any item type, so typed builders such as `expr.update<Post>()` are accepted */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  update?: UpdateExpression<any>;
+  condition?: Condition;
+  keyCondition?: Condition;
+  filter?: Condition;
+  projection?: string[];
+}
+
+export interface ExpressionInput {
+  UpdateExpression?: string;
+  ConditionExpression?: string;
+  KeyConditionExpression?: string;
+  FilterExpression?: string;
+  ProjectionExpression?: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, unknown>;
+}
+
+const PATH_SEGMENT = /^([^[\]]+)((?:\[\d+\])*)$/;
+
+/**
+ * Generates the `#n0` name and `:v0` value placeholders of an expression, reusing the
+ * placeholder of a name that appears several times
+ */
+export class ExpressionAttributes {
+    readonly names: Record<string, string> = {};
+    readonly values: Record<string, unknown> = {};
+    private nameIds = new Map<string, string>();
+    private valueCount = 0;
+
+    path(path: string): string {
+        return path.split(".").map(segment => {
+            const match = segment.match(PATH_SEGMENT);
+            if (!match) {
+                throw new Error(`Invalid attribute path: ${path}`);
+            }
+            const [, name, indexes] = match;
+            return `${this.name(name)}${indexes}`;
+        }).join(".");
+    }
+
+    name(name: string): string {
+        let placeholder = this.nameIds.get(name);
+        if (!placeholder) {
+            placeholder = `#n${this.nameIds.size}`;
+            this.nameIds.set(name, placeholder);
+            this.names[placeholder] = name;
+        }
+        return placeholder;
+    }
+
+    value(value: unknown): string {
+        const placeholder = `:v${this.valueCount++}`;
+        this.values[placeholder] = value;
+        return placeholder;
+    }
+
+    operand(value: unknown): string {
+        return value instanceof Operand ? value.render(this) : this.value(value);
+    }
+}
+
+/**
+ * Condition, key condition or filter expression
+ */
+export class Condition {
+    /** `compound` marks AND and OR conditions, which are parenthesized when nested */
+    constructor(private readonly renderFn: Render, readonly compound = false) {}
+
+    and(...conditions: Condition[]): Condition {
+        return expr.and(this, ...conditions);
+    }
+
+    or(...conditions: Condition[]): Condition {
+        return expr.or(this, ...conditions);
+    }
+
+    not(): Condition {
+        return expr.not(this);
+    }
+
+    render(attributes: ExpressionAttributes): string {
+        return this.renderFn(attributes);
+    }
+}
+
+/**
+ * Attribute, function or arithmetic operand. Comparisons take a value or another operand.
+ */
+export class Operand {
+    constructor(private readonly renderFn: Render) {}
+
+    eq(value: unknown): Condition {
+        return this.compare("=", value);
+    }
+
+    ne(value: unknown): Condition {
+        return this.compare("<>", value);
+    }
+
+    lt(value: unknown): Condition {
+        return this.compare("<", value);
+    }
+
+    lte(value: unknown): Condition {
+        return this.compare("<=", value);
+    }
+
+    gt(value: unknown): Condition {
+        return this.compare(">", value);
+    }
+
+    gte(value: unknown): Condition {
+        return this.compare(">=", value);
+    }
+
+    between(low: unknown, high: unknown): Condition {
+        return new Condition(attributes =>
+            `${this.render(attributes)} BETWEEN ${attributes.operand(low)} AND ${attributes.operand(high)}`);
+    }
+
+    in(values: unknown[]): Condition {
+        if (values.length === 0) {
+            throw new Error("IN requires at least one value");
+        }
+        return new Condition(attributes =>
+            `${this.render(attributes)} IN (${values.map(value => attributes.operand(value)).join(", ")})`);
+    }
+
+    beginsWith(prefix: string): Condition {
+        return new Condition(attributes => `begins_with(${this.render(attributes)}, ${attributes.operand(prefix)})`);
+    }
+
+    contains(value: unknown): Condition {
+        return new Condition(attributes => `contains(${this.render(attributes)}, ${attributes.operand(value)})`);
+    }
+
+    plus(value: unknown): Operand {
+        return new Operand(attributes => `${this.render(attributes)} + ${attributes.operand(value)}`);
+    }
+
+    minus(value: unknown): Operand {
+        return new Operand(attributes => `${this.render(attributes)} - ${attributes.operand(value)}`);
+    }
+
+    render(attributes: ExpressionAttributes): string {
+        return this.renderFn(attributes);
+    }
+
+    private compare(operator: string, value: unknown): Condition {
+        return new Condition(attributes => `${this.render(attributes)} ${operator} ${attributes.operand(value)}`);
+    }
+}
+
+type UpdateAction = "SET" | "REMOVE" | "ADD" | "DELETE";
+
+/**
+ * Fluent `UpdateExpression` builder, typed by the item's attributes
+ */
+export class UpdateExpression<T extends AnyItem = AnyItem> {
+    private actions: Record<UpdateAction, Render[]> = { SET: [], REMOVE: [], ADD: [], DELETE: [] };
+
+    /**
+     * Sets an attribute to a value, or to an operand such as `expr.attr("count").plus(1)`
+     */
+    set<P extends AttributePath<T>>(path: P, value: PathValue<T, P> | Operand): this {
+        this.actions.SET.push(attributes => `${attributes.path(path)} = ${attributes.operand(value)}`);
+        return this;
+    }
+
+    /**
+     * Sets an attribute only when it does not exist yet
+     */
+    setIfNotExists<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): this {
+        return this.set(path, expr.ifNotExists(path, value));
+    }
+
+    /**
+     * Appends values to a list attribute, creating the list when it does not exist
+     */
+    appendToList<P extends AttributePath<T>>(path: P, values: unknown[], options: { prepend?: boolean } = {}): this {
+        const list = expr.ifNotExists(path, []);
+        return this.set(path, options.prepend ? expr.listAppend(values, list) : expr.listAppend(list, values));
+    }
+
+    /**
+     * Adds to a number, starting from 0, or adds elements to a set
+     */
+    add<P extends AttributePath<T>>(path: P, value: number | Set<unknown>): this {
+        this.actions.ADD.push(attributes => `${attributes.path(path)} ${attributes.value(value)}`);
+        return this;
+    }
+
+    remove(...paths: AttributePath<T>[]): this {
+        paths.forEach(path => this.actions.REMOVE.push(attributes => attributes.path(path)));
+        return this;
+    }
+
+    /**
+     * Removes elements from a set
+     */
+    delete<P extends AttributePath<T>>(path: P, values: Set<unknown>): this {
+        this.actions.DELETE.push(attributes => `${attributes.path(path)} ${attributes.value(values)}`);
+        return this;
+    }
+
+    /**
+     * Returns a new builder with the actions of both builders
+     */
+    merge(other: UpdateExpression<T>): UpdateExpression<T> {
+        const merged = new UpdateExpression<T>();
+        (Object.keys(this.actions) as UpdateAction[]).forEach(action => {
+            merged.actions[action] = [...this.actions[action], ...other.actions[action]];
+        });
+        return merged;
+    }
+
+    isEmpty(): boolean {
+        return Object.values(this.actions).every(clauses => clauses.length === 0);
+    }
+
+    render(attributes: ExpressionAttributes): string {
+        return (Object.entries(this.actions) as [UpdateAction, Render[]][])
+            .filter(([, clauses]) => clauses.length > 0)
+            .map(([action, clauses]) => `${action} ${clauses.map(clause => clause(attributes)).join(", ")}`)
+            .join(" ");
+    }
+}
+
+/**
+ * Expression builders
+ */
+export const expr = {
+    attr: <T extends AnyItem = AnyItem>(path: AttributePath<T>): Operand => new Operand(attributes => attributes.path(path)),
+    size: <T extends AnyItem = AnyItem>(path: AttributePath<T>): Operand => new Operand(attributes => `size(${attributes.path(path)})`),
+    ifNotExists: (path: string, value: unknown): Operand =>
+        new Operand(attributes => `if_not_exists(${attributes.path(path)}, ${attributes.operand(value)})`),
+    listAppend: (first: unknown[] | Operand, second: unknown[] | Operand): Operand =>
+        new Operand(attributes => `list_append(${attributes.operand(first)}, ${attributes.operand(second)})`),
+
+    exists: <T extends AnyItem = AnyItem>(path: AttributePath<T>): Condition =>
+        new Condition(attributes => `attribute_exists(${attributes.path(path)})`),
+    notExists: <T extends AnyItem = AnyItem>(path: AttributePath<T>): Condition =>
+        new Condition(attributes => `attribute_not_exists(${attributes.path(path)})`),
+    type: <T extends AnyItem = AnyItem>(path: AttributePath<T>, type: AttributeType): Condition =>
+        new Condition(attributes => `attribute_type(${attributes.path(path)}, ${attributes.value(type)})`),
+
+    and: (...conditions: Condition[]): Condition => combine("AND", conditions),
+    or: (...conditions: Condition[]): Condition => combine("OR", conditions),
+    not: (condition: Condition): Condition => new Condition(attributes => `NOT (${condition.render(attributes)})`),
+
+    update: <T extends AnyItem = AnyItem>(): UpdateExpression<T> => new UpdateExpression<T>(),
+};
+
+/**
+ * Renders expression fragments into request parameters, with the placeholders they use
+ */
+export function buildExpressions(parts: ExpressionParts): ExpressionInput {
+    const attributes = new ExpressionAttributes();
+    const input: ExpressionInput = {};
+
+    if (parts.update && !parts.update.isEmpty()) input.UpdateExpression = parts.update.render(attributes);
+    if (parts.condition) input.ConditionExpression = parts.condition.render(attributes);
+    if (parts.keyCondition) input.KeyConditionExpression = parts.keyCondition.render(attributes);
+    if (parts.filter) input.FilterExpression = parts.filter.render(attributes);
+    if (parts.projection?.length) input.ProjectionExpression = parts.projection.map(path => attributes.path(path)).join(", ");
+
+    // DynamoDB rejects empty placeholder maps
+    if (Object.keys(attributes.names).length > 0) input.ExpressionAttributeNames = attributes.names;
+    if (Object.keys(attributes.values).length > 0) input.ExpressionAttributeValues = attributes.values;
+
+    return input;
+}
+
+/**
+ * Adds built expressions to request parameters, keeping the expressions and placeholders the
+ * parameters already define. Conditions and filters are combined with `AND`.
+ */
+export function mergeExpressions<TInput extends ExpressionInput>(params: TInput, parts?: ExpressionParts): TInput {
+    if (!parts) {
+        return params;
+    }
+
+    const built = buildExpressions(parts);
+    const names = mergePlaceholders(params.ExpressionAttributeNames, built.ExpressionAttributeNames);
+    const values = mergePlaceholders(params.ExpressionAttributeValues, built.ExpressionAttributeValues);
+
+    if (params.UpdateExpression && built.UpdateExpression) {
+        throw new Error("The request defines an UpdateExpression already, use expressions.update only");
+    }
+
+    return {
+        ...params,
+        ...built,
+        ...andExpressions("ConditionExpression", params.ConditionExpression, built.ConditionExpression),
+        ...andExpressions("KeyConditionExpression", params.KeyConditionExpression, built.KeyConditionExpression),
+        ...andExpressions("FilterExpression", params.FilterExpression, built.FilterExpression),
+        ...(params.ProjectionExpression && built.ProjectionExpression && {
+            ProjectionExpression: `${params.ProjectionExpression}, ${built.ProjectionExpression}`,
+        }),
+        ...(names && { ExpressionAttributeNames: names }),
+        ...(values && { ExpressionAttributeValues: values }),
+    };
+}
+
+function andExpressions(key: keyof ExpressionInput, existing?: string, built?: string): ExpressionInput {
+    return existing && built ? { [key]: `(${existing}) AND (${built})` } : {};
+}
+
+function mergePlaceholders<TValue>(
+    existing?: Record<string, TValue>,
+    built?: Record<string, TValue>
+): Record<string, TValue> | undefined {
+    if (!existing || !built) {
+        return existing || built;
+    }
+
+    const conflict = Object.keys(built).find(placeholder => placeholder in existing);
+    if (conflict) {
+        throw new Error(`Expression placeholder ${conflict} is already defined by the request`);
+    }
+
+    return { ...existing, ...built };
+}
+
+function combine(operator: "AND" | "OR", conditions: Condition[]): Condition {
+    if (conditions.length === 0) {
+        throw new Error(`${operator} requires at least one condition`);
+    }
+
+    if (conditions.length === 1) {
+        return conditions[0];
+    }
+
+    return new Condition(attributes => conditions
+        .map(condition => condition.compound ? `(${condition.render(attributes)})` : condition.render(attributes))
+        .join(` ${operator} `), true);
+}
@@ -0,0 +1,203 @@
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { AttributeType } from "aws-cdk-lib/aws-dynamodb";
+import { InMemoryDynamoDB } from "../testing/in-memory-dynamodb";
+import { BatchIncompleteError, DynamoDBService } from "./dynamodb";
+import { expr } from "./dynamodb-expressions";
+import { BadRequestError, VersionConflictError } from "./error-handler";
+
+const table = {
+    tableName: "app",
+    partitionKey: { name: "PK", type: AttributeType.STRING },
+    sortKey: { name: "SK", type: AttributeType.STRING },
+};
+
+function queryPosts(userId: string) {
+    return {
+        TableName: "app",
+        KeyConditionExpression: "PK = :pk",
+        ExpressionAttributeValues: { ":pk": `USER#${userId}` },
+    };
+}
+
+describe("DynamoDBService", () => {
+    describe("pagination cursors", () => {
+        const db = new InMemoryDynamoDB({ tables: [table] });
+        const service = new DynamoDBService({ documentClient: db.documentClient, cursorSecret: "test-secret" });
+
+        beforeEach(() => {
+            db.reset();
+            db.seed("app", ["1", "2", "3"].flatMap(id => [
+                { PK: "USER#a", SK: `POST#${id}` },
+                { PK: "USER#b", SK: `POST#${id}` },
+            ]));
+        });
+
+        test("resumes the listing from the cursor of the previous page", async () => {
+            const first = await service.queryPage<{ SK: string }>(queryPosts("a"), { limit: 2 });
+            const second = await service.queryPage<{ SK: string }>(queryPosts("a"), { limit: 2, cursor: first.nextCursor });
+
+            expect(first.items.map(item => item.SK)).toEqual(["POST#1", "POST#2"]);
+            expect(second.items.map(item => item.SK)).toEqual(["POST#3"]);
+            expect(second.nextCursor).toBeUndefined();
+        });
+
+        test("rejects altered cursors", async () => {
+            const { nextCursor } = await service.queryPage(queryPosts("a"), { limit: 1 });
+            const [, signature] = (nextCursor as string).split(".");
+            const forged = Buffer.from(JSON.stringify({ PK: "USER#a", SK: "POST#2" })).toString("base64url");
+
+            await expect(service.queryPage(queryPosts("a"), { cursor: `${forged}.${signature}` }))
+                .rejects.toMatchObject({ statusCode: 400, code: "INVALID_CURSOR" });
+            await expect(service.queryPage(queryPosts("a"), { cursor: "not-a-cursor" })).rejects.toThrow(BadRequestError);
+        });
+
+        test("rejects a cursor replayed against another partition", async () => {
+            const { nextCursor } = await service.queryPage(queryPosts("a"), { limit: 1 });
+
+            await expect(service.queryPage(queryPosts("b"), { cursor: nextCursor }))
+                .rejects.toMatchObject({ code: "INVALID_CURSOR" });
+        });
+
+        test("binds cursors to the table, the index and the secret", () => {
+            const key = { PK: "USER#a", SK: "POST#1" };
+            const cursor = service.encodeCursor(key, queryPosts("a"));
+            const otherSecret = new DynamoDBService({ documentClient: db.documentClient, cursorSecret: "other-secret" });
+
+            expect(service.decodeCursor(cursor, queryPosts("a"))).toEqual(key);
+            expect(() => service.decodeCursor(cursor, { ...queryPosts("a"), IndexName: "GSI1" })).toThrow(BadRequestError);
+            expect(() => service.decodeCursor(cursor, { ...queryPosts("a"), TableName: "other" })).toThrow(BadRequestError);
+            expect(() => otherSecret.decodeCursor(cursor, queryPosts("a"))).toThrow(BadRequestError);
+        });
+
+        test("requires a secret, which may be loaded at runtime", () => {
+            const secrets: Record<string, string> = {};
+            const unsigned = new DynamoDBService({ documentClient: db.documentClient });
+            const lazy = new DynamoDBService({ documentClient: db.documentClient, cursorSecret: () => secrets.cursorSecret });
+
+            expect(() => unsigned.encodeCursor({ PK: "USER#a" }, queryPosts("a"))).toThrow(/cursorSecret/);
+            expect(() => lazy.encodeCursor({ PK: "USER#a" }, queryPosts("a"))).toThrow(/cursorSecret/);
+
+            secrets.cursorSecret = "test-secret";
+
+            expect(lazy.encodeCursor({ PK: "USER#a" }, queryPosts("a"))).toBe(service.encodeCursor({ PK: "USER#a" }, queryPosts("a")));
+        });
+    });
+
+    describe("versioned writes", () => {
+        const db = new InMemoryDynamoDB({ tables: [table] });
+        const service = new DynamoDBService({ documentClient: db.documentClient });
+        const key = { PK: "DOC#1", SK: "DOC" };
+
+        beforeEach(() => {
+            db.reset();
+            db.seed("app", [{ ...key, status: "draft", version: 3 }]);
+        });
+
+        test("fails with the stored item when the version differs", async () => {
+            const write = service.updateVersioned({ TableName: "app", Key: key, expressions: { update: expr.update().set("status", "final") } }, { expectedVersion: 2 });
+
+            await expect(write).rejects.toThrow(VersionConflictError);
+            await expect(write).rejects.toMatchObject({ currentVersion: 3, currentItem: { status: "draft" } });
+        });
+
+        test("rethrows failures of the caller's own condition", async () => {
+            const write = service.deleteVersioned({
+                TableName: "app",
+                Key: key,
+                expressions: { condition: expr.attr("status").eq("archived") },
+            }, { expectedVersion: 3 });
+
+            await expect(write).rejects.toMatchObject({ name: "ConditionalCheckFailedException" });
+            expect(db.getItems("app")).toHaveLength(1);
+        });
+
+        test("creates items only once without an expected version", async () => {
+            await expect(service.putVersioned({ TableName: "app", Item: { ...key, status: "new" } }))
+                .rejects.toMatchObject({ currentVersion: 3 });
+            await expect(service.putVersioned({ TableName: "app", Item: { PK: "DOC#2", SK: "DOC" } }))
+                .resolves.toMatchObject({ version: 1 });
+        });
+
+        test("does not create over an existing item without a version", async () => {
+            db.seed("app", [{ PK: "DOC#3", SK: "DOC", status: "legacy" }]);
+
+            const write = service.putVersioned({ TableName: "app", Item: { PK: "DOC#3", SK: "DOC", status: "new" } });
+
+            await expect(write).rejects.toThrow(VersionConflictError);
+            await expect(write).rejects.toMatchObject({ currentVersion: undefined, currentItem: { status: "legacy" } });
+            expect(db.getItems("app")).toContainEqual({ PK: "DOC#3", SK: "DOC", status: "legacy" });
+        });
+
+        test("requires the partition key attribute to create items", async () => {
+            await expect(service.putVersioned({ TableName: "app", Item: { id: "DOC#4" } })).rejects.toThrow(/partitionKey/);
+            expect(db.getItems("app")).toHaveLength(1);
+        });
+    });
+
+    describe("batches", () => {
+        const send = jest.fn();
+        const service = new DynamoDBService({ documentClient: { send } as unknown as DynamoDBDocumentClient });
+        const noDelay = { baseDelayMs: 0, maxDelayMs: 0 };
+
+        function puts(count: number) {
+            return Array.from({ length: count }, (_, index) => ({ PutRequest: { Item: { PK: `ITEM#${index}` } } }));
+        }
+
+        function sentRequestItems() {
+            return send.mock.calls.map(([command]) => command.input.RequestItems);
+        }
+
+        beforeEach(() => send.mockReset());
+
+        test("splits writes into requests of 25 items across tables", async () => {
+            send.mockResolvedValue({ UnprocessedItems: {}, $metadata: {} });
+
+            const result = await service.batchWrite({ RequestItems: { posts: puts(40), comments: puts(20) } });
+
+            expect(sentRequestItems().map(items => Object.values(items).flat().length)).toEqual([25, 25, 10]);
+            expect(Object.keys(sentRequestItems()[1])).toEqual(["posts", "comments"]);
+            expect(result.UnprocessedItems).toEqual({});
+        });
+
+        test("resends unprocessed items until they are written", async () => {
+            const [first, second] = puts(2);
+            send
+                .mockResolvedValueOnce({ UnprocessedItems: { posts: [second] }, $metadata: {} })
+                .mockResolvedValueOnce({ UnprocessedItems: {}, $metadata: {} });
+
+            await service.batchWrite({ RequestItems: { posts: [first, second] } }, noDelay);
+
+            expect(sentRequestItems()).toEqual([{ posts: [first, second] }, { posts: [second] }]);
+        });
+
+        test("fails with the items still unprocessed after the retries", async () => {
+            const [item] = puts(1);
+            send.mockResolvedValue({ UnprocessedItems: { posts: [item] }, $metadata: {} });
+
+            const write = service.batchWrite({ RequestItems: { posts: puts(3) } }, { ...noDelay, maxRetries: 2 });
+
+            await expect(write).rejects.toThrow(BatchIncompleteError);
+            await expect(write).rejects.toMatchObject({ operation: "BatchWrite", unprocessedCount: 1, unprocessed: { posts: [item] } });
+            expect(send).toHaveBeenCalledTimes(3);
+        });
+
+        test("reads keys in requests of 100 and retries unprocessed keys", async () => {
+            const keys = Array.from({ length: 150 }, (_, index) => ({ PK: `ITEM#${index}` }));
+            send.mockImplementation(async ({ input }) => {
+                const requested = input.RequestItems.posts.Keys as { PK: string }[];
+                const unprocessed = requested.length > 1 ? requested.slice(-1) : [];
+                return {
+                    Responses: { posts: requested.slice(0, requested.length - unprocessed.length) },
+                    // DynamoDB returns unprocessed keys with the table's read options
+                    UnprocessedKeys: unprocessed.length ? { posts: { ...input.RequestItems.posts, Keys: unprocessed } } : {},
+                };
+            });
+
+            const result = await service.batchGet<{ PK: string }>({ RequestItems: { posts: { Keys: keys, ConsistentRead: true } } }, { ...noDelay, concurrency: 1 });
+
+            expect(sentRequestItems().map(items => items.posts.Keys.length)).toEqual([100, 1, 50, 1]);
+            expect(sentRequestItems().every(items => items.posts.ConsistentRead)).toBe(true);
+            expect(result.posts.map(item => item.PK).sort()).toEqual(keys.map(key => key.PK).sort());
+        });
+    });
+});
@@ -1,4 +1,5 @@
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { createHmac, timingSafeEqual } from "crypto";
+import { AttributeValue, DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import {
     DynamoDBDocumentClient,
     GetCommand,
@@ -32,7 +33,10 @@ import {
     TransactGetCommandOutput,
     TransactWriteCommandOutput,
 } from "@aws-sdk/lib-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
 import middy from "middy";
+import { ExpressionParts, expr, mergeExpressions } from "./dynamodb-expressions";
+import { BadRequestError, VersionConflictError } from "./error-handler";
 import "../types/context";
 
 export interface DynamoDBOptions {
@@ -68,77 +72,403 @@ export const dynamoDb = (options: DynamoDBOptions = {}): middy.MiddlewareObject<
     };
 };
 
+export interface DynamoDBServiceOptions {
+  region?: string;
+  /** Client to send the commands with instead of a new one, e.g. `InMemoryDynamoDB.documentClient` in tests */
+  documentClient?: DynamoDBDocumentClient;
+  /**
+   * Aborts the service's requests, e.g. `() => this.signal` in a `BaseLambda` so that calls
+   * fail before the Lambda timeout. A function, since every invocation has its own signal.
+   */
+  abortSignal?: () => AbortSignal | undefined;
+  /**
+   * Key signing pagination cursors, defaults to the `PAGINATION_CURSOR_SECRET` environment variable.
+   * A function reads a key loaded at runtime, e.g. `() => this.context.secrets?.cursorSecret` with the `secretsManager` middleware.
+   */
+  cursorSecret?: string | (() => string | undefined);
+  /** Attribute holding the item version for the versioned writes (default: `version`) */
+  versionAttribute?: string;
+}
+
+export interface VersionedWriteOptions {
+  /**
+   * Version the stored item must have, e.g. from an `If-Match` header. Without it `putVersioned`
+   * only creates new items, and `updateVersioned` and `deleteVersioned` skip the check.
+   */
+  expectedVersion?: number;
+  /** Partition key attribute of the table, checked by `putVersioned` to only create new items (default: `PK`) */
+  partitionKey?: string;
+}
+
+export interface PageOptions {
+  /** Maximum number of items in the page */
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  /** Opaque cursor of the next page, absent on the last page */
+  nextCursor?: string;
+}
+
+/**
+ * Request parameters with expressions from the builders of `expr`, rendered into the request
+ */
+export type WithExpressions<TInput> = TInput & { expressions?: ExpressionParts };
+
+type DynamoDBKey = Record<string, unknown>;
+
+/** Parts of a request that a cursor is bound to */
+type CursorScope = Pick<QueryCommandInput,
+    "TableName" | "IndexName" | "KeyConditionExpression" | "ExpressionAttributeNames" | "ExpressionAttributeValues">;
+
+type BatchWriteRequestItems = NonNullable<BatchWriteCommandInput["RequestItems"]>;
+type BatchGetRequestItems = NonNullable<BatchGetCommandInput["RequestItems"]>;
+
+export interface BatchOptions {
+  /** Requests sent at once (default: 4) */
+  concurrency?: number;
+  /** Retries of unprocessed items or keys before failing (default: 8) */
+  maxRetries?: number;
+  /** Base of the exponential backoff between retries (default: 50 ms) */
+  baseDelayMs?: number;
+  /** Longest backoff between retries (default: 5000 ms) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Items or keys DynamoDB still left unprocessed after the retries of a batch, in the shape of
+ * `RequestItems` so they can be sent again
+ */
+export class BatchIncompleteError extends Error {
+    constructor(
+        public readonly operation: "BatchGet" | "BatchWrite",
+        public readonly unprocessed: BatchWriteRequestItems | BatchGetRequestItems,
+        public readonly unprocessedCount: number
+    ) {
+        super(`${operation} left ${unprocessedCount} item(s) unprocessed after retrying`);
+        this.name = "BatchIncompleteError";
+    }
+}
+
+export interface TransactionItemFailure {
+  /** Position of the item in `TransactItems` */
+  index: number;
+  /** e.g. `ConditionalCheckFailed`, `TransactionConflict` or `ValidationError` */
+  code: string;
+  message?: string;
+  operation: "Put" | "Update" | "Delete" | "ConditionCheck" | "Get";
+  tableName?: string;
+  /** Key of the item, or the whole item of a `Put` */
+  key?: Record<string, unknown>;
+  conditionExpression?: string;
+  /** Item as stored, returned for items with `ReturnValuesOnConditionCheckFailure: "ALL_OLD"` */
+  item?: Record<string, unknown>;
+}
+
+/**
+ * Transaction canceled by DynamoDB, with the items that caused it and why
+ */
+export class TransactionCanceledError extends Error {
+    constructor(public readonly failures: TransactionItemFailure[]) {
+        super(`Transaction canceled: ${failures.map(describeTransactionFailure).join("; ") || "no reason given"}`);
+        this.name = "TransactionCanceledError";
+    }
+}
+
+const BATCH_WRITE_LIMIT = 25;
+const BATCH_GET_LIMIT = 100;
+const TRANSACTION_LIMIT = 100;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+const DEFAULT_BATCH_RETRIES = 8;
+const DEFAULT_RETRY_BASE_DELAY_MS = 50;
+const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+const BACKOFF_FACTOR = 2;
+
 export class DynamoDBService {
     private documentClient: DynamoDBDocumentClient;
+    private abortSignal?: () => AbortSignal | undefined;
+    private cursorSecret: () => string | undefined;
+    private versionAttribute: string;
 
-    constructor(options: { region?: string } = {}) {
-        const client = new DynamoDBClient({
+    constructor(options: DynamoDBServiceOptions = {}) {
+        this.documentClient = options.documentClient || DynamoDBDocumentClient.from(new DynamoDBClient({
             region: options.region,
-        });
-        this.documentClient = DynamoDBDocumentClient.from(client);
+        }));
+        this.abortSignal = options.abortSignal;
+        const cursorSecret = options.cursorSecret || process.env.PAGINATION_CURSOR_SECRET;
+        this.cursorSecret = typeof cursorSecret === "function" ? cursorSecret : () => cursorSecret;
+        this.versionAttribute = options.versionAttribute || "version";
     }
 
-    async get<T>(params: GetCommandInput): Promise<T | null> {
-        const command = new GetCommand(params);
-        const result = await this.documentClient.send(command);
+    async get<T>(params: WithExpressions<GetCommandInput>): Promise<T | null> {
+        const command = new GetCommand(this.resolveExpressions(params));
+        const result = await this.documentClient.send(command, this.sendOptions());
         return (result.Item as T) || null;
     }
 
-    async put(params: PutCommandInput): Promise<PutCommandOutput> {
-        const command = new PutCommand(params);
-        return await this.documentClient.send(command);
+    async put(params: WithExpressions<PutCommandInput>): Promise<PutCommandOutput> {
+        const command = new PutCommand(this.resolveExpressions(params));
+        return await this.documentClient.send(command, this.sendOptions());
     }
 
-    async update(params: UpdateCommandInput): Promise<UpdateCommandOutput> {
-        const command = new UpdateCommand(params);
-        return await this.documentClient.send(command);
+    async update(params: WithExpressions<UpdateCommandInput>): Promise<UpdateCommandOutput> {
+        const command = new UpdateCommand(this.resolveExpressions(params));
+        return await this.documentClient.send(command, this.sendOptions());
     }
 
-    async delete(params: DeleteCommandInput): Promise<DeleteCommandOutput> {
-        const command = new DeleteCommand(params);
-        return await this.documentClient.send(command);
+    async delete(params: WithExpressions<DeleteCommandInput>): Promise<DeleteCommandOutput> {
+        const command = new DeleteCommand(this.resolveExpressions(params));
+        return await this.documentClient.send(command, this.sendOptions());
     }
 
-    async query<T>(params: QueryCommandInput): Promise<T[]> {
-        const command = new QueryCommand(params);
-        const result = await this.documentClient.send(command);
+    async query<T>(params: WithExpressions<QueryCommandInput>): Promise<T[]> {
+        const command = new QueryCommand(this.resolveExpressions(params));
+        const result = await this.documentClient.send(command, this.sendOptions());
         return (result.Items as T[]) || [];
     }
 
-    async scan<T>(params: ScanCommandInput): Promise<T[]> {
-        const command = new ScanCommand(params);
-        const result = await this.documentClient.send(command);
+    async scan<T>(params: WithExpressions<ScanCommandInput>): Promise<T[]> {
+        const command = new ScanCommand(this.resolveExpressions(params));
+        const result = await this.documentClient.send(command, this.sendOptions());
         return (result.Items as T[]) || [];
     }
 
-    async batchGet<T>(params: BatchGetCommandInput): Promise<Record<string, T[]>> {
-        const command = new BatchGetCommand(params);
-        const result = await this.documentClient.send(command);
+    /**
+     * Returns up to `limit` items and the cursor of the next page. Keeps reading when a filter
+     * leaves a page short, so only the last page has fewer than `limit` items.
+     */
+    async queryPage<T>(params: WithExpressions<QueryCommandInput>, options: PageOptions = {}): Promise<PaginatedResult<T>> {
+        const page = await this.readPage(this.resolveExpressions(params), options, input => this.documentClient.send(new QueryCommand(input), this.sendOptions()));
+        return page as PaginatedResult<T>;
+    }
+
+    async scanPage<T>(params: WithExpressions<ScanCommandInput>, options: PageOptions = {}): Promise<PaginatedResult<T>> {
+        const page = await this.readPage(this.resolveExpressions(params), options, input => this.documentClient.send(new ScanCommand(input), this.sendOptions()));
+        return page as PaginatedResult<T>;
+    }
+
+    /**
+     * Iterates over every item matching the query, reading the pages as needed
+     */
+    async *queryAll<T>(params: WithExpressions<QueryCommandInput>): AsyncGenerator<T> {
+        const input = this.resolveExpressions(params);
+        let ExclusiveStartKey = input.ExclusiveStartKey;
+        do {
+            const result = await this.documentClient.send(new QueryCommand({ ...input, ExclusiveStartKey }), this.sendOptions());
+            yield* (result.Items || []) as T[];
+            ExclusiveStartKey = result.LastEvaluatedKey;
+        } while (ExclusiveStartKey);
+    }
+
+    async *scanAll<T>(params: WithExpressions<ScanCommandInput>): AsyncGenerator<T> {
+        const input = this.resolveExpressions(params);
+        let ExclusiveStartKey = input.ExclusiveStartKey;
+        do {
+            const result = await this.documentClient.send(new ScanCommand({ ...input, ExclusiveStartKey }), this.sendOptions());
+            yield* (result.Items || []) as T[];
+            ExclusiveStartKey = result.LastEvaluatedKey;
+        } while (ExclusiveStartKey);
+    }
+
+    /**
+     * Encodes a `LastEvaluatedKey` as an opaque cursor, signed so clients cannot alter the key.
+     * The signature covers the table, the index and the key condition with its values, so a
+     * cursor only resumes the listing it came from.
+     */
+    encodeCursor(key: DynamoDBKey, params: CursorScope): string {
+        const payload = Buffer.from(JSON.stringify(key)).toString("base64url");
+        return `${payload}.${this.signCursor(payload, params)}`;
+    }
+
+    /**
+     * Decodes a cursor from `encodeCursor`, failing with a `400` when it is malformed or tampered with
+     */
+    decodeCursor(cursor: string, params: CursorScope): DynamoDBKey {
+        const [payload, signature] = cursor.split(".");
+        const expected = payload ? this.signCursor(payload, params) : "";
+
+        if (!signature || signature.length !== expected.length ||
+            !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+            throw new BadRequestError("Invalid pagination cursor", { code: "INVALID_CURSOR" });
+        }
+
+        try {
+            return JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as DynamoDBKey;
+        } catch (error) {
+            throw new BadRequestError("Invalid pagination cursor", { code: "INVALID_CURSOR" });
+        }
+    }
+
+    /**
+     * Writes the item with its version incremented, failing with a `VersionConflictError` that
+     * carries the stored item when another request wrote it first. Returns the written item.
+     */
+    async putVersioned<T extends Record<string, unknown>>(
+        params: WithExpressions<PutCommandInput>,
+        options: VersionedWriteOptions = {}
+    ): Promise<T> {
+        const { expectedVersion, partitionKey = "PK" } = options;
+        const item = { ...params.Item, [this.versionAttribute]: (expectedVersion ?? 0) + 1 };
+
+        // Items written before versioning have no version attribute, only the key tells whether one exists
+        if (expectedVersion === undefined && !(partitionKey in item)) {
+            throw new Error(`The item has no ${partitionKey} attribute, set the partitionKey option to the table's partition key`);
+        }
+
+        const createKey = expectedVersion === undefined ? partitionKey : undefined;
+
+        await this.writeVersioned(() => this.put({
+            ...params,
+            Item: item,
+            ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            expressions: { ...params.expressions, condition: this.versionCondition(params.expressions, expectedVersion, createKey) },
+        }), expectedVersion, createKey !== undefined);
+
+        return item as T;
+    }
+
+    /**
+     * Applies `expressions.update` and increments the version, failing with a `VersionConflictError`
+     * when the stored version differs from `expectedVersion`. Returns the updated item.
+     */
+    async updateVersioned<T extends Record<string, unknown>>(
+        params: WithExpressions<UpdateCommandInput>,
+        options: VersionedWriteOptions = {}
+    ): Promise<T> {
+        if (params.UpdateExpression) {
+            throw new Error("updateVersioned requires expressions.update instead of UpdateExpression");
+        }
+
+        const version = this.versionAttribute;
+        const increment = expr.update().set(version, expr.ifNotExists(version, 0).plus(1));
+        const update = params.expressions?.update ? params.expressions.update.merge(increment) : increment;
+
+        const result = await this.writeVersioned(() => this.update({
+            ReturnValues: "ALL_NEW",
+            ...params,
+            ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            expressions: { ...params.expressions, update, condition: this.versionCondition(params.expressions, options.expectedVersion) },
+        }), options.expectedVersion);
+
+        return result.Attributes as T;
+    }
+
+    /**
+     * Deletes the item unless its version differs from `expectedVersion`
+     */
+    async deleteVersioned(params: WithExpressions<DeleteCommandInput>, options: VersionedWriteOptions = {}): Promise<void> {
+        await this.writeVersioned(() => this.delete({
+            ...params,
+            ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            expressions: { ...params.expressions, condition: this.versionCondition(params.expressions, options.expectedVersion) },
+        }), options.expectedVersion);
+    }
+
+    /**
+     * Reads any number of keys in requests of 100, retrying unprocessed keys with backoff.
+     * Throws a `BatchIncompleteError` when keys are still unprocessed after the retries.
+     */
+    async batchGet<T>(params: BatchGetCommandInput, options: BatchOptions = {}): Promise<Record<string, T[]>> {
+        const { RequestItems = {}, ...input } = params;
+        const keys = Object.entries(RequestItems)
+            .flatMap(([tableName, request]) => (request.Keys || []).map(key => ({ tableName, key })));
 
         const response: Record<string, T[]> = {};
 
-        if (result.Responses) {
-            Object.keys(result.Responses).forEach(tableName => {
-                response[tableName] = result.Responses![tableName] as T[];
+        const requests = chunk(keys, BATCH_GET_LIMIT).map(entries => {
+            const requestItems: BatchGetRequestItems = {};
+            for (const { tableName, key } of entries) {
+                requestItems[tableName] = requestItems[tableName] || { ...RequestItems[tableName], Keys: [] };
+                requestItems[tableName].Keys!.push(key);
+            }
+            return requestItems;
+        });
+
+        const unprocessed = await this.sendBatches(requests, options, async requestItems => {
+            const result = await this.documentClient.send(new BatchGetCommand({ ...input, RequestItems: requestItems }), this.sendOptions());
+
+            Object.entries(result.Responses || {}).forEach(([tableName, items]) => {
+                response[tableName] = [...(response[tableName] || []), ...(items as T[])];
             });
+
+            return result.UnprocessedKeys;
+        });
+
+        if (unprocessed.length > 0) {
+            const count = unprocessed.reduce((total, requestItems) => total + countKeys(requestItems), 0);
+            throw new BatchIncompleteError("BatchGet", mergeRequestItems(unprocessed, (a, b) => ({ ...a, Keys: [...(a.Keys || []), ...(b.Keys || [])] })), count);
         }
 
         return response;
     }
 
-    async batchWrite(params: BatchWriteCommandInput): Promise<BatchWriteCommandOutput> {
-        const command = new BatchWriteCommand(params);
-        return await this.documentClient.send(command);
+    /**
+     * Writes any number of items in requests of 25, retrying unprocessed items with backoff.
+     * Throws a `BatchIncompleteError` when items are still unprocessed after the retries.
+     */
+    async batchWrite(params: BatchWriteCommandInput, options: BatchOptions = {}): Promise<BatchWriteCommandOutput> {
+        const { RequestItems = {}, ...input } = params;
+        const writes = Object.entries(RequestItems)
+            .flatMap(([tableName, requests]) => requests.map(request => ({ tableName, request })));
+
+        const outputs: BatchWriteCommandOutput[] = [];
+
+        const requests = chunk(writes, BATCH_WRITE_LIMIT).map(entries => {
+            const requestItems: BatchWriteRequestItems = {};
+            for (const { tableName, request } of entries) {
+                requestItems[tableName] = [...(requestItems[tableName] || []), request];
+            }
+            return requestItems;
+        });
+
+        const unprocessed = await this.sendBatches(requests, options, async requestItems => {
+            const result = await this.documentClient.send(new BatchWriteCommand({ ...input, RequestItems: requestItems }), this.sendOptions());
+            outputs.push(result);
+            return result.UnprocessedItems;
+        });
+
+        if (unprocessed.length > 0) {
+            const count = unprocessed.reduce((total, requestItems) => total + Object.values(requestItems).flat().length, 0);
+            throw new BatchIncompleteError("BatchWrite", mergeRequestItems(unprocessed, (a, b) => [...a, ...b]), count);
+        }
+
+        return {
+            $metadata: outputs[outputs.length - 1]?.$metadata || {},
+            UnprocessedItems: {},
+            ...(outputs.some(output => output.ConsumedCapacity) && {
+                ConsumedCapacity: outputs.flatMap(output => output.ConsumedCapacity || []),
+            }),
+        };
     }
 
+    /**
+     * Throws a `TransactionCanceledError` naming the items that canceled the transaction
+     */
     async transactWrite(params: TransactWriteCommandInput): Promise<TransactWriteCommandOutput> {
-        const command = new TransactWriteCommand(params);
-        return await this.documentClient.send(command);
+        assertTransactionSize(params.TransactItems);
+
+        try {
+            const command = new TransactWriteCommand(params);
+            return await this.documentClient.send(command, this.sendOptions());
+        } catch (error) {
+            throw toTransactionError(error, params.TransactItems || []);
+        }
     }
 
     async transactGet<T>(params: TransactGetCommandInput): Promise<T[]> {
-        const command = new TransactGetCommand(params);
-        const result = await this.documentClient.send(command);
+        assertTransactionSize(params.TransactItems);
+
+        let result: TransactGetCommandOutput;
+
+        try {
+            const command = new TransactGetCommand(params);
+            result = await this.documentClient.send(command, this.sendOptions());
+        } catch (error) {
+            throw toTransactionError(error, params.TransactItems || []);
+        }
 
         if (!result.Responses) {
             return [];
@@ -146,4 +476,238 @@ export class DynamoDBService {
 
         return result.Responses.map(response => response.Item as T);
     }
+
+    private async readPage<TInput extends QueryCommandInput | ScanCommandInput>(
+        params: TInput,
+        options: PageOptions,
+        send: (input: TInput) => Promise<{ Items?: Record<string, unknown>[]; LastEvaluatedKey?: DynamoDBKey }>
+    ): Promise<PaginatedResult<Record<string, unknown>>> {
+        const items: Record<string, unknown>[] = [];
+        let lastKey = options.cursor ? this.decodeCursor(options.cursor, params) : params.ExclusiveStartKey;
+
+        do {
+            const result = await send({
+                ...params,
+                ExclusiveStartKey: lastKey,
+                ...(options.limit !== undefined && { Limit: options.limit - items.length }),
+            });
+
+            items.push(...(result.Items || []));
+            lastKey = result.LastEvaluatedKey;
+        } while (lastKey && options.limit !== undefined && items.length < options.limit);
+
+        return {
+            items,
+            ...(lastKey && { nextCursor: this.encodeCursor(lastKey, params) }),
+        };
+    }
+
+    private signCursor(payload: string, params: CursorScope): string {
+        const secret = this.cursorSecret();
+        if (!secret) {
+            throw new Error("Pagination cursors require the cursorSecret option or the PAGINATION_CURSOR_SECRET environment variable");
+        }
+
+        return createHmac("sha256", secret)
+            .update(`${params.TableName || ""}#${params.IndexName || ""}#${keyConditionScope(params)}#${payload}`)
+            .digest("base64url");
+    }
+
+    private versionCondition(expressions: ExpressionParts | undefined, expectedVersion?: number, createKey?: string) {
+        const versionCheck = expectedVersion !== undefined
+            ? expr.attr(this.versionAttribute).eq(expectedVersion)
+            : createKey ? expr.notExists(createKey) : undefined;
+
+        if (!versionCheck) {
+            return expressions?.condition;
+        }
+
+        return expressions?.condition ? expressions.condition.and(versionCheck) : versionCheck;
+    }
+
+    /**
+     * Runs the write, turning a failed condition into a `VersionConflictError` only when the stored
+     * version is not the expected one, or when creating and an item exists. Failures of the caller's
+     * own condition are rethrown as they are.
+     */
+    private async writeVersioned<TOutput>(
+        write: () => Promise<TOutput>,
+        expectedVersion?: number,
+        create = false
+    ): Promise<TOutput> {
+        try {
+            return await write();
+        } catch (error) {
+            if ((error as Error).name !== "ConditionalCheckFailedException") {
+                throw error;
+            }
+
+            // The document client does not unmarshall the item returned with the error
+            const stored = (error as { Item?: Record<string, AttributeValue> }).Item;
+            const currentItem = stored ? unmarshall(stored) : null;
+            const currentVersion = currentItem?.[this.versionAttribute];
+            const conflict = expectedVersion !== undefined
+                ? currentVersion !== expectedVersion
+                : create && currentItem !== null;
+
+            if (!conflict) {
+                throw error;
+            }
+
+            throw new VersionConflictError(currentItem, typeof currentVersion === "number" ? currentVersion : undefined);
+        }
+    }
+
+    /**
+     * Sends the requests with at most `concurrency` in flight, resending what each leaves
+     * unprocessed after a jittered exponential backoff. Returns what is left after the retries.
+     */
+    private async sendBatches<TRequestItems extends Record<string, unknown>>(
+        requests: TRequestItems[],
+        options: BatchOptions,
+        send: (requestItems: TRequestItems) => Promise<TRequestItems | undefined>
+    ): Promise<TRequestItems[]> {
+        const {
+            concurrency = DEFAULT_BATCH_CONCURRENCY,
+            maxRetries = DEFAULT_BATCH_RETRIES,
+            baseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+            maxDelayMs = DEFAULT_RETRY_MAX_DELAY_MS,
+        } = options;
+        const unprocessed: TRequestItems[] = [];
+
+        const sendWithRetries = async (requestItems: TRequestItems): Promise<void> => {
+            let pending = await send(requestItems);
+
+            for (let attempt = 0; pending && Object.keys(pending).length > 0; attempt++) {
+                if (attempt >= maxRetries) {
+                    unprocessed.push(pending);
+                    return;
+                }
+
+                // Full jitter keeps parallel requests from retrying in lockstep
+                await sleep(Math.random() * Math.min(maxDelayMs, baseDelayMs * BACKOFF_FACTOR ** attempt));
+                pending = await send(pending);
+            }
+        };
+
+        let next = 0;
+        const worker = async (): Promise<void> => {
+            while (next < requests.length) {
+                await sendWithRetries(requests[next++]);
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), requests.length) }, worker));
+
+        return unprocessed;
+    }
+
+    private resolveExpressions<TInput extends object>(params: WithExpressions<TInput>): TInput {
+        const { expressions, ...input } = params;
+        return mergeExpressions(input as TInput, expressions);
+    }
+
+    private sendOptions(): { abortSignal?: AbortSignal } {
+        return { abortSignal: this.abortSignal?.() };
+    }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let start = 0; start < items.length; start += size) {
+        chunks.push(items.slice(start, start + size));
+    }
+    return chunks;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function countKeys(requestItems: BatchGetRequestItems): number {
+    return Object.values(requestItems).reduce((total, request) => total + (request.Keys?.length || 0), 0);
+}
+
+function mergeRequestItems<TRequest>(requestItems: Record<string, TRequest>[], merge: (a: TRequest, b: TRequest) => TRequest): Record<string, TRequest> {
+    const merged: Record<string, TRequest> = {};
+    for (const items of requestItems) {
+        Object.entries(items).forEach(([tableName, request]) => {
+            merged[tableName] = merged[tableName] ? merge(merged[tableName], request) : request;
+        });
+    }
+    return merged;
+}
+
+function assertTransactionSize(items: unknown[] | undefined): void {
+    // Splitting a transaction would give up its atomicity
+    if (items && items.length > TRANSACTION_LIMIT) {
+        throw new Error(`A transaction holds at most ${TRANSACTION_LIMIT} items, got ${items.length}`);
+    }
+}
+
+/**
+ * Turns the cancellation reasons of a `TransactionCanceledException` into a `TransactionCanceledError`
+ * that names the failed items. Other errors are returned as they are.
+ */
+function toTransactionError(error: unknown, transactItems: object[]): unknown {
+    if ((error as Error)?.name !== "TransactionCanceledException") {
+        return error;
+    }
+
+    const reasons = (error as { CancellationReasons?: Array<{ Code?: string; Message?: string; Item?: Record<string, AttributeValue> }> })
+        .CancellationReasons || [];
+
+    const failures = reasons.flatMap((reason, index): TransactionItemFailure[] => {
+        if (!reason.Code || reason.Code === "None") {
+            return [];
+        }
+
+        const [operation, request] = Object.entries(transactItems[index] || {})[0] || [];
+        const { TableName, Key, Item, ConditionExpression } = (request || {}) as {
+            TableName?: string;
+            Key?: Record<string, unknown>;
+            Item?: Record<string, unknown>;
+            ConditionExpression?: string;
+        };
+
+        return [{
+            index,
+            code: reason.Code,
+            message: reason.Message,
+            operation: operation as TransactionItemFailure["operation"],
+            tableName: TableName,
+            key: Key || Item,
+            conditionExpression: ConditionExpression,
+            // The document client does not unmarshall the items returned with the error
+            ...(reason.Item && { item: unmarshall(reason.Item) }),
+        }];
+    });
+
+    return new TransactionCanceledError(failures);
+}
+
+function describeTransactionFailure(failure: TransactionItemFailure): string {
+    const condition = failure.code === "ConditionalCheckFailed" && failure.conditionExpression
+        ? ` (${failure.conditionExpression})`
+        : "";
+
+    return `item ${failure.index} (${failure.operation} on ${failure.tableName}) failed with ${failure.code}${condition}`;
+}
+
+/**
+ * The key condition with the names and values it references, so a cursor cannot be replayed
+ * against another partition of the same table or index
+ */
+function keyConditionScope(params: CursorScope): string {
+    if (!params.KeyConditionExpression) {
+        return "";
+    }
+
+    const placeholders = Array.from(new Set(params.KeyConditionExpression.match(/[#:][A-Za-z0-9_]+/g) || [])).sort();
+    const references = placeholders.map(placeholder => [
+        placeholder,
+        placeholder.startsWith("#") ? params.ExpressionAttributeNames?.[placeholder] : params.ExpressionAttributeValues?.[placeholder],
+    ]);
+
+    return JSON.stringify([params.KeyConditionExpression, references]);
 }
@@ -1,60 +1,230 @@
+import { STATUS_CODES } from "http";
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
 import middy from "middy";
+import { CorsPolicy, applyCorsHeaders, defaultCorsPolicy, lowerCaseKeys } from "./cors";
+
+export const PROBLEM_JSON_CONTENT_TYPE = "application/problem+json";
+
+const PRECONDITION_FAILED_STATUS = 412;
+const INTERNAL_SERVER_ERROR_STATUS = 500;
+
+export interface FieldError {
+  field: string;
+  message: string;
+  code?: string;
+}
+
+export interface HttpErrorOptions {
+  /** Stable, machine-readable error code; defaults to one derived from the status code */
+  code?: string;
+  /** URI identifying the problem type (RFC 7807 `type`) */
+  type?: string;
+  errors?: FieldError[];
+}
+
+/**
+ * RFC 7807 problem details body
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
+  requestId?: string;
+  instance?: string;
+  errors?: FieldError[];
+}
 
 export class HttpError extends Error {
-    constructor(public statusCode: number, message: string) {
+    public readonly code: string;
+    public readonly type?: string;
+    public readonly errors?: FieldError[];
+
+    constructor(public statusCode: number, message: string, options: HttpErrorOptions = {}) {
         super(message);
         this.name = "HttpError";
+        this.code = options.code || defaultErrorCode(statusCode);
+        this.type = options.type;
+        this.errors = options.errors;
     }
 }
 
 export class BadRequestError extends HttpError {
-    constructor(message: string = "Bad Request") {
-        super(400, message);
+    constructor(message: string = "Bad Request", options?: HttpErrorOptions) {
+        super(400, message, options);
         this.name = "BadRequestError";
     }
 }
 
 export class UnauthorizedError extends HttpError {
-    constructor(message: string = "Unauthorized") {
-        super(401, message);
+    constructor(message: string = "Unauthorized", options?: HttpErrorOptions) {
+        super(401, message, options);
         this.name = "UnauthorizedError";
     }
 }
 
 export class ForbiddenError extends HttpError {
-    constructor(message: string = "Forbidden") {
-        super(403, message);
+    constructor(message: string = "Forbidden", options?: HttpErrorOptions) {
+        super(403, message, options);
         this.name = "ForbiddenError";
     }
 }
 
 export class NotFoundError extends HttpError {
-    constructor(message: string = "Not Found") {
-        super(404, message);
+    constructor(message: string = "Not Found", options?: HttpErrorOptions) {
+        super(404, message, options);
         this.name = "NotFoundError";
     }
 }
 
 export class ConflictError extends HttpError {
-    constructor(message: string = "Conflict") {
-        super(409, message);
+    constructor(message: string = "Conflict", options?: HttpErrorOptions) {
+        super(409, message, options);
         this.name = "ConflictError";
     }
 }
 
+/**
+ * Conditional write rejected because another request changed the item first. Carries the
+ * item as stored, `null` when it no longer exists.
+ */
+export class VersionConflictError extends ConflictError {
+    constructor(
+        public readonly currentItem: Record<string, unknown> | null,
+        public readonly currentVersion?: number,
+        message: string = "The item was modified by another request",
+        options?: HttpErrorOptions
+    ) {
+        super(message, { code: "VERSION_CONFLICT", ...options });
+        this.name = "VersionConflictError";
+    }
+}
+
+/**
+ * Conditional request, e.g. with `If-Match`, whose precondition no longer holds
+ */
+export class PreconditionFailedError extends HttpError {
+    constructor(message: string = "Precondition Failed", options?: HttpErrorOptions, public readonly currentVersion?: number) {
+        super(PRECONDITION_FAILED_STATUS, message, options);
+        this.name = "PreconditionFailedError";
+    }
+}
+
 export class InternalServerError extends HttpError {
-    constructor(message: string = "Internal Server Error") {
-        super(500, message);
+    constructor(message: string = "Internal Server Error", options?: HttpErrorOptions) {
+        super(500, message, options);
         this.name = "InternalServerError";
     }
 }
 
-export const errorHandler = (): middy.MiddlewareObject<APIGatewayProxyEvent, APIGatewayProxyResult> => {
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ErrorConstructor<T extends Error> = new (...args: any[]) => T;
+
+interface ErrorMapping {
+  errorType: ErrorConstructor<Error>;
+  map: (error: Error) => HttpError;
+}
+
+/**
+ * Maps domain errors to `HttpError`s. Mappings registered later take precedence,
+ * and `HttpError` instances are always passed through unchanged.
+ */
+export class ErrorMappingRegistry {
+    private mappings: ErrorMapping[] = [];
+
+    constructor(private parent?: ErrorMappingRegistry) {}
+
+    public register<T extends Error>(errorType: ErrorConstructor<T>, map: (error: T) => HttpError): this {
+        this.mappings.unshift({ errorType, map: map as (error: Error) => HttpError });
+        return this;
+    }
+
+    public toHttpError(error: Error | unknown): HttpError {
+        if (error instanceof HttpError) {
+            return error;
+        }
+
+        const mapped = this.map(error);
+        if (mapped) {
+            return mapped;
+        }
+
+        // Unknown errors never expose their message to the client
+        return new InternalServerError();
+    }
+
+    private map(error: Error | unknown): HttpError | undefined {
+        if (error instanceof Error) {
+            const mapping = this.mappings.find(candidate => error instanceof candidate.errorType);
+            if (mapping) {
+                return mapping.map(error);
+            }
+        }
+
+        return this.parent?.map(error);
+    }
+}
+
+/**
+ * Mappings shared by every class-based lambda. Each lambda instance registers its own
+ * mappings on a child registry falling back to this one.
+ */
+export const defaultErrorMappings = new ErrorMappingRegistry();
+
+export function toProblemDetails(error: HttpError, details: { requestId?: string; instance?: string } = {}): ProblemDetails {
+    return {
+        type: error.type || "about:blank",
+        title: STATUS_CODES[error.statusCode] || "Error",
+        status: error.statusCode,
+        detail: error.message,
+        code: error.code,
+        requestId: details.requestId,
+        instance: details.instance,
+        ...(error.errors && error.errors.length > 0 && { errors: error.errors }),
+    };
+}
+
+/**
+ * Builds an `application/problem+json` response for an `HttpError`
+ */
+export function toProblemResponse(
+    error: HttpError,
+    details: { requestId?: string; instance?: string } = {}
+): { statusCode: number; headers: Record<string, string>; body: string } {
+    return {
+        statusCode: error.statusCode,
+        headers: {
+            "Content-Type": PROBLEM_JSON_CONTENT_TYPE,
+        },
+        body: JSON.stringify(toProblemDetails(error, details)),
+    };
+}
+
+export function isServerError(error: HttpError): boolean {
+    return error.statusCode >= INTERNAL_SERVER_ERROR_STATUS;
+}
+
+function defaultErrorCode(statusCode: number): string {
+    const title = STATUS_CODES[statusCode];
+    return title ? title.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, "") : `HTTP_${statusCode}`;
+}
+
+export interface ErrorHandlerOptions {
+  /** CORS headers of the error responses, `false` for none */
+  cors?: CorsPolicy | false;
+}
+
+export const errorHandler = (options: ErrorHandlerOptions = {}): middy.MiddlewareObject<APIGatewayProxyEvent, APIGatewayProxyResult> => {
+    const { cors = defaultCorsPolicy } = options;
+
     return {
         onError: async (request): Promise<void> => {
             const { error } = request;
 
+            // Already handled by an earlier onError middleware
+            if (!error) return;
+
             console.error("Error caught by error handler middleware:", error);
 
             let statusCode = 500;
@@ -67,15 +237,14 @@ export const errorHandler = (): middy.MiddlewareObject<APIGatewayProxyEvent, API
                 message = error.message;
             }
 
+            const headers = { "Content-Type": "application/json" };
+
             request.response = {
                 statusCode,
-                headers: {
-                    "Content-Type": "application/json",
-                    "Access-Control-Allow-Origin": "*",
-                    "Access-Control-Allow-Credentials": "true",
-                },
+                headers: cors ? applyCorsHeaders(headers, cors, lowerCaseKeys(request.event?.headers)) : headers,
                 body: JSON.stringify({
                     error: message,
+                    ...(error instanceof HttpError && error.errors && { errors: error.errors }),
                 }),
             };
         },
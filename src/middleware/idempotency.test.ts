@@ -0,0 +1,125 @@
+import { Context } from "aws-lambda";
+import { AttributeType } from "aws-cdk-lib/aws-dynamodb";
+import { InMemoryDynamoDB } from "../testing/in-memory-dynamodb";
+import {
+    DynamoDBIdempotencyStore,
+    Idempotency,
+    IdempotencyConflictError,
+    IdempotencyKeyReusedError,
+    IdempotencyOptions,
+    IdempotencyStore
+} from "./idempotency";
+import { Logger } from "./logger";
+
+const table = {
+    tableName: "idempotency",
+    partitionKey: { name: "id", type: AttributeType.STRING },
+};
+
+function postOrder(body: object, options: { key?: string; principalId?: string; path?: string } = {}) {
+    return {
+        httpMethod: "POST",
+        path: options.path || "/orders",
+        headers: { "Idempotency-Key": options.key || "key-1" },
+        body: JSON.stringify(body),
+        isBase64Encoded: false,
+        requestContext: { requestId: "request", identity: {}, authorizer: { principalId: options.principalId || "user-a" } },
+    };
+}
+
+function contextWithRemainingTime(ms: number): Context {
+    return { getRemainingTimeInMillis: () => ms } as Context;
+}
+
+describe("Idempotency", () => {
+    const db = new InMemoryDynamoDB({ tables: [table] });
+    const store = new DynamoDBIdempotencyStore("idempotency", { documentClient: db.documentClient });
+    const create = (options: IdempotencyOptions = {}) => new Idempotency({ store, keyPrefix: "orders", ...options });
+
+    beforeEach(() => db.reset());
+    afterEach(() => jest.restoreAllMocks());
+
+    test("runs the handler once and replays its result for retries", async () => {
+        const idempotency = create();
+        const handler = jest.fn().mockResolvedValue({ statusCode: 201, body: "created" });
+
+        await idempotency.run(postOrder({ item: "book" }), handler);
+        const replayed = await idempotency.run(postOrder({ item: "book" }), handler);
+
+        expect(replayed).toEqual({ statusCode: 201, body: "created" });
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(db.getItems("idempotency")).toMatchObject([{ status: "COMPLETED" }]);
+    });
+
+    test("rejects a call while the first one is in progress and lets it take over once that has expired", async () => {
+        const idempotency = create();
+        const now = Date.now();
+        jest.spyOn(Date, "now").mockReturnValue(now);
+
+        await expect(idempotency.start(postOrder({}), contextWithRemainingTime(1000))).resolves.toMatchObject({ status: "acquired" });
+        await expect(idempotency.start(postOrder({}))).rejects.toThrow(IdempotencyConflictError);
+
+        jest.spyOn(Date, "now").mockReturnValue(now + 1001);
+
+        await expect(idempotency.start(postOrder({}))).resolves.toMatchObject({ status: "acquired" });
+    });
+
+    test("releases the key when the handler fails", async () => {
+        const idempotency = create();
+        const handler = jest.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue("done");
+
+        await expect(idempotency.run(postOrder({}), handler)).rejects.toThrow("boom");
+        await expect(idempotency.run(postOrder({}), handler)).resolves.toBe("done");
+        expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    test("rejects a reused key with a different body", async () => {
+        const idempotency = create();
+        await idempotency.run(postOrder({ item: "book" }), async () => "done");
+
+        const reused = idempotency.run(postOrder({ item: "lamp" }), async () => "done");
+
+        await expect(reused).rejects.toThrow(IdempotencyKeyReusedError);
+        await expect(reused).rejects.toMatchObject({ statusCode: 422 });
+    });
+
+    test("keeps the keys of different callers and paths apart", async () => {
+        const idempotency = create();
+        const handler = jest.fn().mockResolvedValue("done");
+
+        await idempotency.run(postOrder({}), handler);
+        await idempotency.run(postOrder({}, { principalId: "user-b" }), handler);
+        await idempotency.run(postOrder({}, { path: "/refunds" }), handler);
+        expect(handler).toHaveBeenCalledTimes(3);
+
+        const unscoped = create({ scope: false });
+        await unscoped.run(postOrder({}, { principalId: "user-c" }), handler);
+        await unscoped.run(postOrder({}, { principalId: "user-d" }), handler);
+
+        expect(handler).toHaveBeenCalledTimes(4);
+    });
+
+    test("skips events without a key unless one is required", async () => {
+        const event = { ...postOrder({}), headers: {} };
+
+        await expect(create().start(event)).resolves.toEqual({ status: "skipped" });
+        await expect(create({ requireKey: true }).start(event)).rejects.toMatchObject({ statusCode: 400, code: "IDEMPOTENCY_KEY_REQUIRED" });
+    });
+
+    test("logs a result that cannot be stored and keeps the key locked", async () => {
+        const failingStore: IdempotencyStore = {
+            acquire: store.acquire.bind(store),
+            complete: jest.fn().mockRejectedValue(new Error("throttled")),
+            release: jest.fn(),
+        };
+        const logger = new Logger();
+        const logError = jest.spyOn(logger, "error").mockImplementation(() => undefined);
+        const idempotency = new Idempotency({ store: failingStore, logger });
+
+        await expect(idempotency.run(postOrder({}), async () => "done")).resolves.toBe("done");
+
+        expect(logError).toHaveBeenCalledWith(expect.stringContaining("key stays locked"), expect.objectContaining({ key: expect.any(String) }));
+        expect(failingStore.release).not.toHaveBeenCalled();
+        await expect(idempotency.start(postOrder({}))).rejects.toThrow(IdempotencyConflictError);
+    });
+});
@@ -0,0 +1,366 @@
+import { createHash } from "crypto";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { Context } from "aws-lambda";
+import middy from "middy";
+import { HttpEvent, httpAdapters } from "../lambda/http-adapters";
+import { BadRequestError, ConflictError, HttpError } from "./error-handler";
+import { Logger, logger as defaultLogger } from "./logger";
+
+export type IdempotencyStatus = "INPROGRESS" | "COMPLETED";
+
+export interface IdempotencyRecord {
+  id: string;
+  status: IdempotencyStatus;
+  /** Epoch seconds, used as the table's TTL attribute */
+  expiresAt: number;
+  /** Epoch milliseconds after which an in-progress record is considered abandoned */
+  inProgressExpiresAt?: number;
+  payloadHash?: string;
+  data?: unknown;
+}
+
+/**
+ * Persistence for idempotency records
+ */
+export interface IdempotencyStore {
+  /** Saves the in-progress record and returns null, or returns the live record already stored for the key */
+  acquire(record: IdempotencyRecord, now: number): Promise<IdempotencyRecord | null>;
+  complete(id: string, data: unknown, expiresAt: number): Promise<void>;
+  release(id: string): Promise<void>;
+}
+
+export interface IdempotencyOptions {
+  /** Defaults to the `IDEMPOTENCY_TABLE_NAME` environment variable */
+  tableName?: string;
+  store?: IdempotencyStore;
+  /** Header carrying the key when no `keyPath` is set (default: `Idempotency-Key`) */
+  header?: string;
+  /** Extracts the key from the event, e.g. `Records[0].messageId` or `body.orderId` */
+  keyPath?: string;
+  /** Part of the event that must not change between retries with the same key (default: `body`), `false` to skip the check */
+  payloadPath?: string | false;
+  /**
+   * Separates the keys of different callers and routes. Defaults to the method, the path and the
+   * authorized principal of API Gateway, ALB and Function URL events; `false` shares keys across them.
+   */
+  scope?: ((event: unknown) => unknown) | false;
+  /** Fail with a 400 when the event carries no key (default: run without idempotency) */
+  requireKey?: boolean;
+  /** How long completed results are replayed (default: 1 hour) */
+  expiresAfterSeconds?: number;
+  /** Namespace for keys, defaults to the function name */
+  keyPrefix?: string;
+  /** Reports failures to store or release a key (default: the shared `logger`) */
+  logger?: Logger;
+}
+
+export type IdempotencyStart =
+    | { status: "skipped" }
+    | { status: "acquired"; key: string }
+    | { status: "replay"; data: unknown };
+
+export class IdempotencyConflictError extends ConflictError {
+    constructor(message: string = "A request with the same idempotency key is already in progress") {
+        super(message, { code: "IDEMPOTENCY_IN_PROGRESS" });
+    }
+}
+
+export class IdempotencyKeyReusedError extends HttpError {
+    constructor(message: string = "The idempotency key was already used with a different payload") {
+        super(UNPROCESSABLE_ENTITY, message, { code: "IDEMPOTENCY_KEY_REUSED" });
+    }
+}
+
+const UNPROCESSABLE_ENTITY = 422;
+const DEFAULT_EXPIRY_SECONDS = 3600;
+const MS_PER_SECOND = 1000;
+
+export class DynamoDBIdempotencyStore implements IdempotencyStore {
+    private documentClient: DynamoDBDocumentClient;
+
+    constructor(private readonly tableName: string, options: { documentClient?: DynamoDBDocumentClient } = {}) {
+        this.documentClient = options.documentClient || DynamoDBDocumentClient.from(new DynamoDBClient({}));
+    }
+
+    async acquire(record: IdempotencyRecord, now: number): Promise<IdempotencyRecord | null> {
+        try {
+            await this.documentClient.send(new PutCommand({
+                TableName: this.tableName,
+                Item: record,
+                ConditionExpression: "attribute_not_exists(id) OR expiresAt < :nowSeconds OR " +
+                    "(#status = :inProgress AND inProgressExpiresAt < :now)",
+                ExpressionAttributeNames: { "#status": "status" },
+                ExpressionAttributeValues: {
+                    ":nowSeconds": Math.floor(now / MS_PER_SECOND),
+                    ":now": now,
+                    ":inProgress": "INPROGRESS",
+                },
+            }));
+            return null;
+        } catch (error) {
+            if ((error as Error).name !== "ConditionalCheckFailedException") {
+                throw error;
+            }
+        }
+
+        const result = await this.documentClient.send(new GetCommand({
+            TableName: this.tableName,
+            Key: { id: record.id },
+            ConsistentRead: true,
+        }));
+
+        // The record expired in between, treat the request as still in progress
+        return (result.Item as IdempotencyRecord | undefined) || { ...record };
+    }
+
+    async complete(id: string, data: unknown, expiresAt: number): Promise<void> {
+        await this.documentClient.send(new UpdateCommand({
+            TableName: this.tableName,
+            Key: { id },
+            UpdateExpression: "SET #status = :completed, #data = :data, expiresAt = :expiresAt REMOVE inProgressExpiresAt",
+            ExpressionAttributeNames: { "#status": "status", "#data": "data" },
+            ExpressionAttributeValues: { ":completed": "COMPLETED", ":data": data ?? null, ":expiresAt": expiresAt },
+        }));
+    }
+
+    async release(id: string): Promise<void> {
+        await this.documentClient.send(new DeleteCommand({ TableName: this.tableName, Key: { id } }));
+    }
+}
+
+/**
+ * Makes handlers safe to retry: the first call with a key runs and its result is stored,
+ * later calls with the same key replay the stored result, and calls made while the first
+ * one is still running fail with a 409.
+ */
+export class Idempotency {
+    private readonly store: IdempotencyStore;
+    private readonly header: string;
+    private readonly expiresAfterSeconds: number;
+    private readonly logger: Logger;
+
+    constructor(private readonly options: IdempotencyOptions = {}) {
+        const tableName = options.tableName || process.env.IDEMPOTENCY_TABLE_NAME;
+
+        if (!options.store && !tableName) {
+            throw new Error("Idempotency requires a store, a tableName or the IDEMPOTENCY_TABLE_NAME environment variable");
+        }
+
+        this.store = options.store || new DynamoDBIdempotencyStore(tableName as string);
+        this.header = (options.header || "Idempotency-Key").toLowerCase();
+        this.expiresAfterSeconds = options.expiresAfterSeconds ?? DEFAULT_EXPIRY_SECONDS;
+        this.logger = options.logger || defaultLogger;
+    }
+
+    /**
+     * Runs `fn` once per idempotency key and replays its result for retries
+     */
+    async run<T>(event: unknown, fn: () => Promise<T>, context?: Context): Promise<T> {
+        const start = await this.start(event, context);
+
+        if (start.status === "skipped") {
+            return await fn();
+        }
+
+        if (start.status === "replay") {
+            return start.data as T;
+        }
+
+        let result: T;
+        try {
+            result = await fn();
+        } catch (error) {
+            await this.release(start.key);
+            throw error;
+        }
+
+        await this.complete(start.key, result);
+        return result;
+    }
+
+    /**
+     * Claims the event's key, or returns the stored result of an earlier call
+     */
+    async start(event: unknown, context?: Context): Promise<IdempotencyStart> {
+        const keyValue = this.getKeyValue(event);
+
+        if (keyValue === undefined || keyValue === null || keyValue === "") {
+            if (this.options.requireKey) {
+                throw new BadRequestError(`Missing ${this.options.keyPath || this.header}`, { code: "IDEMPOTENCY_KEY_REQUIRED" });
+            }
+            return { status: "skipped" };
+        }
+
+        const prefix = this.options.keyPrefix || process.env.AWS_LAMBDA_FUNCTION_NAME || "idempotency";
+        const scope = this.options.scope === false ? undefined : (this.options.scope || httpRequestScope)(event);
+        const key = `${prefix}#${hash(scope === undefined ? keyValue : [scope, keyValue])}`;
+        const payloadPath = this.options.payloadPath ?? "body";
+        const payloadHash = payloadPath ? hash(extractPath(event, payloadPath) ?? null) : undefined;
+        const now = Date.now();
+        const remainingTime = context?.getRemainingTimeInMillis?.();
+
+        const existing = await this.store.acquire({
+            id: key,
+            status: "INPROGRESS",
+            expiresAt: Math.floor(now / MS_PER_SECOND) + this.expiresAfterSeconds,
+            inProgressExpiresAt: now + (remainingTime || this.expiresAfterSeconds * MS_PER_SECOND),
+            ...(payloadHash && { payloadHash }),
+        }, now);
+
+        if (!existing) {
+            return { status: "acquired", key };
+        }
+
+        if (payloadHash && existing.payloadHash && existing.payloadHash !== payloadHash) {
+            throw new IdempotencyKeyReusedError();
+        }
+
+        if (existing.status === "INPROGRESS") {
+            throw new IdempotencyConflictError();
+        }
+
+        return { status: "replay", data: existing.data };
+    }
+
+    /**
+     * Stores the result for replays. Results reporting `batchItemFailures` are not stored, as
+     * the failed records are redelivered and must run again. When storing fails the key stays
+     * locked: the side effects already ran, so a retry must not run them twice.
+     */
+    async complete(key: string, result: unknown): Promise<void> {
+        if (hasBatchItemFailures(result)) {
+            await this.release(key);
+            return;
+        }
+
+        const expiresAt = Math.floor(Date.now() / MS_PER_SECOND) + this.expiresAfterSeconds;
+
+        try {
+            await this.store.complete(key, result, expiresAt);
+        } catch (error) {
+            this.logger.error("Failed to store idempotent result, the key stays locked until it expires", { key, error });
+        }
+    }
+
+    /**
+     * Removes the in-progress record so the failed call can be retried
+     */
+    async release(key: string): Promise<void> {
+        try {
+            await this.store.release(key);
+        } catch (error) {
+            this.logger.error("Failed to release idempotency key", { key, error });
+        }
+    }
+
+    private getKeyValue(event: unknown): unknown {
+        if (this.options.keyPath) {
+            return extractPath(event, this.options.keyPath);
+        }
+
+        const headers = (event as { headers?: Record<string, string | undefined> } | null)?.headers || {};
+        const name = Object.keys(headers).find(header => header.toLowerCase() === this.header);
+
+        return name ? headers[name] : undefined;
+    }
+}
+
+/**
+ * Reads a value with a JMESPath-like expression such as `Records[0].body.orderId`
+ * or `headers."Idempotency-Key"`. Strings holding JSON are parsed when the path continues into them.
+ */
+export function extractPath(value: unknown, path: string): unknown {
+    const tokens = Array.from(path.matchAll(/"([^"]+)"|\[(\d+)\]|([^.[\]"]+)/g))
+        .map(([, quoted, index, name]) => (index !== undefined ? Number(index) : quoted ?? name));
+
+    return tokens.reduce<unknown>((current, token) => {
+        let target = current;
+
+        if (typeof target === "string") {
+            try {
+                target = JSON.parse(target);
+            } catch (error) {
+                return undefined;
+            }
+        }
+
+        if (target === null || typeof target !== "object") {
+            return undefined;
+        }
+
+        return (target as Record<string | number, unknown>)[token];
+    }, value);
+}
+
+class IdempotentReplay extends Error {
+    constructor(public readonly response: unknown) {
+        super("Idempotent replay");
+    }
+}
+
+/**
+ * Middy middleware that replays stored responses. Register it before `errorHandler`
+ * so its `onError` runs first.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const idempotency = (options: IdempotencyOptions = {}): middy.MiddlewareObject<any, any> => {
+    const instance = new Idempotency(options);
+    let key: string | undefined;
+
+    return {
+        before: async (request) => {
+            key = undefined;
+            const start = await instance.start(request.event, request.context);
+
+            if (start.status === "replay") {
+                // middy 0.x cannot end the chain from a before middleware, so the
+                // stored response is returned from onError instead
+                throw new IdempotentReplay(start.data);
+            }
+
+            if (start.status === "acquired") {
+                key = start.key;
+            }
+        },
+        after: async (request) => {
+            if (key) {
+                await instance.complete(key, request.response);
+            }
+        },
+        onError: async (request) => {
+            if (request.error instanceof IdempotentReplay) {
+                request.response = request.error.response;
+                request.error = null as unknown as Error;
+                return;
+            }
+
+            if (key) {
+                await instance.release(key);
+            }
+
+            // Resolving with the error leaves it unhandled for the next onError middleware
+            return request.error;
+        },
+    };
+};
+
+/**
+ * Method, path and principal of HTTP events, undefined for other events
+ */
+function httpRequestScope(event: unknown): unknown {
+    const adapter = httpAdapters.find(candidate => candidate.canHandle(event));
+    if (!adapter) return undefined;
+
+    const { method, path, identity } = adapter.toRequest(event as HttpEvent);
+    return { method, path, principal: identity.principalId ?? identity.claims?.sub ?? null };
+}
+
+function hasBatchItemFailures(result: unknown): boolean {
+    const failures = (result as { batchItemFailures?: unknown[] } | null | undefined)?.batchItemFailures;
+    return Array.isArray(failures) && failures.length > 0;
+}
+
+function hash(value: unknown): string {
+    return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
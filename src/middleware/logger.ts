@@ -31,7 +31,9 @@ export class Logger {
 
         let logObj = obj;
         if (obj && typeof obj === "object") {
-            logObj = JSON.parse(JSON.stringify(obj));
+            logObj = JSON.parse(JSON.stringify(obj, (_key, value) => (
+                value instanceof Error ? { ...value, name: value.name, message: value.message, stack: value.stack } : value
+            )));
 
             // Redact sensitive information
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -113,7 +115,9 @@ export const loggerMiddleware = (options: LoggerOptions = {}): middy.MiddlewareO
 
         let logObj = obj;
         if (obj && typeof obj === "object") {
-            logObj = JSON.parse(JSON.stringify(obj));
+            logObj = JSON.parse(JSON.stringify(obj, (_key, value) => (
+                value instanceof Error ? { ...value, name: value.name, message: value.message, stack: value.stack } : value
+            )));
 
             // Redact sensitive information
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,98 @@
+import { Context } from "aws-lambda";
+import { LambdaMiddleware, MiddlewareChain } from "./middleware-chain";
+
+function recording(name: string, calls: string[], overrides: Partial<LambdaMiddleware> = {}): LambdaMiddleware {
+    return {
+        before: async () => {
+            calls.push(`${name}.before`);
+        },
+        after: async () => {
+            calls.push(`${name}.after`);
+        },
+        onError: async (request) => {
+            calls.push(`${name}.onError`);
+            return request.error;
+        },
+        ...overrides,
+    };
+}
+
+function createChain(...middlewares: LambdaMiddleware[]) {
+    const chain = new MiddlewareChain<unknown, unknown>();
+    middlewares.forEach(middleware => chain.use(middleware));
+    return chain;
+}
+
+describe("MiddlewareChain", () => {
+    const context = {} as Context;
+
+    test("runs before hooks in registration order and after hooks in reverse order", async () => {
+        const calls: string[] = [];
+        const chain = createChain(recording("first", calls), recording("second", calls));
+        const request = chain.createRequest({}, context);
+
+        await chain.before(request);
+        await chain.after(request);
+
+        expect(calls).toEqual(["first.before", "second.before", "second.after", "first.after"]);
+    });
+
+    test("supports hooks that call next instead of returning a promise", async () => {
+        const calls: string[] = [];
+        const chain = createChain(
+            recording("callback", calls, {
+                before: (request, next) => {
+                    request.event = { parsed: true };
+                    next();
+                },
+            }),
+            recording("promise", calls),
+        );
+        const request = chain.createRequest({}, context);
+
+        await chain.before(request);
+
+        expect(request.event).toEqual({ parsed: true });
+        expect(calls).toEqual(["promise.before"]);
+    });
+
+    test("stops at a failing before hook", async () => {
+        const calls: string[] = [];
+        const chain = createChain(
+            recording("auth", calls, { before: (_request, next) => next(new Error("Unauthorized")) }),
+            recording("later", calls),
+        );
+
+        await expect(chain.before(chain.createRequest({}, context))).rejects.toThrow("Unauthorized");
+        expect(calls).toEqual([]);
+    });
+
+    test("runs every onError hook in registration order, also after one has handled the error", async () => {
+        const calls: string[] = [];
+        const chain = createChain(
+            recording("handler", calls, {
+                onError: async (request) => {
+                    calls.push("handler.onError");
+                    request.response = { statusCode: 500 };
+                },
+            }),
+            recording("logger", calls),
+        );
+        const request = chain.createRequest({}, context);
+        request.error = new Error("boom");
+
+        await expect(chain.onError(request)).resolves.toBe(true);
+        expect(calls).toEqual(["handler.onError", "logger.onError"]);
+        expect(request.response).toEqual({ statusCode: 500 });
+    });
+
+    test("reports an error that every onError hook passed on as unhandled", async () => {
+        const calls: string[] = [];
+        const chain = createChain(recording("first", calls), recording("second", calls));
+        const request = chain.createRequest({}, context);
+        request.error = new Error("boom");
+
+        await expect(chain.onError(request)).resolves.toBe(false);
+        expect(calls).toEqual(["first.onError", "second.onError"]);
+    });
+});
@@ -0,0 +1,99 @@
+import { Context } from "aws-lambda";
+import middy from "middy";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type LambdaMiddleware<TEvent = any, TResult = any> = middy.MiddlewareObject<TEvent, TResult>;
+
+export type MiddlewareRequest<TEvent, TResult> = middy.HandlerLambda<TEvent, TResult>;
+
+/**
+ * Runs middy middleware objects around a class-based handler with middy's semantics:
+ * `before` hooks run in registration order, `after` hooks in reverse order, and all `onError`
+ * hooks in registration order, even after one of them has handled the error.
+ */
+export class MiddlewareChain<TEvent, TResult> {
+    private readonly middlewares: LambdaMiddleware<TEvent, TResult>[] = [];
+
+    use(middleware: LambdaMiddleware<TEvent, TResult>): this {
+        this.middlewares.push(middleware);
+        return this;
+    }
+
+    get length(): number {
+        return this.middlewares.length;
+    }
+
+    createRequest(event: TEvent, context: Context): MiddlewareRequest<TEvent, TResult> {
+        return {
+            event,
+            context,
+            response: null as unknown as TResult,
+            error: null as unknown as Error,
+            callback: () => undefined,
+        };
+    }
+
+    async before(request: MiddlewareRequest<TEvent, TResult>): Promise<void> {
+        for (const middleware of this.middlewares) {
+            if (middleware.before) {
+                await runHook(middleware.before, request);
+            }
+        }
+    }
+
+    async after(request: MiddlewareRequest<TEvent, TResult>): Promise<void> {
+        for (const middleware of [...this.middlewares].reverse()) {
+            if (middleware.after) {
+                await runHook(middleware.after, request);
+            }
+        }
+    }
+
+    /**
+     * Runs every `onError` hook and returns `true` when at least one of them handled the error,
+     * leaving the response in `request.response`
+     */
+    async onError(request: MiddlewareRequest<TEvent, TResult>): Promise<boolean> {
+        let handled = false;
+
+        for (const middleware of this.middlewares) {
+            if (middleware.onError) {
+                // As in middy, a hook that completes without passing the error on handles it
+                const passedOn = await callHook(middleware.onError, request);
+                handled = handled || !passedOn;
+            }
+        }
+
+        return handled;
+    }
+}
+
+async function runHook<TEvent, TResult>(
+    hook: middy.MiddlewareFunction<TEvent, TResult>,
+    request: MiddlewareRequest<TEvent, TResult>
+): Promise<void> {
+    const error = await callHook(hook, request);
+    if (error) {
+        throw error;
+    }
+}
+
+/**
+ * Calls a hook that either returns a promise or calls `next`, and resolves with the
+ * value it completed with
+ */
+function callHook<TEvent, TResult>(
+    hook: middy.MiddlewareFunction<TEvent, TResult>,
+    request: MiddlewareRequest<TEvent, TResult>
+): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        try {
+            const result = hook(request, resolve);
+            if (result && typeof (result as Promise<unknown>).then === "function") {
+                (result as Promise<unknown>).then(resolve, reject);
+            }
+        } catch (error) {
+            reject(error);
+        }
+    });
+}
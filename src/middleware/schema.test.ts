@@ -0,0 +1,133 @@
+import { ValidationError, schema } from "./schema";
+
+describe("schema", () => {
+    describe("coercion", () => {
+        const query = schema.object({
+            limit: schema.integer().min(1).max(100).default(20),
+            published: schema.boolean().optional(),
+            tags: schema.array(schema.string()).optional(),
+        });
+
+        test("converts query string values when coercion is on", () => {
+            expect(query.parse({ limit: "50", published: "true", tags: "a,b" }, { coerce: true }))
+                .toEqual({ limit: 50, published: true, tags: ["a", "b"] });
+            expect(query.parse({ published: "0", tags: "" }, { coerce: true }))
+                .toEqual({ limit: 20, published: false, tags: [] });
+        });
+
+        test("keeps strings as they are without coercion", () => {
+            const result = query.safeParse({ limit: "50", published: "true" });
+
+            expect(result).toEqual({
+                success: false,
+                errors: [
+                    { field: "limit", message: "must be a number", code: "invalid_type" },
+                    { field: "published", message: "must be a boolean", code: "invalid_type" },
+                ],
+            });
+        });
+
+        test("rejects blank and non-numeric strings for numbers", () => {
+            expect(schema.number().safeParse(" ", { coerce: true }).success).toBe(false);
+            expect(schema.number().safeParse("12abc", { coerce: true }).success).toBe(false);
+        });
+
+        test("only accepts true, false, 1 and 0 for booleans", () => {
+            expect(schema.boolean().safeParse("yes", { coerce: true }).success).toBe(false);
+        });
+    });
+
+    describe("objects", () => {
+        const post = schema.object({
+            title: schema.string().min(1),
+            author: schema.object({ id: schema.string().uuid() }),
+        });
+
+        test("drops undeclared properties, including nested ones", () => {
+            const parsed = post.parse({
+                title: "Hello",
+                isAdmin: true,
+                author: { id: "8f14e45f-ceea-467f-a0e6-6ac0d9b8fb3a", role: "admin" },
+            });
+
+            expect(parsed).toEqual({ title: "Hello", author: { id: "8f14e45f-ceea-467f-a0e6-6ac0d9b8fb3a" } });
+        });
+
+        test("reports every failing field with its path", () => {
+            const result = post.safeParse({ title: "", author: { id: "nope" } }, { path: "body" });
+
+            expect(result).toEqual({
+                success: false,
+                errors: [
+                    { field: "body.title", message: "must be at least 1 characters", code: "too_short" },
+                    { field: "body.author.id", message: "must be a valid uuid", code: "invalid_format" },
+                ],
+            });
+        });
+
+        test("reports array items by index", () => {
+            const result = schema.array(schema.integer()).safeParse([1, "2", 3.5], { path: "ids" });
+
+            expect(result.success === false && result.errors.map(error => error.field)).toEqual(["ids[1]", "ids[2]"]);
+        });
+
+        test("throws a ValidationError listing the errors from parse", () => {
+            expect(() => post.parse({})).toThrow(ValidationError);
+
+            try {
+                post.parse({});
+            } catch (error) {
+                expect((error as ValidationError).statusCode).toBe(400);
+                expect((error as ValidationError).errors).toEqual([
+                    { field: "title", message: "is required", code: "required" },
+                    { field: "author", message: "is required", code: "required" },
+                ]);
+            }
+        });
+    });
+
+    describe("modifiers", () => {
+        test("fills defaults with a copy of the default value", () => {
+            const tags = schema.array(schema.string()).default([]);
+            const first = tags.parse(undefined);
+            first.push("mutated");
+
+            expect(tags.parse(undefined)).toEqual([]);
+        });
+
+        test("accepts null only for nullable schemas", () => {
+            expect(schema.string().nullable().parse(null)).toBeNull();
+            expect(schema.string().safeParse(null).success).toBe(false);
+        });
+
+        test("validates enum values", () => {
+            const status = schema.enum(["draft", "published"] as const);
+
+            expect(status.parse("draft")).toBe("draft");
+            expect(status.safeParse("archived")).toEqual({
+                success: false,
+                errors: [{ field: "", message: "must be one of draft, published", code: "invalid_enum_value" }],
+            });
+        });
+    });
+
+    describe("toJsonSchema", () => {
+        test("renders constraints, required properties, defaults and nullability", () => {
+            const post = schema.object({
+                title: schema.string().min(1).max(200).describe("Title"),
+                views: schema.integer().min(0).default(0),
+                summary: schema.string().nullable().optional(),
+            });
+
+            expect(post.toJsonSchema()).toEqual({
+                type: "object",
+                properties: {
+                    title: { type: "string", minLength: 1, maxLength: 200, description: "Title" },
+                    views: { type: "integer", minimum: 0, default: 0 },
+                    summary: { type: ["string", "null"] },
+                },
+                required: ["title"],
+            });
+        });
+    });
+});
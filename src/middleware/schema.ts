@@ -0,0 +1,437 @@
+import { BadRequestError, FieldError } from "./error-handler";
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ParseOptions {
+  /** Convert strings to numbers, booleans and arrays, as needed for query strings, path parameters and headers */
+  coerce?: boolean;
+  /** Prefix for the field names reported in errors, e.g. `body` or `query` */
+  path?: string;
+}
+
+export type ParseResult<T> =
+    | { success: true; data: T }
+    | { success: false; errors: FieldError[] };
+
+interface ParseContext {
+  coerce: boolean;
+  errors: FieldError[];
+}
+
+interface SchemaFlags {
+  optional: boolean;
+  nullable: boolean;
+  hasDefault: boolean;
+  defaultValue?: unknown;
+  description?: string;
+}
+
+export class ValidationError extends BadRequestError {
+    constructor(errors: FieldError[], message: string = "Validation failed") {
+        super(message, { code: "VALIDATION_FAILED", errors });
+        this.name = "ValidationError";
+    }
+}
+
+/**
+ * Base class of the declarative schemas. A schema validates and coerces unknown input,
+ * carries the TypeScript type of its output and renders itself as JSON Schema.
+ */
+export abstract class Schema<T> {
+    /** Type-level marker only, never set at runtime */
+    declare readonly _output: T;
+
+    protected flags: SchemaFlags = { optional: false, nullable: false, hasDefault: false };
+
+    optional(): Schema<T | undefined> {
+        return this.clone({ flags: { ...this.flags, optional: true } }) as unknown as Schema<T | undefined>;
+    }
+
+    nullable(): Schema<T | null> {
+        return this.clone({ flags: { ...this.flags, nullable: true } }) as unknown as Schema<T | null>;
+    }
+
+    default(value: Exclude<T, undefined>): Schema<Exclude<T, undefined>> {
+        return this.clone({ flags: { ...this.flags, hasDefault: true, defaultValue: value } }) as unknown as Schema<Exclude<T, undefined>>;
+    }
+
+    describe(description: string): this {
+        return this.clone({ flags: { ...this.flags, description } });
+    }
+
+    isRequired(): boolean {
+        return !this.flags.optional && !this.flags.hasDefault;
+    }
+
+    safeParse(value: unknown, options: ParseOptions = {}): ParseResult<T> {
+        const context: ParseContext = { coerce: !!options.coerce, errors: [] };
+        const data = this.run(value, options.path || "", context);
+
+        if (context.errors.length > 0) {
+            return { success: false, errors: context.errors };
+        }
+
+        return { success: true, data: data as T };
+    }
+
+    parse(value: unknown, options: ParseOptions = {}): T {
+        const result = this.safeParse(value, options);
+        if (!result.success) {
+            throw new ValidationError(result.errors);
+        }
+        return result.data;
+    }
+
+    toJsonSchema(): JsonSchema {
+        const schema = this.buildJsonSchema();
+
+        if (this.flags.nullable) {
+            const type = schema.type;
+            if (typeof type === "string") {
+                schema.type = [type, "null"];
+            } else {
+                return { anyOf: [schema, { type: "null" }] };
+            }
+        }
+
+        if (this.flags.description) schema.description = this.flags.description;
+        if (this.flags.hasDefault) schema.default = this.flags.defaultValue;
+
+        return schema;
+    }
+
+    /** @internal */
+    run(value: unknown, path: string, context: ParseContext): unknown {
+        if (value === undefined) {
+            if (this.flags.hasDefault) {
+                return JSON.parse(JSON.stringify(this.flags.defaultValue));
+            }
+            if (!this.flags.optional) {
+                context.errors.push({ field: path, message: "is required", code: "required" });
+            }
+            return undefined;
+        }
+
+        if (value === null && this.flags.nullable) {
+            return null;
+        }
+
+        return this.check(value, path, context);
+    }
+
+    protected abstract check(value: unknown, path: string, context: ParseContext): unknown;
+
+    protected abstract buildJsonSchema(): JsonSchema;
+
+    protected clone(patch: Record<string, unknown>): this {
+        return Object.assign(Object.create(Object.getPrototypeOf(this)), this, patch);
+    }
+
+    protected issue(context: ParseContext, path: string, message: string, code: string): undefined {
+        context.errors.push({ field: path, message, code });
+        return undefined;
+    }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnySchema = Schema<any>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type StringFormat = "email" | "uuid" | "uri" | "date-time";
+
+export class StringSchema extends Schema<string> {
+    private minLength?: number;
+    private maxLength?: number;
+    private pattern?: RegExp;
+    private format?: StringFormat;
+
+    min(length: number): StringSchema {
+        return this.clone({ minLength: length });
+    }
+
+    max(length: number): StringSchema {
+        return this.clone({ maxLength: length });
+    }
+
+    regex(pattern: RegExp): StringSchema {
+        return this.clone({ pattern });
+    }
+
+    email(): StringSchema {
+        return this.clone({ format: "email" });
+    }
+
+    uuid(): StringSchema {
+        return this.clone({ format: "uuid" });
+    }
+
+    url(): StringSchema {
+        return this.clone({ format: "uri" });
+    }
+
+    datetime(): StringSchema {
+        return this.clone({ format: "date-time" });
+    }
+
+    protected check(value: unknown, path: string, context: ParseContext): unknown {
+        if (typeof value !== "string") {
+            return this.issue(context, path, "must be a string", "invalid_type");
+        }
+        if (this.minLength !== undefined && value.length < this.minLength) {
+            return this.issue(context, path, `must be at least ${this.minLength} characters`, "too_short");
+        }
+        if (this.maxLength !== undefined && value.length > this.maxLength) {
+            return this.issue(context, path, `must be at most ${this.maxLength} characters`, "too_long");
+        }
+        if (this.pattern && !this.pattern.test(value)) {
+            return this.issue(context, path, `must match ${this.pattern.source}`, "invalid_string");
+        }
+        if (this.format && !matchesFormat(value, this.format)) {
+            return this.issue(context, path, `must be a valid ${this.format}`, "invalid_format");
+        }
+        return value;
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        return {
+            type: "string",
+            ...(this.minLength !== undefined && { minLength: this.minLength }),
+            ...(this.maxLength !== undefined && { maxLength: this.maxLength }),
+            ...(this.pattern && { pattern: this.pattern.source }),
+            ...(this.format && { format: this.format }),
+        };
+    }
+}
+
+export class NumberSchema extends Schema<number> {
+    private minimum?: number;
+    private maximum?: number;
+    private integer = false;
+
+    min(value: number): NumberSchema {
+        return this.clone({ minimum: value });
+    }
+
+    max(value: number): NumberSchema {
+        return this.clone({ maximum: value });
+    }
+
+    int(): NumberSchema {
+        return this.clone({ integer: true });
+    }
+
+    protected check(value: unknown, path: string, context: ParseContext): unknown {
+        let candidate = value;
+        if (context.coerce && typeof candidate === "string" && candidate.trim() !== "") {
+            candidate = Number(candidate);
+        }
+
+        if (typeof candidate !== "number" || Number.isNaN(candidate)) {
+            return this.issue(context, path, "must be a number", "invalid_type");
+        }
+        if (this.integer && !Number.isInteger(candidate)) {
+            return this.issue(context, path, "must be an integer", "invalid_type");
+        }
+        if (this.minimum !== undefined && candidate < this.minimum) {
+            return this.issue(context, path, `must be greater than or equal to ${this.minimum}`, "too_small");
+        }
+        if (this.maximum !== undefined && candidate > this.maximum) {
+            return this.issue(context, path, `must be less than or equal to ${this.maximum}`, "too_big");
+        }
+        return candidate;
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        return {
+            type: this.integer ? "integer" : "number",
+            ...(this.minimum !== undefined && { minimum: this.minimum }),
+            ...(this.maximum !== undefined && { maximum: this.maximum }),
+        };
+    }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+    protected check(value: unknown, path: string, context: ParseContext): unknown {
+        if (context.coerce && typeof value === "string") {
+            if (value === "true" || value === "1") return true;
+            if (value === "false" || value === "0") return false;
+        }
+        if (typeof value !== "boolean") {
+            return this.issue(context, path, "must be a boolean", "invalid_type");
+        }
+        return value;
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        return { type: "boolean" };
+    }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+    constructor(private readonly values: readonly T[]) {
+        super();
+    }
+
+    protected check(value: unknown, path: string, context: ParseContext): unknown {
+        if (typeof value !== "string" || !this.values.includes(value as T)) {
+            return this.issue(context, path, `must be one of ${this.values.join(", ")}`, "invalid_enum_value");
+        }
+        return value;
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        return { type: "string", enum: [...this.values] };
+    }
+}
+
+export class ArraySchema<TItem extends AnySchema> extends Schema<Infer<TItem>[]> {
+    private minItems?: number;
+    private maxItems?: number;
+
+    constructor(private readonly item: TItem) {
+        super();
+    }
+
+    min(count: number): ArraySchema<TItem> {
+        return this.clone({ minItems: count });
+    }
+
+    max(count: number): ArraySchema<TItem> {
+        return this.clone({ maxItems: count });
+    }
+
+    protected check(value: unknown, path: string, context: ParseContext): unknown {
+        let candidate = value;
+        if (context.coerce && typeof candidate === "string") {
+            candidate = candidate === "" ? [] : candidate.split(",");
+        }
+
+        if (!Array.isArray(candidate)) {
+            return this.issue(context, path, "must be an array", "invalid_type");
+        }
+        if (this.minItems !== undefined && candidate.length < this.minItems) {
+            return this.issue(context, path, `must contain at least ${this.minItems} items`, "too_small");
+        }
+        if (this.maxItems !== undefined && candidate.length > this.maxItems) {
+            return this.issue(context, path, `must contain at most ${this.maxItems} items`, "too_big");
+        }
+        return candidate.map((item, index) => this.item.run(item, `${path}[${index}]`, context));
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        return {
+            type: "array",
+            items: this.item.toJsonSchema(),
+            ...(this.minItems !== undefined && { minItems: this.minItems }),
+            ...(this.maxItems !== undefined && { maxItems: this.maxItems }),
+        };
+    }
+}
+
+export type ObjectShape = Record<string, AnySchema>;
+
+type OptionalKeys<TShape extends ObjectShape> = {
+    [K in keyof TShape]: undefined extends Infer<TShape[K]> ? K : never
+}[keyof TShape];
+
+type RequiredKeys<TShape extends ObjectShape> = Exclude<keyof TShape, OptionalKeys<TShape>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+export type ObjectOutput<TShape extends ObjectShape> = Simplify<
+    { [K in RequiredKeys<TShape>]: Infer<TShape[K]> } &
+    { [K in OptionalKeys<TShape>]?: Infer<TShape[K]> }
+>;
+
+/**
+ * Object schema. Properties that are not declared are dropped from the parsed value.
+ */
+export class ObjectSchema<TShape extends ObjectShape> extends Schema<ObjectOutput<TShape>> {
+    constructor(public readonly shape: TShape) {
+        super();
+    }
+
+    protected check(value: unknown, path: string, context: ParseContext): unknown {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return this.issue(context, path, "must be an object", "invalid_type");
+        }
+
+        const input = value as Record<string, unknown>;
+        const output: Record<string, unknown> = {};
+
+        Object.entries(this.shape).forEach(([key, schema]) => {
+            const parsed = schema.run(input[key], path ? `${path}.${key}` : key, context);
+            if (parsed !== undefined) {
+                output[key] = parsed;
+            }
+        });
+
+        return output;
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        const properties: Record<string, JsonSchema> = {};
+        const required: string[] = [];
+
+        Object.entries(this.shape).forEach(([key, schema]) => {
+            properties[key] = schema.toJsonSchema();
+            if (schema.isRequired()) {
+                required.push(key);
+            }
+        });
+
+        return {
+            type: "object",
+            properties,
+            ...(required.length > 0 && { required }),
+        };
+    }
+}
+
+export class UnknownSchema extends Schema<unknown> {
+    protected check(value: unknown): unknown {
+        return value;
+    }
+
+    protected buildJsonSchema(): JsonSchema {
+        return {};
+    }
+}
+
+/**
+ * Schema builders
+ */
+export const schema = {
+    string: (): StringSchema => new StringSchema(),
+    number: (): NumberSchema => new NumberSchema(),
+    integer: (): NumberSchema => new NumberSchema().int(),
+    boolean: (): BooleanSchema => new BooleanSchema(),
+    enum: <T extends string>(values: readonly T[]): EnumSchema<T> => new EnumSchema(values),
+    array: <TItem extends AnySchema>(item: TItem): ArraySchema<TItem> => new ArraySchema(item),
+    object: <TShape extends ObjectShape>(shape: TShape): ObjectSchema<TShape> => new ObjectSchema(shape),
+    unknown: (): UnknownSchema => new UnknownSchema(),
+};
+
+function matchesFormat(value: string, format: StringFormat): boolean {
+    switch (format) {
+    case "email":
+        return EMAIL_PATTERN.test(value);
+    case "uuid":
+        return UUID_PATTERN.test(value);
+    case "uri":
+        try {
+            new URL(value);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    case "date-time":
+        return !Number.isNaN(Date.parse(value));
+    default:
+        return true;
+    }
+}
@@ -1,19 +1,27 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
 import middy from "middy";
-import { BadRequestError } from "./error-handler";
+import { BadRequestError, FieldError, InternalServerError } from "./error-handler";
+import { Schema, ValidationError } from "./schema";
 
 export interface ValidatorOptions {
+  /** JSON Schema, or a `schema` builder instance, for the request body */
   inputSchema?: any;
+  /** JSON Schema, or a `schema` builder instance, for the response body */
   outputSchema?: any;
+  /** Fail with a 500 instead of logging when the response does not match `outputSchema` */
+  enforceOutput?: boolean;
   ajvOptions?: any;
 }
 
+type ValidateFunction = (data: unknown) => { data: unknown; errors: FieldError[] };
+
 let ajv: any;
 
 export const validator = (options: ValidatorOptions): middy.MiddlewareObject<APIGatewayProxyEvent, APIGatewayProxyResult> => {
     const {
         inputSchema,
         outputSchema,
+        enforceOutput = false,
         ajvOptions = {
             allErrors: true,
             coerceTypes: true,
@@ -21,8 +29,10 @@ export const validator = (options: ValidatorOptions): middy.MiddlewareObject<API
         },
     } = options;
 
+    const needsAjv = [inputSchema, outputSchema].some(candidate => candidate && !(candidate instanceof Schema));
+
     // Lazy load ajv to reduce cold start time if not needed
-    if (!ajv) {
+    if (!ajv && needsAjv) {
         try {
             // Try to import ajv
             const Ajv = require("ajv");
@@ -33,22 +43,12 @@ export const validator = (options: ValidatorOptions): middy.MiddlewareObject<API
         }
     }
 
-    let validateInput: any;
-    let validateOutput: any;
-
-    if (ajv) {
-        if (inputSchema) {
-            validateInput = ajv.compile(inputSchema);
-        }
-
-        if (outputSchema) {
-            validateOutput = ajv.compile(outputSchema);
-        }
-    }
+    const validateInput = compileSchema(inputSchema, "body");
+    const validateOutput = compileSchema(outputSchema, "response");
 
     return {
         before: async (request) => {
-            if (!validateInput || !ajv) return;
+            if (!validateInput) return;
 
             const { event } = request;
             let data: any;
@@ -59,22 +59,17 @@ export const validator = (options: ValidatorOptions): middy.MiddlewareObject<API
                 throw new BadRequestError("Invalid JSON in request body");
             }
 
-            const valid = validateInput(data);
+            const result = validateInput(data);
 
-            if (!valid) {
-                const errors = validateInput.errors.map((err: any) => ({
-                    field: err.instancePath,
-                    message: err.message,
-                }));
-
-                throw new BadRequestError(`Validation error: ${JSON.stringify(errors)}`);
+            if (result.errors.length > 0) {
+                throw new ValidationError(result.errors, "Validation error");
             }
 
             // Replace the event.body with the validated data
-            event.body = JSON.stringify(data);
+            event.body = JSON.stringify(result.data);
         },
         after: async (request) => {
-            if (!validateOutput || !ajv) return;
+            if (!validateOutput) return;
 
             const { response } = request;
 
@@ -89,14 +84,44 @@ export const validator = (options: ValidatorOptions): middy.MiddlewareObject<API
                 return;
             }
 
-            const valid = validateOutput(data);
+            const { errors } = validateOutput(data);
+
+            if (errors.length > 0) {
+                console.error("Response validation error:", errors);
 
-            if (!valid) {
-                console.error("Response validation error:", validateOutput.errors);
+                if (enforceOutput) {
+                    throw new InternalServerError("Internal Server Error", { code: "RESPONSE_VALIDATION_FAILED" });
+                }
 
-                // Don't throw an error, just log it
-                // This prevents breaking the response to the client
+                // Otherwise just log it, so the response still reaches the client
             }
         },
     };
 };
+
+function compileSchema(definition: any, path: string): ValidateFunction | undefined {
+    if (!definition) return undefined;
+
+    if (definition instanceof Schema) {
+        return (data) => {
+            const result = definition.safeParse(data, { path });
+            return result.success ? { data: result.data, errors: [] } : { data, errors: result.errors };
+        };
+    }
+
+    if (!ajv) return undefined;
+
+    const validate = ajv.compile(definition);
+
+    // ajv mutates the data in place when coercing types and applying defaults
+    return (data) => validate(data)
+        ? { data, errors: [] }
+        : {
+            data,
+            errors: validate.errors.map((err: any) => ({
+                field: `${path}${err.instancePath.replace(/\//g, ".")}`,
+                message: err.message,
+                code: err.keyword,
+            })),
+        };
+}
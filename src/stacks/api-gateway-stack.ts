@@ -4,31 +4,50 @@ import * as cognito from "aws-cdk-lib/aws-cognito";
 import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as logs from "aws-cdk-lib/aws-logs";
 import { Construct } from "constructs";
+import { OpenApiDocument, OpenApiOperation } from "../lambda/openapi";
+import { CorsPolicy, DEFAULT_CORS_HEADERS, DEFAULT_CORS_METHODS, defaultCorsPolicy, isWildcardOrigin } from "../middleware/cors";
 
-export interface CorsOptions {
-  allowOrigins?: string[];
-  allowMethods?: string[];
-  allowHeaders?: string[];
-  allowCredentials?: boolean;
-}
+/**
+ * @deprecated Use `CorsPolicy`
+ */
+export type CorsOptions = CorsPolicy;
 
 export interface AuthorizerOptions {
   type: "COGNITO_USER_POOLS" | "LAMBDA" | "IAM";
   authorizerName: string;
   userPools?: cognito.UserPool[];
   lambdaFunction?: lambda.Function;
+  /**
+   * Creates a REQUEST authorizer reading these sources, e.g. `apigateway.IdentitySource.header("Authorization")`;
+   * a TOKEN authorizer reading the Authorization header is created otherwise
+   */
+  identitySources?: string[];
+  /** How long API Gateway caches the authorizer's policy per identity (default: 5 minutes) */
+  resultsCacheTtl?: cdk.Duration;
+}
+
+export interface OpenApiIntegrationOptions {
+  /** Validate request bodies and parameters in API Gateway before invoking the function (default: true) */
+  validateRequests?: boolean;
 }
 
 export interface ApiGatewayStackProps extends cdk.StackProps {
   stageName?: string;
-  cors?: boolean | CorsOptions;
+  /** Pass the policy the lambdas use, so API Gateway's preflight agrees with their headers */
+  cors?: boolean | CorsPolicy;
   apiName: string;
   defaultAuthorizer?: AuthorizerOptions;
+  /**
+   * Media types API Gateway passes through as binary. Needed for buffer, stream and compressed
+   * `RestApiLambda` responses, which the any-type wildcard covers.
+   */
+  binaryMediaTypes?: string[];
 }
 
 export class ApiGatewayStack extends cdk.Stack {
     public readonly api: apigateway.RestApi;
     public readonly defaultAuthorizer?: apigateway.IAuthorizer;
+    private requestValidator?: apigateway.RequestValidator;
 
     constructor(scope: Construct, id: string, props: ApiGatewayStackProps) {
         super(scope, id, props);
@@ -50,6 +69,7 @@ export class ApiGatewayStack extends cdk.Stack {
                 accessLogFormat: apigateway.AccessLogFormat.jsonWithStandardFields(),
             },
             defaultCorsPreflightOptions: this.getCorsOptions(props.cors),
+            binaryMediaTypes: props.binaryMediaTypes,
         });
 
         // Create default authorizer if specified
@@ -64,23 +84,25 @@ export class ApiGatewayStack extends cdk.Stack {
         });
     }
 
-    private getCorsOptions(cors?: boolean | CorsOptions): apigateway.CorsOptions | undefined {
+    /**
+     * Preflight options for API Gateway. Origin patterns cannot be evaluated by API Gateway,
+     * so their preflight requests are left to the lambdas, which must accept `OPTIONS`.
+     */
+    private getCorsOptions(cors?: boolean | CorsPolicy): apigateway.CorsOptions | undefined {
         if (!cors) return undefined;
 
-        if (cors === true) {
-            return {
-                allowOrigins: apigateway.Cors.ALL_ORIGINS,
-                allowMethods: apigateway.Cors.ALL_METHODS,
-                allowHeaders: ["Content-Type", "Authorization", "X-Amz-Date", "X-Api-Key"],
-                allowCredentials: true,
-            };
-        }
+        const policy = cors === true ? defaultCorsPolicy : cors;
+        if (policy.allowOrigins instanceof RegExp) return undefined;
+
+        const wildcard = isWildcardOrigin(policy);
 
         return {
-            allowOrigins: cors.allowOrigins || apigateway.Cors.ALL_ORIGINS,
-            allowMethods: cors.allowMethods || apigateway.Cors.ALL_METHODS,
-            allowHeaders: cors.allowHeaders || ["Content-Type", "Authorization", "X-Amz-Date", "X-Api-Key"],
-            allowCredentials: cors.allowCredentials !== false,
+            allowOrigins: wildcard ? apigateway.Cors.ALL_ORIGINS : policy.allowOrigins as string[],
+            allowMethods: policy.allowMethods || DEFAULT_CORS_METHODS,
+            allowHeaders: policy.allowHeaders || DEFAULT_CORS_HEADERS,
+            // Browsers reject credentials with a wildcard origin
+            allowCredentials: !wildcard && Boolean(policy.allowCredentials),
+            ...(policy.maxAge !== undefined && { maxAge: cdk.Duration.seconds(policy.maxAge) }),
         };
     }
 
@@ -99,9 +121,18 @@ export class ApiGatewayStack extends cdk.Stack {
             if (!options.lambdaFunction) {
                 throw new Error("Lambda function is required for Lambda authorizer");
             }
+            if (options.identitySources) {
+                return new apigateway.RequestAuthorizer(this, options.authorizerName, {
+                    handler: options.lambdaFunction,
+                    authorizerName: options.authorizerName,
+                    identitySources: options.identitySources,
+                    resultsCacheTtl: options.resultsCacheTtl,
+                });
+            }
             return new apigateway.TokenAuthorizer(this, options.authorizerName, {
                 handler: options.lambdaFunction,
-                authorizerName: options.authorizerName
+                authorizerName: options.authorizerName,
+                resultsCacheTtl: options.resultsCacheTtl,
             });
 
         case "IAM":
@@ -155,6 +186,64 @@ export class ApiGatewayStack extends cdk.Stack {
         );
     }
 
+    /**
+     * Adds a proxy integration for every operation of an OpenAPI document generated with
+     * `getOpenApiDocument`, with request models and validators derived from its schemas.
+     * Operations with required auth use the default authorizer.
+     */
+    public addOpenApiIntegrations(
+        document: OpenApiDocument,
+        lambdaFunction: lambda.Function,
+        options: OpenApiIntegrationOptions = {}
+    ): apigateway.Method[] {
+        const methods: apigateway.Method[] = [];
+
+        Object.entries(document.paths).forEach(([path, operations]) => {
+            Object.entries(operations).forEach(([method, operation]) => {
+                const methodOptions = options.validateRequests === false ? {} : this.getOpenApiMethodOptions(operation);
+                const requiresAuth = !!operation.security?.length && operation.security.every(requirement => Object.keys(requirement).length > 0);
+
+                methods.push(requiresAuth
+                    ? this.addLambdaIntegration(path, method.toUpperCase(), lambdaFunction, methodOptions)
+                    : this.addLambdaIntegrationWithoutAuth(path, method.toUpperCase(), lambdaFunction, methodOptions));
+            });
+        });
+
+        return methods;
+    }
+
+    private getOpenApiMethodOptions(operation: OpenApiOperation): apigateway.MethodOptions {
+        const requestParameters: Record<string, boolean> = {};
+        (operation.parameters || []).forEach(parameter => {
+            const location = parameter.in === "query" ? "querystring" : parameter.in;
+            requestParameters[`method.request.${location}.${parameter.name}`] = parameter.required;
+        });
+
+        const bodySchema = operation.requestBody?.content["application/json"]?.schema;
+        const requestModels = bodySchema && {
+            "application/json": this.api.addModel(`${operation.operationId}Model`, {
+                contentType: "application/json",
+                modelName: `${operation.operationId.charAt(0).toUpperCase()}${operation.operationId.slice(1)}Request`,
+                schema: bodySchema as apigateway.JsonSchema,
+            }),
+        };
+
+        if (!requestModels && Object.keys(requestParameters).length === 0) {
+            return {};
+        }
+
+        this.requestValidator = this.requestValidator || this.api.addRequestValidator("OpenApiRequestValidator", {
+            validateRequestBody: true,
+            validateRequestParameters: true,
+        });
+
+        return {
+            requestValidator: this.requestValidator,
+            requestParameters,
+            ...(requestModels && { requestModels }),
+        };
+    }
+
     private getOrCreateResource(path: string): apigateway.Resource {
         const parts = path.split("/").filter(p => p);
         let resource: apigateway.IResource = this.api.root;
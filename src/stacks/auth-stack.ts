@@ -1,6 +1,7 @@
 import * as cdk from "aws-cdk-lib";
 import * as cognito from "aws-cdk-lib/aws-cognito";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as lambda from "aws-cdk-lib/aws-lambda";
 import { Construct } from "constructs";
 
 export interface AuthStackProps extends cdk.StackProps {
@@ -36,6 +37,22 @@ export interface AuthStackProps extends cdk.StackProps {
   };
 }
 
+export interface UserPoolTriggers {
+  preSignUp?: lambda.IFunction;
+  postConfirmation?: lambda.IFunction;
+  preTokenGeneration?: lambda.IFunction;
+  customMessage?: lambda.IFunction;
+  userMigration?: lambda.IFunction;
+}
+
+const TRIGGER_OPERATIONS: Record<keyof UserPoolTriggers, cognito.UserPoolOperation> = {
+    preSignUp: cognito.UserPoolOperation.PRE_SIGN_UP,
+    postConfirmation: cognito.UserPoolOperation.POST_CONFIRMATION,
+    preTokenGeneration: cognito.UserPoolOperation.PRE_TOKEN_GENERATION,
+    customMessage: cognito.UserPoolOperation.CUSTOM_MESSAGE,
+    userMigration: cognito.UserPoolOperation.USER_MIGRATION,
+};
+
 export class AuthStack extends cdk.Stack {
     public readonly userPool: cognito.UserPool;
     public readonly userPoolClient: cognito.UserPoolClient;
@@ -164,4 +181,17 @@ export class AuthStack extends cdk.Stack {
 
         return this.identityPool;
     }
+
+    /**
+     * Attaches Lambda triggers, e.g. subclasses of `PreSignUpLambda`, to the user pool.
+     * Cognito gets permission to invoke each function.
+     */
+    public addTriggers(triggers: UserPoolTriggers): void {
+        (Object.keys(triggers) as (keyof UserPoolTriggers)[]).forEach(name => {
+            const fn = triggers[name];
+            if (fn) {
+                this.userPool.addTrigger(TRIGGER_OPERATIONS[name], fn);
+            }
+        });
+    }
 }
@@ -22,6 +22,8 @@ export interface DynamoDBTableProps {
     writeCapacity?: number;
     pointInTimeRecovery?: boolean;
     ttlAttributeName?: string;
+    /** Enables a stream, e.g. NEW_AND_OLD_IMAGES for the change diffs of `DynamoDBStreamLambda` */
+    stream?: dynamodb.StreamViewType;
     globalSecondaryIndexes?: {
         indexName: string;
         partitionKey: {
@@ -67,6 +69,7 @@ export class DatabaseStack extends cdk.Stack {
             pointInTimeRecovery: props.pointInTimeRecovery || false,
             removalPolicy: cdk.RemovalPolicy.RETAIN,
             timeToLiveAttribute: props.ttlAttributeName,
+            stream: props.stream,
         });
 
         // Add GSIs if specified
@@ -103,6 +106,44 @@ export class DatabaseStack extends cdk.Stack {
         return table;
     }
 
+    /**
+     * Creates the table used by `Idempotency`, and grants the given functions access to it
+     * through the `IDEMPOTENCY_TABLE_NAME` environment variable
+     */
+    public addIdempotencyTable(tableName: string = "idempotency", functions: lambda.Function[] = []): dynamodb.Table {
+        const table = this.addDynamoDBTable({
+            tableName,
+            partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+            ttlAttributeName: "expiresAt",
+        });
+
+        functions.forEach(fn => {
+            table.grantReadWriteData(fn);
+            fn.addEnvironment("IDEMPOTENCY_TABLE_NAME", table.tableName);
+        });
+
+        return table;
+    }
+
+    /**
+     * Creates the table holding the leases and run records of `ScheduledLambda`, and grants
+     * the given functions access to it through the `SCHEDULED_JOBS_TABLE_NAME` environment variable
+     */
+    public addScheduledJobTable(tableName: string = "scheduled-jobs", functions: lambda.Function[] = []): dynamodb.Table {
+        const table = this.addDynamoDBTable({
+            tableName,
+            partitionKey: { name: "id", type: dynamodb.AttributeType.STRING },
+            ttlAttributeName: "expiresAt",
+        });
+
+        functions.forEach(fn => {
+            table.grantReadWriteData(fn);
+            fn.addEnvironment("SCHEDULED_JOBS_TABLE_NAME", table.tableName);
+        });
+
+        return table;
+    }
+
     private createTableApis(table: dynamodb.Table, props: DynamoDBTableProps) {
         const { apiConfig } = props;
         if (!apiConfig) return;
@@ -2,7 +2,15 @@ import * as cdk from "aws-cdk-lib";
 import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as logs from "aws-cdk-lib/aws-logs";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as scheduler from "aws-cdk-lib/aws-scheduler";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as kinesis from "aws-cdk-lib/aws-kinesis";
+import * as eventSources from "aws-cdk-lib/aws-lambda-event-sources";
+import * as sfn from "aws-cdk-lib/aws-stepfunctions";
+import * as tasks from "aws-cdk-lib/aws-stepfunctions-tasks";
 import { Construct } from "constructs";
+import { TaskErrorType } from "../lambda/step-function-task-lambda";
 
 export interface ServerlessStackProps extends cdk.StackProps {
   environment?: Record<string, string>;
@@ -10,6 +18,69 @@ export interface ServerlessStackProps extends cdk.StackProps {
   memorySize?: number;
 }
 
+export interface StateMachineRetryOptions {
+  /** Default: 3 */
+  maxAttempts?: number;
+  /** Default: 2 seconds */
+  interval?: cdk.Duration;
+  /** Default: 2 */
+  backoffRate?: number;
+}
+
+export interface StateMachineTask {
+  name: string;
+  lambdaFunction: lambda.IFunction;
+  /** Pass `{ taskToken, input }` and wait for `SendTaskSuccess`/`SendTaskFailure` */
+  waitForTaskToken?: boolean;
+  timeout?: cdk.Duration;
+  /** Fail the task when no heartbeat arrives within this time, for `waitForTaskToken` tasks */
+  heartbeat?: cdk.Duration;
+  /** Overrides the state machine's retry options for this task */
+  retry?: StateMachineRetryOptions;
+}
+
+export interface StateMachineOptions {
+  stateMachineName?: string;
+  /** Run one after the other, each receiving the output of the previous one */
+  tasks: StateMachineTask[];
+  retry?: StateMachineRetryOptions;
+  timeout?: cdk.Duration;
+  /** Default: `ERROR` */
+  logLevel?: sfn.LogLevel;
+  /** Log state inputs and outputs, which may contain personal data (default: false) */
+  includeExecutionData?: boolean;
+  logRetention?: logs.RetentionDays;
+}
+
+export interface ScheduleOptions {
+  /** `rate(1 hour)`, `cron(0 3 * * ? *)` or `at(2030-01-01T00:00:00)` */
+  expression: string;
+  /** Passed to `ScheduledLambda` as the job name (default: the schedule's id) */
+  jobName?: string;
+  /** IANA time zone of cron and at expressions, e.g. `Europe/Berlin` (default: UTC) */
+  timeZone?: string;
+  /** Let EventBridge Scheduler spread invocations over this window after the scheduled time */
+  flexibleWindow?: cdk.Duration;
+  /** Passed to `ScheduledLambda` as the job's payload */
+  payload?: Record<string, unknown>;
+  /** Default: true */
+  enabled?: boolean;
+  /** Retries of failed invocations (default: 2) */
+  retryAttempts?: number;
+  /** Drop invocations not delivered within this time (default: 1 hour) */
+  maxEventAge?: cdk.Duration;
+  /** Receives invocations that failed all retries */
+  deadLetterQueue?: sqs.IQueue;
+  scheduleName?: string;
+  groupName?: string;
+}
+
+const DEFAULT_SCHEDULE_RETRY_ATTEMPTS = 2;
+const DEFAULT_SCHEDULE_MAX_EVENT_AGE_HOURS = 1;
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_INTERVAL_SECONDS = 2;
+const DEFAULT_BACKOFF_RATE = 2;
+
 export class ServerlessStack extends cdk.Stack {
     constructor(scope: Construct, id: string, props: ServerlessStackProps = {}) {
         super(scope, id, props);
@@ -77,4 +148,178 @@ export class ServerlessStack extends cdk.Stack {
             action,
         });
     }
+
+    /**
+     * Subscribes the function to the queue with partial batch responses enabled, so the
+     * `batchItemFailures` returned by `EventLambda.processBatch` are honored
+     */
+    public addSqsEventSource(
+        lambdaFunction: lambda.Function,
+        queue: sqs.IQueue,
+        options: Omit<eventSources.SqsEventSourceProps, "reportBatchItemFailures"> = {}
+    ): void {
+        lambdaFunction.addEventSource(new eventSources.SqsEventSource(queue, {
+            ...options,
+            reportBatchItemFailures: true,
+        }));
+    }
+
+    /**
+     * Subscribes the function to the table's stream with partial batch responses enabled,
+     * so the `batchItemFailures` returned by `DynamoDBStreamLambda` are honored
+     */
+    public addDynamoDBStreamEventSource(
+        lambdaFunction: lambda.Function,
+        table: dynamodb.ITable,
+        options: Partial<Omit<eventSources.DynamoEventSourceProps, "reportBatchItemFailures">> = {}
+    ): void {
+        lambdaFunction.addEventSource(new eventSources.DynamoEventSource(table, {
+            startingPosition: lambda.StartingPosition.LATEST,
+            ...options,
+            reportBatchItemFailures: true,
+        }));
+    }
+
+    /**
+     * Subscribes the function to the stream with partial batch responses and batch bisecting
+     * enabled, so failing records returned by `KinesisStreamLambda` are retried in isolation
+     */
+    public addKinesisEventSource(
+        lambdaFunction: lambda.Function,
+        stream: kinesis.IStream,
+        options: Partial<Omit<eventSources.KinesisEventSourceProps, "reportBatchItemFailures">> = {}
+    ): void {
+        lambdaFunction.addEventSource(new eventSources.KinesisEventSource(stream, {
+            startingPosition: lambda.StartingPosition.LATEST,
+            bisectBatchOnError: true,
+            ...options,
+            reportBatchItemFailures: true,
+        }));
+    }
+
+    /**
+     * Chains `StepFunctionTaskLambda` functions into a state machine. `RetryableTaskError`s
+     * and Lambda service errors are retried with backoff; any other error, or retries running
+     * out, fails the execution with the task's error name and message.
+     */
+    public createStateMachine(id: string, options: StateMachineOptions): sfn.StateMachine {
+        if (options.tasks.length === 0) {
+            throw new Error("A state machine needs at least one task");
+        }
+
+        const failed = new sfn.Fail(this, `${id}Failed`, {
+            errorPath: "$.error.Error",
+            causePath: "$.error.Cause",
+        });
+
+        const states = options.tasks.map(task => {
+            const retry = { ...options.retry, ...task.retry };
+            const state = task.waitForTaskToken
+                ? new tasks.LambdaInvoke(this, `${id}${task.name}`, {
+                    lambdaFunction: task.lambdaFunction,
+                    integrationPattern: sfn.IntegrationPattern.WAIT_FOR_TASK_TOKEN,
+                    payload: sfn.TaskInput.fromObject({
+                        taskToken: sfn.JsonPath.taskToken,
+                        input: sfn.JsonPath.entirePayload,
+                    }),
+                    ...(task.timeout && { taskTimeout: sfn.Timeout.duration(task.timeout) }),
+                    ...(task.heartbeat && { heartbeatTimeout: sfn.Timeout.duration(task.heartbeat) }),
+                })
+                : new tasks.LambdaInvoke(this, `${id}${task.name}`, {
+                    lambdaFunction: task.lambdaFunction,
+                    payloadResponseOnly: true,
+                    ...(task.timeout && { taskTimeout: sfn.Timeout.duration(task.timeout) }),
+                });
+
+            state.addRetry({
+                errors: [TaskErrorType.Retryable],
+                maxAttempts: retry.maxAttempts ?? DEFAULT_RETRY_ATTEMPTS,
+                interval: retry.interval || cdk.Duration.seconds(DEFAULT_RETRY_INTERVAL_SECONDS),
+                backoffRate: retry.backoffRate ?? DEFAULT_BACKOFF_RATE,
+            });
+            state.addCatch(failed, { errors: [sfn.Errors.ALL], resultPath: "$.error" });
+
+            return state;
+        });
+
+        const definition = states.slice(1).reduce<sfn.Chain>((chain, state) => chain.next(state), sfn.Chain.start(states[0]));
+
+        const logGroup = new logs.LogGroup(this, `${id}Logs`, {
+            retention: options.logRetention || logs.RetentionDays.ONE_WEEK,
+        });
+
+        const stateMachine = new sfn.StateMachine(this, id, {
+            stateMachineName: options.stateMachineName,
+            definitionBody: sfn.DefinitionBody.fromChainable(definition),
+            timeout: options.timeout,
+            tracingEnabled: true,
+            logs: {
+                destination: logGroup,
+                level: options.logLevel || sfn.LogLevel.ERROR,
+                includeExecutionData: options.includeExecutionData ?? false,
+            },
+        });
+
+        // A separate policy rather than addToRolePolicy, which the functions depend on: granting on the
+        // state machine's ARN there would make them depend on the state machine that invokes them
+        const taskTokenRoles = options.tasks
+            .filter(task => task.waitForTaskToken && task.lambdaFunction.role)
+            .map(task => task.lambdaFunction.role as iam.IRole);
+
+        if (taskTokenRoles.length > 0) {
+            new iam.Policy(this, `${id}TaskTokenPolicy`, {
+                roles: taskTokenRoles,
+                statements: [new iam.PolicyStatement({
+                    actions: ["states:SendTaskSuccess", "states:SendTaskFailure", "states:SendTaskHeartbeat"],
+                    resources: [stateMachine.stateMachineArn],
+                })],
+            });
+        }
+
+        new cdk.CfnOutput(this, `${id}StateMachineArn`, {
+            value: stateMachine.stateMachineArn,
+            exportName: `${this.stackName}-${id}-StateMachineArn`,
+        });
+
+        return stateMachine;
+    }
+
+    /**
+     * Invokes the function on a rate, cron or one-time schedule through EventBridge Scheduler,
+     * with the payload expected by `ScheduledLambda`
+     */
+    public addSchedule(id: string, lambdaFunction: lambda.IFunction, options: ScheduleOptions): scheduler.CfnSchedule {
+        const role = new iam.Role(this, `${id}ScheduleRole`, {
+            assumedBy: new iam.ServicePrincipal("scheduler.amazonaws.com"),
+        });
+        lambdaFunction.grantInvoke(role);
+        options.deadLetterQueue?.grantSendMessages(role);
+
+        return new scheduler.CfnSchedule(this, id, {
+            name: options.scheduleName,
+            groupName: options.groupName,
+            scheduleExpression: options.expression,
+            scheduleExpressionTimezone: options.timeZone,
+            state: options.enabled === false ? "DISABLED" : "ENABLED",
+            flexibleTimeWindow: options.flexibleWindow
+                ? { mode: "FLEXIBLE", maximumWindowInMinutes: options.flexibleWindow.toMinutes() }
+                : { mode: "OFF" },
+            target: {
+                arn: lambdaFunction.functionArn,
+                roleArn: role.roleArn,
+                input: JSON.stringify({
+                    jobName: options.jobName || id,
+                    scheduledTime: "<aws.scheduler.scheduled-time>",
+                    executionId: "<aws.scheduler.execution-id>",
+                    attempt: "<aws.scheduler.attempt-number>",
+                    ...(options.payload && { payload: options.payload }),
+                }),
+                retryPolicy: {
+                    maximumRetryAttempts: options.retryAttempts ?? DEFAULT_SCHEDULE_RETRY_ATTEMPTS,
+                    maximumEventAgeInSeconds: (options.maxEventAge || cdk.Duration.hours(DEFAULT_SCHEDULE_MAX_EVENT_AGE_HOURS)).toSeconds(),
+                },
+                ...(options.deadLetterQueue && { deadLetterConfig: { arn: options.deadLetterQueue.queueArn } }),
+            },
+        });
+    }
 }
@@ -0,0 +1,754 @@
+import { AttributeValue, DynamoDBServiceException } from "@aws-sdk/client-dynamodb";
+
+/**
+ * Parser and evaluator of DynamoDB condition, update and projection expressions over
+ * marshalled items, used by `InMemoryDynamoDB`
+ */
+
+export type StoredItem = Record<string, AttributeValue>;
+
+export type DocumentPath = Array<string | number>;
+
+export type Operand =
+    | { kind: "path"; path: DocumentPath }
+    | { kind: "value"; value: AttributeValue }
+    | { kind: "size"; path: DocumentPath }
+    | { kind: "ifNotExists"; path: DocumentPath; fallback: Operand }
+    | { kind: "listAppend"; first: Operand; second: Operand }
+    | { kind: "arithmetic"; operator: "+" | "-"; left: Operand; right: Operand };
+
+export type Comparator = "=" | "<>" | "<" | "<=" | ">" | ">=";
+
+export type ConditionNode =
+    | { kind: "compare"; comparator: Comparator; left: Operand; right: Operand }
+    | { kind: "between"; operand: Operand; low: Operand; high: Operand }
+    | { kind: "in"; operand: Operand; candidates: Operand[] }
+    | { kind: "and" | "or"; left: ConditionNode; right: ConditionNode }
+    | { kind: "not"; condition: ConditionNode }
+    | { kind: "function"; name: ConditionFunction; args: Operand[] };
+
+type ConditionFunction = "attribute_exists" | "attribute_not_exists" | "attribute_type" | "begins_with" | "contains";
+
+export type UpdateAction =
+    | { kind: "SET"; path: DocumentPath; value: Operand }
+    | { kind: "REMOVE"; path: DocumentPath }
+    | { kind: "ADD" | "DELETE"; path: DocumentPath; value: AttributeValue };
+
+type AttributeTypeName = "S" | "N" | "B" | "SS" | "NS" | "BS" | "M" | "L" | "NULL" | "BOOL";
+
+const ATTRIBUTE_TYPES: AttributeTypeName[] = ["S", "N", "B", "SS", "NS", "BS", "M", "L", "NULL", "BOOL"];
+const SCALAR_TYPES: AttributeTypeName[] = ["S", "N", "B"];
+const SET_TYPES: AttributeTypeName[] = ["SS", "NS", "BS"];
+const CONDITION_FUNCTIONS: ConditionFunction[] = ["attribute_exists", "attribute_not_exists", "attribute_type", "begins_with", "contains"];
+const COMPARATORS: Comparator[] = ["=", "<>", "<", "<=", ">", ">="];
+const MAX_IN_CANDIDATES = 100;
+
+export function validationException(message: string): DynamoDBServiceException {
+    return new DynamoDBServiceException({ name: "ValidationException", $fault: "client", $metadata: {}, message });
+}
+
+/**
+ * Placeholders of one request. DynamoDB rejects requests defining placeholders that none of
+ * their expressions use, so every lookup is recorded.
+ */
+export class ExpressionContext {
+    private usedNames = new Set<string>();
+    private usedValues = new Set<string>();
+
+    constructor(
+        private readonly names: Record<string, string> = {},
+        private readonly values: StoredItem = {}
+    ) {}
+
+    name(placeholder: string): string {
+        if (!(placeholder in this.names)) {
+            throw validationException(`An expression attribute name used in the document path is not defined; attribute name: ${placeholder}`);
+        }
+        this.usedNames.add(placeholder);
+        return this.names[placeholder];
+    }
+
+    value(placeholder: string): AttributeValue {
+        if (!(placeholder in this.values)) {
+            throw validationException(`An expression attribute value used in expression is not defined; attribute value: ${placeholder}`);
+        }
+        this.usedValues.add(placeholder);
+        return this.values[placeholder];
+    }
+
+    assertAllUsed(): void {
+        const unusedNames = Object.keys(this.names).filter(name => !this.usedNames.has(name));
+        const unusedValues = Object.keys(this.values).filter(value => !this.usedValues.has(value));
+
+        if (unusedNames.length > 0) {
+            throw validationException(`Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(", ")}}`);
+        }
+        if (unusedValues.length > 0) {
+            throw validationException(`Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(", ")}}`);
+        }
+    }
+}
+
+interface Token {
+  kind: "name" | "value" | "word" | "number" | "symbol" | "end";
+  text: string;
+}
+
+const TOKEN_PATTERN = /\s*(?:(#[A-Za-z0-9_]+)|(:[A-Za-z0-9_]+)|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|(<>|<=|>=|[()[\],.=<>+-]))/y;
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+
+    while (expression.slice(TOKEN_PATTERN.lastIndex).trim()) {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(expression);
+
+        if (!match) {
+            throw validationException(`Invalid expression: Syntax error; token: "${expression.slice(start).trim().split(/\s/)[0]}", near: "${expression}"`);
+        }
+
+        const [, name, value, word, number, symbol] = match;
+        if (name) tokens.push({ kind: "name", text: name });
+        else if (value) tokens.push({ kind: "value", text: value });
+        else if (word) tokens.push({ kind: "word", text: word });
+        else if (number) tokens.push({ kind: "number", text: number });
+        else tokens.push({ kind: "symbol", text: symbol });
+    }
+
+    tokens.push({ kind: "end", text: "" });
+    return tokens;
+}
+
+class ExpressionParser {
+    private tokens: Token[];
+    private position = 0;
+
+    constructor(private readonly expression: string, private readonly context: ExpressionContext) {
+        this.tokens = tokenize(expression);
+    }
+
+    parseCondition(): ConditionNode {
+        const condition = this.parseOr();
+        this.expectEnd();
+        return condition;
+    }
+
+    parseUpdate(): UpdateAction[] {
+        const actions: UpdateAction[] = [];
+        const clauses = new Set<string>();
+
+        while (this.peek().kind !== "end") {
+            const clause = this.next();
+            const keyword = clause.text.toUpperCase();
+
+            if (clause.kind !== "word" || !["SET", "REMOVE", "ADD", "DELETE"].includes(keyword)) {
+                throw this.syntaxError(clause);
+            }
+            if (clauses.has(keyword)) {
+                throw validationException(`Invalid UpdateExpression: The "${keyword}" section can only be used once in an update expression;`);
+            }
+            clauses.add(keyword);
+
+            do {
+                const path = this.parsePath();
+
+                if (keyword === "SET") {
+                    this.expectSymbol("=");
+                    actions.push({ kind: "SET", path, value: this.parseSetValue() });
+                } else if (keyword === "REMOVE") {
+                    actions.push({ kind: "REMOVE", path });
+                } else {
+                    actions.push({ kind: keyword as "ADD" | "DELETE", path, value: this.parseValue() });
+                }
+            } while (this.acceptSymbol(","));
+        }
+
+        if (actions.length === 0) {
+            throw validationException("Invalid UpdateExpression: The expression can not be empty;");
+        }
+
+        return actions;
+    }
+
+    parseProjection(): DocumentPath[] {
+        const paths: DocumentPath[] = [];
+        do {
+            paths.push(this.parsePath());
+        } while (this.acceptSymbol(","));
+
+        this.expectEnd();
+        return paths;
+    }
+
+    private parseOr(): ConditionNode {
+        let condition = this.parseAnd();
+        while (this.acceptWord("OR")) {
+            condition = { kind: "or", left: condition, right: this.parseAnd() };
+        }
+        return condition;
+    }
+
+    private parseAnd(): ConditionNode {
+        let condition = this.parseNot();
+        while (this.acceptWord("AND")) {
+            condition = { kind: "and", left: condition, right: this.parseNot() };
+        }
+        return condition;
+    }
+
+    private parseNot(): ConditionNode {
+        if (this.acceptWord("NOT")) {
+            return { kind: "not", condition: this.parseNot() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ConditionNode {
+        if (this.acceptSymbol("(")) {
+            const condition = this.parseOr();
+            this.expectSymbol(")");
+            return condition;
+        }
+
+        const token = this.peek();
+        const functionName = token.text.toLowerCase() as ConditionFunction;
+
+        if (token.kind === "word" && this.peek(1).text === "(" && CONDITION_FUNCTIONS.includes(functionName)) {
+            this.next();
+            return { kind: "function", name: functionName, args: this.parseArguments(() => this.parseOperand()) };
+        }
+
+        const operand = this.parseOperand();
+
+        if (this.acceptWord("BETWEEN")) {
+            const low = this.parseOperand();
+            this.expectWord("AND");
+            return { kind: "between", operand, low, high: this.parseOperand() };
+        }
+
+        if (this.acceptWord("IN")) {
+            const candidates = this.parseArguments(() => this.parseOperand());
+            if (candidates.length > MAX_IN_CANDIDATES) {
+                throw validationException(`Invalid ConditionExpression: The IN operator is provided with too many operands; number of operands: ${candidates.length}`);
+            }
+            return { kind: "in", operand, candidates };
+        }
+
+        const comparator = this.next();
+        if (comparator.kind !== "symbol" || !COMPARATORS.includes(comparator.text as Comparator)) {
+            throw this.syntaxError(comparator);
+        }
+
+        return { kind: "compare", comparator: comparator.text as Comparator, left: operand, right: this.parseOperand() };
+    }
+
+    /**
+     * Operand of a condition: a path, a value or `size(path)`
+     */
+    private parseOperand(): Operand {
+        if (this.peek().kind === "value") {
+            return { kind: "value", value: this.parseValue() };
+        }
+
+        if (this.peek().text.toLowerCase() === "size" && this.peek(1).text === "(") {
+            this.next();
+            const [path] = this.parseArguments(() => this.parsePath());
+            return { kind: "size", path };
+        }
+
+        return { kind: "path", path: this.parsePath() };
+    }
+
+    private parseSetValue(): Operand {
+        const left = this.parseSetTerm();
+        const operator = this.peek().text;
+
+        if (operator === "+" || operator === "-") {
+            this.next();
+            return { kind: "arithmetic", operator, left, right: this.parseSetTerm() };
+        }
+
+        return left;
+    }
+
+    private parseSetTerm(): Operand {
+        const token = this.peek();
+        const name = token.text.toLowerCase();
+
+        if (token.kind === "word" && this.peek(1).text === "(" && name === "if_not_exists") {
+            this.next();
+            this.expectSymbol("(");
+            const path = this.parsePath();
+            this.expectSymbol(",");
+            const fallback = this.parseSetValue();
+            this.expectSymbol(")");
+            return { kind: "ifNotExists", path, fallback };
+        }
+
+        if (token.kind === "word" && this.peek(1).text === "(" && name === "list_append") {
+            this.next();
+            this.expectSymbol("(");
+            const first = this.parseSetValue();
+            this.expectSymbol(",");
+            const second = this.parseSetValue();
+            this.expectSymbol(")");
+            return { kind: "listAppend", first, second };
+        }
+
+        if (token.kind === "value") {
+            return { kind: "value", value: this.parseValue() };
+        }
+
+        return { kind: "path", path: this.parsePath() };
+    }
+
+    private parsePath(): DocumentPath {
+        const path: DocumentPath = [this.parsePathElement()];
+
+        for (;;) {
+            if (this.acceptSymbol(".")) {
+                path.push(this.parsePathElement());
+            } else if (this.acceptSymbol("[")) {
+                const index = this.next();
+                if (index.kind !== "number") throw this.syntaxError(index);
+                path.push(Number(index.text));
+                this.expectSymbol("]");
+            } else {
+                return path;
+            }
+        }
+    }
+
+    private parsePathElement(): string {
+        const token = this.next();
+        if (token.kind === "name") return this.context.name(token.text);
+        if (token.kind === "word") return token.text;
+        throw this.syntaxError(token);
+    }
+
+    private parseValue(): AttributeValue {
+        const token = this.next();
+        if (token.kind !== "value") throw this.syntaxError(token);
+        return this.context.value(token.text);
+    }
+
+    private parseArguments<T>(parseArgument: () => T): T[] {
+        this.expectSymbol("(");
+        const args = [parseArgument()];
+        while (this.acceptSymbol(",")) {
+            args.push(parseArgument());
+        }
+        this.expectSymbol(")");
+        return args;
+    }
+
+    private peek(offset: number = 0): Token {
+        return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.position = Math.min(this.position + 1, this.tokens.length - 1);
+        return token;
+    }
+
+    private acceptSymbol(symbol: string): boolean {
+        if (this.peek().kind === "symbol" && this.peek().text === symbol) {
+            this.next();
+            return true;
+        }
+        return false;
+    }
+
+    private acceptWord(word: string): boolean {
+        if (this.peek().kind === "word" && this.peek().text.toUpperCase() === word) {
+            this.next();
+            return true;
+        }
+        return false;
+    }
+
+    private expectSymbol(symbol: string): void {
+        if (!this.acceptSymbol(symbol)) throw this.syntaxError(this.peek());
+    }
+
+    private expectWord(word: string): void {
+        if (!this.acceptWord(word)) throw this.syntaxError(this.peek());
+    }
+
+    private expectEnd(): void {
+        if (this.peek().kind !== "end") throw this.syntaxError(this.peek());
+    }
+
+    private syntaxError(token: Token): DynamoDBServiceException {
+        const text = token.kind === "end" ? "<EOF>" : token.text;
+        return validationException(`Invalid expression: Syntax error; token: "${text}", near: "${this.expression}"`);
+    }
+}
+
+export function parseCondition(expression: string, context: ExpressionContext): ConditionNode {
+    return new ExpressionParser(expression, context).parseCondition();
+}
+
+export function parseUpdate(expression: string, context: ExpressionContext): UpdateAction[] {
+    return new ExpressionParser(expression, context).parseUpdate();
+}
+
+export function parseProjection(expression: string, context: ExpressionContext): DocumentPath[] {
+    return new ExpressionParser(expression, context).parseProjection();
+}
+
+export function typeOf(value: AttributeValue | undefined): AttributeTypeName | undefined {
+    return value ? ATTRIBUTE_TYPES.find(type => (value as unknown as Record<string, unknown>)[type] !== undefined) : undefined;
+}
+
+export function getPath(item: StoredItem, path: DocumentPath): AttributeValue | undefined {
+    let current: AttributeValue | undefined = item[path[0] as string];
+
+    for (const element of path.slice(1)) {
+        if (typeof element === "number") {
+            current = current?.L?.[element];
+        } else {
+            current = current?.M?.[element];
+        }
+    }
+
+    return current;
+}
+
+/**
+ * Orders two scalar values of the same type: strings and binaries by their bytes, numbers by value
+ */
+export function compareValues(a: AttributeValue, b: AttributeValue): number {
+    if (a.N !== undefined && b.N !== undefined) {
+        return Math.sign(Number(a.N) - Number(b.N));
+    }
+    if (a.S !== undefined && b.S !== undefined) {
+        return Buffer.compare(Buffer.from(a.S), Buffer.from(b.S));
+    }
+    if (a.B !== undefined && b.B !== undefined) {
+        return Buffer.compare(Buffer.from(a.B), Buffer.from(b.B));
+    }
+    throw validationException("Invalid comparison: operands must be of the same scalar type");
+}
+
+export function valuesEqual(a: AttributeValue, b: AttributeValue): boolean {
+    const type = typeOf(a);
+    if (type !== typeOf(b)) return false;
+
+    switch (type) {
+    case "S": case "N": case "B":
+        return compareValues(a, b) === 0;
+    case "BOOL":
+        return a.BOOL === b.BOOL;
+    case "NULL":
+        return true;
+    case "SS": case "NS": case "BS": {
+        const first = setElements(a);
+        const second = setElements(b);
+        return first.length === second.length && first.every(element => second.some(other => valuesEqual(element, other)));
+    }
+    case "L":
+        return a.L!.length === b.L!.length && a.L!.every((element, index) => valuesEqual(element, b.L![index]));
+    case "M": {
+        const keys = Object.keys(a.M!);
+        return keys.length === Object.keys(b.M!).length && keys.every(key => b.M![key] !== undefined && valuesEqual(a.M![key], b.M![key]));
+    }
+    default:
+        return false;
+    }
+}
+
+export function evaluateCondition(condition: ConditionNode, item: StoredItem): boolean {
+    switch (condition.kind) {
+    case "and":
+        return evaluateCondition(condition.left, item) && evaluateCondition(condition.right, item);
+    case "or":
+        return evaluateCondition(condition.left, item) || evaluateCondition(condition.right, item);
+    case "not":
+        return !evaluateCondition(condition.condition, item);
+    case "compare":
+        return compare(condition.comparator, evaluateOperand(condition.left, item), evaluateOperand(condition.right, item));
+    case "between": {
+        const value = evaluateOperand(condition.operand, item);
+        return compare(">=", value, evaluateOperand(condition.low, item)) && compare("<=", value, evaluateOperand(condition.high, item));
+    }
+    case "in": {
+        const value = evaluateOperand(condition.operand, item);
+        return condition.candidates.some(candidate => compare("=", value, evaluateOperand(candidate, item)));
+    }
+    case "function":
+        return evaluateFunction(condition.name, condition.args, item);
+    }
+}
+
+function evaluateFunction(name: ConditionFunction, args: Operand[], item: StoredItem): boolean {
+    const [first, second] = args.map(arg => evaluateOperand(arg, item));
+
+    switch (name) {
+    case "attribute_exists":
+        return first !== undefined;
+    case "attribute_not_exists":
+        return first === undefined;
+    case "attribute_type":
+        return first !== undefined && typeOf(first) === second?.S;
+    case "begins_with":
+        if (first?.S !== undefined && second?.S !== undefined) return first.S.startsWith(second.S);
+        if (first?.B !== undefined && second?.B !== undefined) return Buffer.from(first.B).subarray(0, second.B.length).equals(Buffer.from(second.B));
+        return false;
+    case "contains":
+        if (!first || !second) return false;
+        if (first.S !== undefined && second.S !== undefined) return first.S.includes(second.S);
+        if (SET_TYPES.includes(typeOf(first)!)) return setElements(first).some(element => valuesEqual(element, second));
+        if (first.L) return first.L.some(element => valuesEqual(element, second));
+        return false;
+    }
+}
+
+function compare(comparator: Comparator, left: AttributeValue | undefined, right: AttributeValue | undefined): boolean {
+    // Comparisons with missing attributes are false, so `<>` matches items without the attribute
+    if (left === undefined || right === undefined) {
+        return comparator === "<>";
+    }
+
+    if (comparator === "=") return valuesEqual(left, right);
+    if (comparator === "<>") return !valuesEqual(left, right);
+
+    const type = typeOf(left);
+    if (type !== typeOf(right) || !SCALAR_TYPES.includes(type!)) {
+        return false;
+    }
+
+    const order = compareValues(left, right);
+    switch (comparator) {
+    case "<": return order < 0;
+    case "<=": return order <= 0;
+    case ">": return order > 0;
+    default: return order >= 0;
+    }
+}
+
+function evaluateOperand(operand: Operand, item: StoredItem): AttributeValue | undefined {
+    switch (operand.kind) {
+    case "path":
+        return getPath(item, operand.path);
+    case "value":
+        return operand.value;
+    case "size": {
+        const value = getPath(item, operand.path);
+        const size = sizeOf(value);
+        return size === undefined ? undefined : { N: String(size) };
+    }
+    case "ifNotExists":
+        return getPath(item, operand.path) ?? evaluateOperand(operand.fallback, item);
+    case "listAppend": {
+        const first = evaluateOperand(operand.first, item);
+        const second = evaluateOperand(operand.second, item);
+        if (!first?.L || !second?.L) {
+            throw validationException("Invalid UpdateExpression: Incorrect operand type for operator or function; operator or function: list_append");
+        }
+        return { L: [...first.L, ...second.L] };
+    }
+    case "arithmetic": {
+        const left = evaluateOperand(operand.left, item);
+        const right = evaluateOperand(operand.right, item);
+        if (left?.N === undefined || right?.N === undefined) {
+            throw validationException(`Invalid UpdateExpression: Incorrect operand type for operator or function; operator: ${operand.operator}`);
+        }
+        const result = operand.operator === "+" ? Number(left.N) + Number(right.N) : Number(left.N) - Number(right.N);
+        return { N: String(result) };
+    }
+    }
+}
+
+function sizeOf(value: AttributeValue | undefined): number | undefined {
+    if (!value) return undefined;
+    if (value.S !== undefined) return value.S.length;
+    if (value.B !== undefined) return value.B.length;
+    if (value.L) return value.L.length;
+    if (value.M) return Object.keys(value.M).length;
+    if (SET_TYPES.includes(typeOf(value)!)) return setElements(value).length;
+    return undefined;
+}
+
+function setElements(value: AttributeValue): AttributeValue[] {
+    if (value.SS) return value.SS.map(element => ({ S: element }));
+    if (value.NS) return value.NS.map(element => ({ N: element }));
+    if (value.BS) return value.BS.map(element => ({ B: element }));
+    return [];
+}
+
+function toSet(type: AttributeTypeName, elements: AttributeValue[]): AttributeValue {
+    if (type === "SS") return { SS: elements.map(element => element.S!) };
+    if (type === "NS") return { NS: elements.map(element => element.N!) };
+    return { BS: elements.map(element => element.B!) };
+}
+
+/**
+ * Applies update actions to a copy of the item. Values are read from the item as it was
+ * before the update, as DynamoDB does. Returns the updated item and the paths it changed.
+ */
+export function applyUpdate(actions: UpdateAction[], original: StoredItem): { item: StoredItem; paths: DocumentPath[] } {
+    assertNoOverlap(actions.map(action => action.path));
+
+    const item = structuredClone(original);
+    const values = actions.map(action => (action.kind === "SET" ? evaluateSetValue(action.value, original) : undefined));
+
+    actions.forEach((action, index) => {
+        if (action.kind === "SET") {
+            setPath(item, action.path, values[index]!);
+        } else if (action.kind === "ADD") {
+            addToPath(item, action.path, action.value);
+        } else if (action.kind === "DELETE") {
+            deleteFromPath(item, action.path, action.value);
+        }
+    });
+
+    // List elements are removed from the end, so earlier indexes stay valid
+    actions
+        .filter(action => action.kind === "REMOVE")
+        .sort((a, b) => comparePaths(b.path, a.path))
+        .forEach(action => removePath(item, action.path));
+
+    return { item, paths: actions.map(action => action.path) };
+}
+
+/**
+ * Keeps only the given paths of an item. Projected list elements are compacted, as in DynamoDB.
+ */
+export function projectItem(item: StoredItem, paths: DocumentPath[]): StoredItem {
+    const projected: StoredItem = {};
+
+    for (const path of paths) {
+        const value = getPath(item, path);
+        if (value === undefined) continue;
+
+        let target: Record<string, AttributeValue> | AttributeValue[] = projected;
+        path.forEach((element, index) => {
+            const isLast = index === path.length - 1;
+            const container = target as Record<string | number, AttributeValue>;
+            const slot = Array.isArray(target) ? target.length : element;
+
+            if (isLast) {
+                container[slot] = structuredClone(value);
+                return;
+            }
+
+            const childIsList = typeof path[index + 1] === "number";
+            const existing = Array.isArray(target) ? undefined : container[slot];
+            const child = existing || (childIsList ? { L: [] } : { M: {} });
+            container[slot] = child;
+            target = childIsList ? child.L! : child.M!;
+        });
+    }
+
+    return projected;
+}
+
+function evaluateSetValue(operand: Operand, item: StoredItem): AttributeValue {
+    const value = evaluateOperand(operand, item);
+    if (value === undefined) {
+        throw validationException("The provided expression refers to an attribute that does not exist in the item");
+    }
+    return value;
+}
+
+function setPath(item: StoredItem, path: DocumentPath, value: AttributeValue): void {
+    if (path.length === 1) {
+        item[path[0] as string] = value;
+        return;
+    }
+
+    const parent = getPath(item, path.slice(0, -1));
+    const element = path[path.length - 1];
+
+    if (typeof element === "number" && parent?.L) {
+        // Elements set beyond the end are appended
+        parent.L[Math.min(element, parent.L.length)] = value;
+    } else if (typeof element === "string" && parent?.M) {
+        parent.M[element] = value;
+    } else {
+        throw validationException("The document path provided in the update expression is invalid for update");
+    }
+}
+
+function removePath(item: StoredItem, path: DocumentPath): void {
+    if (path.length === 1) {
+        delete item[path[0] as string];
+        return;
+    }
+
+    const parent = getPath(item, path.slice(0, -1));
+    const element = path[path.length - 1];
+
+    if (typeof element === "number" && parent?.L) {
+        parent.L.splice(element, 1);
+    } else if (typeof element === "string" && parent?.M) {
+        delete parent.M[element];
+    }
+}
+
+function addToPath(item: StoredItem, path: DocumentPath, value: AttributeValue): void {
+    const current = getPath(item, path);
+    const type = typeOf(value)!;
+
+    if (type !== "N" && !SET_TYPES.includes(type)) {
+        throw validationException("Invalid UpdateExpression: Incorrect operand type for operator or function; operator: ADD");
+    }
+
+    if (current === undefined) {
+        setPath(item, path, value);
+    } else if (typeOf(current) !== type) {
+        throw validationException("An operand in the update expression has an incorrect data type");
+    } else if (type === "N") {
+        setPath(item, path, { N: String(Number(current.N) + Number(value.N)) });
+    } else {
+        const elements = setElements(current);
+        const added = setElements(value).filter(element => !elements.some(existing => valuesEqual(existing, element)));
+        setPath(item, path, toSet(type, [...elements, ...added]));
+    }
+}
+
+function deleteFromPath(item: StoredItem, path: DocumentPath, value: AttributeValue): void {
+    const current = getPath(item, path);
+    const type = typeOf(value)!;
+
+    if (!SET_TYPES.includes(type)) {
+        throw validationException("Invalid UpdateExpression: Incorrect operand type for operator or function; operator: DELETE");
+    }
+    if (current === undefined) return;
+    if (typeOf(current) !== type) {
+        throw validationException("An operand in the update expression has an incorrect data type");
+    }
+
+    const removed = setElements(value);
+    const remaining = setElements(current).filter(element => !removed.some(other => valuesEqual(element, other)));
+
+    // Sets cannot be empty
+    if (remaining.length > 0) {
+        setPath(item, path, toSet(type, remaining));
+    } else {
+        removePath(item, path);
+    }
+}
+
+function assertNoOverlap(paths: DocumentPath[]): void {
+    paths.forEach((path, index) => paths.slice(index + 1).forEach(other => {
+        const shorter = path.length <= other.length ? path : other;
+        const longer = shorter === path ? other : path;
+
+        if (shorter.every((element, position) => element === longer[position])) {
+            throw validationException("Invalid UpdateExpression: Two document paths overlap with each other; must remove or rewrite one of these paths");
+        }
+    }));
+}
+
+function comparePaths(a: DocumentPath, b: DocumentPath): number {
+    for (let index = 0; index < Math.min(a.length, b.length); index++) {
+        if (a[index] === b[index]) continue;
+        if (typeof a[index] === "number" && typeof b[index] === "number") return (a[index] as number) - (b[index] as number);
+        return String(a[index]).localeCompare(String(b[index]));
+    }
+    return a.length - b.length;
+}
@@ -0,0 +1,193 @@
+import {
+    DeleteCommand,
+    GetCommand,
+    PutCommand,
+    QueryCommand,
+    ScanCommand,
+    TransactWriteCommand,
+    UpdateCommand
+} from "@aws-sdk/lib-dynamodb";
+import { AttributeType, ProjectionType } from "aws-cdk-lib/aws-dynamodb";
+import { InMemoryDynamoDB } from "./in-memory-dynamodb";
+
+const appTable = {
+    tableName: "app",
+    partitionKey: { name: "PK", type: AttributeType.STRING },
+    sortKey: { name: "SK", type: AttributeType.STRING },
+    globalSecondaryIndexes: [
+        {
+            indexName: "GSI1",
+            partitionKey: { name: "GSI1PK", type: AttributeType.STRING },
+            sortKey: { name: "GSI1SK", type: AttributeType.STRING },
+        },
+        {
+            indexName: "ByScore",
+            partitionKey: { name: "PK", type: AttributeType.STRING },
+            sortKey: { name: "score", type: AttributeType.NUMBER },
+            projectionType: ProjectionType.KEYS_ONLY,
+        },
+    ],
+    ttlAttributeName: "expiresAt",
+};
+
+describe("InMemoryDynamoDB", () => {
+    let now = Date.parse("2026-01-01T00:00:00Z");
+    const db = new InMemoryDynamoDB({ tables: [appTable], now: () => now });
+    const client = db.documentClient;
+
+    beforeEach(() => db.reset());
+
+    describe("writes", () => {
+        test("fails a put whose condition does not hold, returning the stored item when asked", async () => {
+            db.seed("app", [{ PK: "USER#1", SK: "PROFILE", name: "Ada" }]);
+
+            const put = client.send(new PutCommand({
+                TableName: "app",
+                Item: { PK: "USER#1", SK: "PROFILE", name: "Grace" },
+                ConditionExpression: "attribute_not_exists(PK)",
+                ReturnValuesOnConditionCheckFailure: "ALL_OLD",
+            }));
+
+            await expect(put).rejects.toMatchObject({
+                name: "ConditionalCheckFailedException",
+                Item: { PK: { S: "USER#1" }, SK: { S: "PROFILE" }, name: { S: "Ada" } },
+            });
+            expect(db.getItems("app")).toEqual([{ PK: "USER#1", SK: "PROFILE", name: "Ada" }]);
+        });
+
+        test("applies update expressions and returns the updated attributes", async () => {
+            db.seed("app", [{ PK: "POST#1", SK: "POST", title: "Draft", stats: { views: 1 }, tags: ["a"], legacy: true }]);
+
+            const result = await client.send(new UpdateCommand({
+                TableName: "app",
+                Key: { PK: "POST#1", SK: "POST" },
+                UpdateExpression: "SET title = :title, stats.views = stats.views + :one, tags = list_append(tags, :tags), " +
+                    "likes = if_not_exists(likes, :zero) REMOVE legacy ADD editors :editors",
+                ExpressionAttributeValues: { ":title": "Final", ":one": 1, ":tags": ["b"], ":zero": 0, ":editors": new Set(["u1"]) },
+                ReturnValues: "UPDATED_NEW",
+            }));
+
+            expect(result.Attributes).toEqual({ title: "Final", stats: { views: 2 }, tags: ["a", "b"], likes: 0, editors: new Set(["u1"]) });
+            expect(db.getItems("app")[0]).not.toHaveProperty("legacy");
+        });
+
+        test("rejects updates of key attributes and unused placeholders", async () => {
+            db.seed("app", [{ PK: "POST#1", SK: "POST" }]);
+
+            await expect(client.send(new UpdateCommand({
+                TableName: "app",
+                Key: { PK: "POST#1", SK: "POST" },
+                UpdateExpression: "SET SK = :sk",
+                ExpressionAttributeValues: { ":sk": "OTHER" },
+            }))).rejects.toMatchObject({ name: "ValidationException" });
+
+            await expect(client.send(new DeleteCommand({
+                TableName: "app",
+                Key: { PK: "POST#1", SK: "POST" },
+                ExpressionAttributeValues: { ":unused": 1 },
+            }))).rejects.toMatchObject({ name: "ValidationException" });
+        });
+
+        test("rejects keys that do not match the schema and unknown tables", async () => {
+            await expect(client.send(new GetCommand({ TableName: "app", Key: { PK: "POST#1" } })))
+                .rejects.toMatchObject({ name: "ValidationException" });
+            await expect(client.send(new GetCommand({ TableName: "missing", Key: { PK: "POST#1", SK: "POST" } })))
+                .rejects.toMatchObject({ name: "ResourceNotFoundException" });
+        });
+    });
+
+    describe("queries", () => {
+        beforeEach(() => {
+            db.seed("app", [
+                { PK: "POST#1", SK: "COMMENT#3", text: "third", score: 5, GSI1PK: "USER#a", GSI1SK: "3" },
+                { PK: "POST#1", SK: "COMMENT#1", text: "first", score: 9, GSI1PK: "USER#a", GSI1SK: "1" },
+                { PK: "POST#1", SK: "COMMENT#2", text: "second", score: 1 },
+                { PK: "POST#2", SK: "COMMENT#1", text: "other", score: 7 },
+            ]);
+        });
+
+        test("orders by sort key and pages with LastEvaluatedKey", async () => {
+            const input = { TableName: "app", KeyConditionExpression: "PK = :pk", ExpressionAttributeValues: { ":pk": "POST#1" } };
+
+            const first = await client.send(new QueryCommand({ ...input, Limit: 2, ScanIndexForward: false }));
+            const second = await client.send(new QueryCommand({ ...input, Limit: 2, ScanIndexForward: false, ExclusiveStartKey: first.LastEvaluatedKey }));
+
+            expect(first.Items?.map(item => item.text)).toEqual(["third", "second"]);
+            expect(first.LastEvaluatedKey).toEqual({ PK: "POST#1", SK: "COMMENT#2" });
+            expect(second.Items?.map(item => item.text)).toEqual(["first"]);
+            expect(second.LastEvaluatedKey).toBeUndefined();
+        });
+
+        test("applies the limit before the filter and counts without items", async () => {
+            const filtered = await client.send(new QueryCommand({
+                TableName: "app",
+                KeyConditionExpression: "PK = :pk AND begins_with(SK, :prefix)",
+                FilterExpression: "score > :min",
+                ExpressionAttributeValues: { ":pk": "POST#1", ":prefix": "COMMENT#", ":min": 4 },
+                Limit: 2,
+            }));
+            const counted = await client.send(new ScanCommand({ TableName: "app", Select: "COUNT" }));
+
+            expect(filtered.Items?.map(item => item.text)).toEqual(["first"]);
+            expect(filtered).toMatchObject({ Count: 1, ScannedCount: 2 });
+            expect(counted.Count).toBe(4);
+            expect(counted.Items).toBeUndefined();
+        });
+
+        test("keeps sparse indexes and projects their attributes", async () => {
+            const byUser = await client.send(new QueryCommand({
+                TableName: "app",
+                IndexName: "GSI1",
+                KeyConditionExpression: "GSI1PK = :user",
+                ExpressionAttributeValues: { ":user": "USER#a" },
+            }));
+            const byScore = await client.send(new QueryCommand({
+                TableName: "app",
+                IndexName: "ByScore",
+                KeyConditionExpression: "PK = :pk AND score >= :min",
+                ExpressionAttributeValues: { ":pk": "POST#1", ":min": 5 },
+            }));
+
+            expect(byUser.Items?.map(item => item.text)).toEqual(["first", "third"]);
+            expect(byScore.Items).toEqual([
+                { PK: "POST#1", SK: "COMMENT#3", score: 5 },
+                { PK: "POST#1", SK: "COMMENT#1", score: 9 },
+            ]);
+        });
+    });
+
+    describe("transactions", () => {
+        test("writes nothing when one condition fails and names the failed items", async () => {
+            db.seed("app", [{ PK: "ACCOUNT#1", SK: "ACCOUNT", balance: 10 }]);
+
+            const transaction = client.send(new TransactWriteCommand({
+                TransactItems: [
+                    { Put: { TableName: "app", Item: { PK: "ORDER#1", SK: "ORDER" } } },
+                    {
+                        Update: {
+                            TableName: "app",
+                            Key: { PK: "ACCOUNT#1", SK: "ACCOUNT" },
+                            UpdateExpression: "SET balance = balance - :amount",
+                            ConditionExpression: "balance >= :amount",
+                            ExpressionAttributeValues: { ":amount": 20 },
+                        },
+                    },
+                ],
+            }));
+
+            await expect(transaction).rejects.toMatchObject({
+                name: "TransactionCanceledException",
+                CancellationReasons: [{ Code: "None" }, { Code: "ConditionalCheckFailed" }],
+            });
+            expect(db.getItems("app")).toEqual([{ PK: "ACCOUNT#1", SK: "ACCOUNT", balance: 10 }]);
+        });
+    });
+
+    test("removes items once their TTL has passed", () => {
+        db.seed("app", [{ PK: "SESSION#1", SK: "SESSION", expiresAt: now / 1000 + 60 }]);
+
+        now += 61 * 1000;
+
+        expect(db.getItems("app")).toEqual([]);
+    });
+});
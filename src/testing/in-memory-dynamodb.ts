@@ -0,0 +1,718 @@
+import {
+    AttributeValue,
+    CancellationReason,
+    ConditionalCheckFailedException,
+    ResourceNotFoundException,
+    TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+    DynamoDBDocumentClient,
+    TranslateConfig,
+    GetCommandInput,
+    PutCommandInput,
+    UpdateCommandInput,
+    DeleteCommandInput,
+    QueryCommandInput,
+    ScanCommandInput,
+    BatchGetCommandInput,
+    BatchWriteCommandInput,
+    TransactGetCommandInput,
+    TransactWriteCommandInput,
+} from "@aws-sdk/lib-dynamodb";
+import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
+import type { DynamoDBTableProps } from "../stacks/database-stack";
+import {
+    ConditionNode,
+    DocumentPath,
+    ExpressionContext,
+    Operand,
+    StoredItem,
+    applyUpdate,
+    compareValues,
+    evaluateCondition,
+    parseCondition,
+    parseProjection,
+    parseUpdate,
+    projectItem,
+    typeOf,
+    validationException,
+} from "./in-memory-dynamodb-expressions";
+
+/**
+ * Table as declared for `DatabaseStack.addDynamoDBTable`, so tests can reuse the stack's props
+ */
+export type InMemoryTableDefinition = Pick<
+    DynamoDBTableProps,
+    "tableName" | "partitionKey" | "sortKey" | "globalSecondaryIndexes" | "ttlAttributeName"
+>;
+
+export interface InMemoryDynamoDBOptions {
+  tables?: InMemoryTableDefinition[];
+  /** Marshalling options, as passed to `DynamoDBDocumentClient.from` */
+  translateConfig?: TranslateConfig;
+  /** Current time in milliseconds, compared with the TTL attributes (default: `Date.now`) */
+  now?: () => number;
+}
+
+type KeyAttribute = DynamoDBTableProps["partitionKey"];
+
+type GlobalSecondaryIndex = NonNullable<DynamoDBTableProps["globalSecondaryIndexes"]>[number];
+
+type TransactWriteItem = NonNullable<TransactWriteCommandInput["TransactItems"]>[number];
+
+type ConditionCheckInput = NonNullable<TransactWriteItem["ConditionCheck"]>;
+
+interface ExpressionInput {
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, unknown>;
+}
+
+interface InMemoryTable {
+  definition: InMemoryTableDefinition;
+  items: Map<string, StoredItem>;
+}
+
+interface PlannedWrite {
+  table: InMemoryTable;
+  id: string;
+  before?: StoredItem;
+  /** Item after the write, `null` for deletions and `undefined` for condition checks */
+  after?: StoredItem | null;
+  /** Paths changed by an update, for the `UPDATED_*` return values */
+  paths?: DocumentPath[];
+  conditionFailed: boolean;
+  returnItemOnFailure: boolean;
+}
+
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_BATCH_WRITE_REQUESTS = 25;
+const MAX_TRANSACTION_ITEMS = 100;
+const MILLISECONDS_PER_SECOND = 1000;
+const SEGMENT_HASH_MULTIPLIER = 31;
+
+/**
+ * In-memory stand-in for `DynamoDBDocumentClient` in unit tests. It keeps tables with their
+ * keys and global secondary indexes, evaluates condition, filter, update and projection
+ * expressions, orders and paginates queries, and applies transactions atomically, failing
+ * with the same exceptions as DynamoDB. Items whose TTL attribute has passed are removed
+ * before every command.
+ *
+ * ```typescript
+ * const db = new InMemoryDynamoDB({ tables: [usersTableProps] });
+ * const service = new DynamoDBService({ documentClient: db.documentClient });
+ * ```
+ */
+export class InMemoryDynamoDB {
+    private readonly tables = new Map<string, InMemoryTable>();
+    private readonly translateConfig: TranslateConfig;
+    private readonly now: () => number;
+
+    constructor(options: InMemoryDynamoDBOptions = {}) {
+        this.translateConfig = options.translateConfig || {};
+        this.now = options.now || Date.now;
+        options.tables?.forEach(table => this.createTable(table));
+    }
+
+    /**
+     * The client to pass to `DynamoDBService` or to the `dynamoDb` middleware's `instance`
+     */
+    get documentClient(): DynamoDBDocumentClient {
+        return this as unknown as DynamoDBDocumentClient;
+    }
+
+    createTable(definition: InMemoryTableDefinition): this {
+        if (this.tables.has(definition.tableName)) {
+            throw new Error(`Table ${definition.tableName} already exists`);
+        }
+
+        this.tables.set(definition.tableName, { definition, items: new Map() });
+        return this;
+    }
+
+    /**
+     * Stores items without conditions, replacing items with the same key
+     */
+    seed(tableName: string, items: Record<string, unknown>[]): this {
+        const table = this.getTable(tableName);
+
+        for (const item of items) {
+            const stored = this.marshallItem(item);
+            this.assertItem(table, stored);
+            table.items.set(this.itemId(table, stored), stored);
+        }
+
+        return this;
+    }
+
+    /**
+     * Returns the items of a table ordered by key, for assertions
+     */
+    getItems<T = Record<string, unknown>>(tableName: string): T[] {
+        this.removeExpiredItems();
+        const table = this.getTable(tableName);
+        const keys = this.keyAttributes(table).map(attribute => attribute.name);
+
+        return [...table.items.values()]
+            .sort((a, b) => compareKeys(a, b, keys))
+            .map(item => this.toOutput(item) as T);
+    }
+
+    /**
+     * Removes all items, keeping the tables
+     */
+    reset(): void {
+        this.tables.forEach(table => table.items.clear());
+    }
+
+    async send(command: { input: object }, options?: { abortSignal?: AbortSignal }): Promise<object> {
+        if (options?.abortSignal?.aborted) {
+            const error = new Error("Request aborted");
+            error.name = "AbortError";
+            throw error;
+        }
+
+        this.removeExpiredItems();
+        return { $metadata: {}, ...this.execute(command.constructor.name, command.input) };
+    }
+
+    private execute(commandName: string, input: object): object {
+        switch (commandName) {
+        case "GetCommand": return this.getItem(input as GetCommandInput);
+        case "PutCommand": return this.putItem(input as PutCommandInput);
+        case "UpdateCommand": return this.updateItem(input as UpdateCommandInput);
+        case "DeleteCommand": return this.deleteItem(input as DeleteCommandInput);
+        case "QueryCommand": return this.query(input as QueryCommandInput);
+        case "ScanCommand": return this.scan(input as ScanCommandInput);
+        case "BatchGetCommand": return this.batchGet(input as BatchGetCommandInput);
+        case "BatchWriteCommand": return this.batchWrite(input as BatchWriteCommandInput);
+        case "TransactGetCommand": return this.transactGet(input as TransactGetCommandInput);
+        case "TransactWriteCommand": return this.transactWrite(input as TransactWriteCommandInput);
+        default:
+            throw new Error(`InMemoryDynamoDB does not support ${commandName}`);
+        }
+    }
+
+    private getItem(input: GetCommandInput): object {
+        const table = this.getTable(input.TableName);
+        const context = new ExpressionContext(input.ExpressionAttributeNames);
+        const projection = input.ProjectionExpression ? parseProjection(input.ProjectionExpression, context) : undefined;
+        context.assertAllUsed();
+
+        const key = this.marshallItem(input.Key);
+        this.assertKey(table, key);
+        const item = table.items.get(this.itemId(table, key));
+
+        return item ? { Item: this.toOutput(item, projection) } : {};
+    }
+
+    private putItem(input: PutCommandInput): object {
+        if (input.ReturnValues && !["NONE", "ALL_OLD"].includes(input.ReturnValues)) {
+            throw validationException("ReturnValues can only be ALL_OLD or NONE");
+        }
+
+        const write = this.commit(this.planPut(input));
+        return input.ReturnValues === "ALL_OLD" && write.before ? { Attributes: this.toOutput(write.before) } : {};
+    }
+
+    private updateItem(input: UpdateCommandInput): object {
+        const write = this.commit(this.planUpdate(input));
+        const after = write.after as StoredItem;
+
+        switch (input.ReturnValues) {
+        case "ALL_OLD":
+            return write.before ? { Attributes: this.toOutput(write.before) } : {};
+        case "UPDATED_OLD":
+            return this.attributes(write.before && projectItem(write.before, write.paths!));
+        case "ALL_NEW":
+            return { Attributes: this.toOutput(after) };
+        case "UPDATED_NEW":
+            return this.attributes(projectItem(after, write.paths!));
+        default:
+            return {};
+        }
+    }
+
+    private deleteItem(input: DeleteCommandInput): object {
+        if (input.ReturnValues && !["NONE", "ALL_OLD"].includes(input.ReturnValues)) {
+            throw validationException("ReturnValues can only be ALL_OLD or NONE");
+        }
+
+        const write = this.commit(this.planDelete(input));
+        return input.ReturnValues === "ALL_OLD" && write.before ? { Attributes: this.toOutput(write.before) } : {};
+    }
+
+    private query(input: QueryCommandInput): object {
+        const table = this.getTable(input.TableName);
+        const context = this.expressionContext(input);
+
+        if (!input.KeyConditionExpression) {
+            throw validationException("Either the KeyConditions or KeyConditionExpression parameter must be specified in the request.");
+        }
+
+        const keyCondition = parseCondition(input.KeyConditionExpression, context);
+        const filter = input.FilterExpression ? parseCondition(input.FilterExpression, context) : undefined;
+        const projection = input.ProjectionExpression ? parseProjection(input.ProjectionExpression, context) : undefined;
+        context.assertAllUsed();
+
+        const index = this.getIndex(table, input.IndexName, input.ConsistentRead);
+        const [partitionKey, sortKey] = index ? [index.partitionKey, index.sortKey] : [table.definition.partitionKey, table.definition.sortKey];
+        assertKeyCondition(keyCondition, partitionKey.name, sortKey?.name);
+
+        const items = this.indexItems(table, index).filter(item => evaluateCondition(keyCondition, item));
+        return this.readPage(table, index, items, input, input.ScanIndexForward !== false, filter, projection);
+    }
+
+    private scan(input: ScanCommandInput): object {
+        const table = this.getTable(input.TableName);
+        const context = this.expressionContext(input);
+        const filter = input.FilterExpression ? parseCondition(input.FilterExpression, context) : undefined;
+        const projection = input.ProjectionExpression ? parseProjection(input.ProjectionExpression, context) : undefined;
+        context.assertAllUsed();
+
+        const index = this.getIndex(table, input.IndexName, input.ConsistentRead);
+        let items = this.indexItems(table, index);
+
+        if (input.TotalSegments !== undefined || input.Segment !== undefined) {
+            const { Segment: segment, TotalSegments: totalSegments } = input;
+            if (segment === undefined || totalSegments === undefined || segment < 0 || segment >= totalSegments) {
+                throw validationException("The Segment parameter is required but was not present in the request when parameter TotalSegments is present");
+            }
+
+            const partitionKey = (index || table.definition).partitionKey.name;
+            items = items.filter(item => segmentOf(JSON.stringify(item[partitionKey]), totalSegments) === segment);
+        }
+
+        return this.readPage(table, index, items, input, true, filter, projection);
+    }
+
+    private batchGet(input: BatchGetCommandInput): object {
+        const requests = Object.entries(input.RequestItems || {});
+        const keyCount = requests.reduce((count, [, request]) => count + (request.Keys?.length || 0), 0);
+
+        if (keyCount > MAX_BATCH_GET_KEYS) {
+            throw validationException("Too many items requested for the BatchGetItem call");
+        }
+
+        const responses: Record<string, Record<string, unknown>[]> = {};
+
+        for (const [tableName, request] of requests) {
+            const table = this.getTable(tableName);
+            const context = new ExpressionContext(request.ExpressionAttributeNames);
+            const projection = request.ProjectionExpression ? parseProjection(request.ProjectionExpression, context) : undefined;
+            context.assertAllUsed();
+
+            const ids = (request.Keys || []).map(key => {
+                const marshalled = this.marshallItem(key);
+                this.assertKey(table, marshalled);
+                return this.itemId(table, marshalled);
+            });
+            assertUnique(ids, "Provided list of item keys contains duplicates");
+
+            responses[tableName] = ids
+                .map(id => table.items.get(id))
+                .filter((item): item is StoredItem => item !== undefined)
+                .map(item => this.toOutput(item, projection));
+        }
+
+        return { Responses: responses, UnprocessedKeys: {} };
+    }
+
+    private batchWrite(input: BatchWriteCommandInput): object {
+        const requests = Object.entries(input.RequestItems || {});
+        const requestCount = requests.reduce((count, [, tableRequests]) => count + tableRequests.length, 0);
+
+        if (requestCount > MAX_BATCH_WRITE_REQUESTS) {
+            throw validationException(`1 validation error detected: Value at 'requestItems' failed to satisfy constraint: Member must have length less than or equal to ${MAX_BATCH_WRITE_REQUESTS}`);
+        }
+
+        const writes = requests.flatMap(([tableName, tableRequests]) => tableRequests.map(request => {
+            if (request.PutRequest) return this.planPut({ TableName: tableName, Item: request.PutRequest.Item });
+            if (request.DeleteRequest) return this.planDelete({ TableName: tableName, Key: request.DeleteRequest.Key });
+            throw validationException("Supplied AttributeValue has more than one datatypes set, must contain exactly one of the supported datatypes");
+        }));
+
+        assertUnique(writes.map(writeId), "Provided list of item keys contains duplicates");
+        writes.forEach(write => this.commit(write));
+
+        return { UnprocessedItems: {} };
+    }
+
+    private transactGet(input: TransactGetCommandInput): object {
+        const items = input.TransactItems || [];
+        assertTransactionSize(items.length);
+
+        return {
+            Responses: items.map(item => {
+                if (!item.Get) throw validationException("TransactItems can only contain Get operations");
+                return this.getItem(item.Get);
+            }),
+        };
+    }
+
+    private transactWrite(input: TransactWriteCommandInput): object {
+        const items = input.TransactItems || [];
+        assertTransactionSize(items.length);
+
+        const writes = items.map(item => {
+            if (item.Put) return this.planPut(item.Put);
+            if (item.Update) return this.planUpdate(item.Update);
+            if (item.Delete) return this.planDelete(item.Delete);
+            if (item.ConditionCheck) return this.planConditionCheck(item.ConditionCheck);
+            throw validationException("TransactItems must contain one of ConditionCheck, Put, Update or Delete");
+        });
+
+        assertUnique(writes.map(writeId), "Transaction request cannot include multiple operations on one item");
+
+        if (writes.some(write => write.conditionFailed)) {
+            const reasons: CancellationReason[] = writes.map(write => (write.conditionFailed
+                ? { Code: "ConditionalCheckFailed", Message: "The conditional request failed", ...this.failureItem(write) }
+                : { Code: "None" }));
+
+            throw new TransactionCanceledException({
+                message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons.map(reason => reason.Code).join(", ")}]`,
+                $metadata: {},
+                CancellationReasons: reasons,
+            });
+        }
+
+        writes.forEach(write => this.commit(write));
+        return {};
+    }
+
+    private planPut(input: PutCommandInput): PlannedWrite {
+        const table = this.getTable(input.TableName);
+        const context = this.expressionContext(input);
+        const condition = input.ConditionExpression ? parseCondition(input.ConditionExpression, context) : undefined;
+        context.assertAllUsed();
+
+        const item = this.marshallItem(input.Item);
+        this.assertItem(table, item);
+        const id = this.itemId(table, item);
+        const before = table.items.get(id);
+
+        return {
+            table,
+            id,
+            before,
+            after: item,
+            conditionFailed: !conditionMet(condition, before),
+            returnItemOnFailure: input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+        };
+    }
+
+    private planUpdate(input: UpdateCommandInput): PlannedWrite {
+        const table = this.getTable(input.TableName);
+        const context = this.expressionContext(input);
+        const condition = input.ConditionExpression ? parseCondition(input.ConditionExpression, context) : undefined;
+        const actions = input.UpdateExpression ? parseUpdate(input.UpdateExpression, context) : [];
+        context.assertAllUsed();
+
+        const key = this.marshallItem(input.Key);
+        this.assertKey(table, key);
+
+        const keyNames = Object.keys(key);
+        const keyUpdate = actions.find(action => keyNames.includes(action.path[0] as string));
+        if (keyUpdate) {
+            throw validationException(`One or more parameter values were invalid: Cannot update attribute ${keyUpdate.path[0]}. This attribute is part of the key`);
+        }
+
+        const id = this.itemId(table, key);
+        const before = table.items.get(id);
+        const write: PlannedWrite = {
+            table,
+            id,
+            before,
+            conditionFailed: !conditionMet(condition, before),
+            returnItemOnFailure: input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+        };
+
+        // Updates of items failing the condition are not evaluated, as their paths may not exist
+        if (!write.conditionFailed) {
+            const { item, paths } = applyUpdate(actions, before || key);
+            this.assertItem(table, item);
+            Object.assign(write, { after: item, paths });
+        }
+
+        return write;
+    }
+
+    private planDelete(input: DeleteCommandInput): PlannedWrite {
+        return { ...this.planConditionCheck(input), after: null };
+    }
+
+    private planConditionCheck(input: DeleteCommandInput | ConditionCheckInput): PlannedWrite {
+        const table = this.getTable(input.TableName);
+        const context = this.expressionContext(input);
+        const condition = input.ConditionExpression ? parseCondition(input.ConditionExpression, context) : undefined;
+        context.assertAllUsed();
+
+        const key = this.marshallItem(input.Key);
+        this.assertKey(table, key);
+        const id = this.itemId(table, key);
+        const before = table.items.get(id);
+
+        return {
+            table,
+            id,
+            before,
+            conditionFailed: !conditionMet(condition, before),
+            returnItemOnFailure: input.ReturnValuesOnConditionCheckFailure === "ALL_OLD",
+        };
+    }
+
+    private commit(write: PlannedWrite): PlannedWrite {
+        if (write.conditionFailed) {
+            throw new ConditionalCheckFailedException({
+                message: "The conditional request failed",
+                $metadata: {},
+                ...this.failureItem(write),
+            });
+        }
+
+        if (write.after === null) {
+            write.table.items.delete(write.id);
+        } else if (write.after) {
+            write.table.items.set(write.id, write.after);
+        }
+
+        return write;
+    }
+
+    private failureItem(write: PlannedWrite): { Item?: StoredItem } {
+        return write.returnItemOnFailure && write.before ? { Item: structuredClone(write.before) } : {};
+    }
+
+    /**
+     * Orders the items by the index or table key and returns the page after `ExclusiveStartKey`.
+     * `Limit` caps the evaluated items before the filter, as in DynamoDB.
+     */
+    private readPage(
+        table: InMemoryTable,
+        index: GlobalSecondaryIndex | undefined,
+        items: StoredItem[],
+        input: QueryCommandInput | ScanCommandInput,
+        forward: boolean,
+        filter?: ConditionNode,
+        projection?: DocumentPath[]
+    ): object {
+        const keys = this.keyAttributes(table, index).map(attribute => attribute.name);
+        const direction = forward ? 1 : -1;
+        let candidates = items.sort((a, b) => compareKeys(a, b, keys) * direction);
+
+        if (input.ExclusiveStartKey) {
+            const start = this.marshallItem(input.ExclusiveStartKey);
+            if (keys.some(name => start[name] === undefined)) {
+                throw validationException("The provided starting key is invalid: The provided key element does not match the schema");
+            }
+            candidates = candidates.filter(item => compareKeys(item, start, keys) * direction > 0);
+        }
+
+        if (input.Limit !== undefined && input.Limit < 1) {
+            throw validationException("1 validation error detected: Value at 'limit' failed to satisfy constraint: Member must have value greater than or equal to 1");
+        }
+
+        const evaluated = input.Limit === undefined ? candidates : candidates.slice(0, input.Limit);
+        const last = evaluated.length === input.Limit ? evaluated[evaluated.length - 1] : undefined;
+        const matched = filter ? evaluated.filter(item => evaluateCondition(filter, item)) : evaluated;
+
+        return {
+            ...(input.Select !== "COUNT" && { Items: matched.map(item => this.toOutput(item, projection)) }),
+            Count: matched.length,
+            ScannedCount: evaluated.length,
+            ...(last && { LastEvaluatedKey: this.toOutput(last, keys.map(name => [name])) }),
+        };
+    }
+
+    /**
+     * Items of a table, or of an index: only the items with the index keys, as indexes are sparse
+     */
+    private indexItems(table: InMemoryTable, index?: GlobalSecondaryIndex): StoredItem[] {
+        const items = [...table.items.values()];
+        if (!index) return items;
+
+        const keys = this.keyAttributes(table, index).map(attribute => attribute.name);
+        return items
+            .filter(item => keys.every(name => item[name] !== undefined))
+            .map(item => (index.projectionType === "KEYS_ONLY" ? projectItem(item, keys.map(name => [name])) : item));
+    }
+
+    private removeExpiredItems(): void {
+        const now = this.now() / MILLISECONDS_PER_SECOND;
+
+        for (const table of this.tables.values()) {
+            const ttlAttribute = table.definition.ttlAttributeName;
+            if (!ttlAttribute) continue;
+
+            for (const [id, item] of table.items) {
+                const expiresAt = item[ttlAttribute]?.N;
+                if (expiresAt !== undefined && Number(expiresAt) <= now) {
+                    table.items.delete(id);
+                }
+            }
+        }
+    }
+
+    private getTable(tableName: string | undefined): InMemoryTable {
+        const table = tableName ? this.tables.get(tableName) : undefined;
+        if (!table) {
+            throw new ResourceNotFoundException({ message: "Requested resource not found", $metadata: {} });
+        }
+        return table;
+    }
+
+    private getIndex(table: InMemoryTable, indexName?: string, consistentRead?: boolean): GlobalSecondaryIndex | undefined {
+        if (!indexName) return undefined;
+
+        const index = table.definition.globalSecondaryIndexes?.find(candidate => candidate.indexName === indexName);
+        if (!index) {
+            throw validationException(`The table does not have the specified index: ${indexName}`);
+        }
+        if (consistentRead) {
+            throw validationException("Consistent reads are not supported on global secondary indexes");
+        }
+
+        return index;
+    }
+
+    /**
+     * Key attributes ordering the items: the index keys first, then the table keys
+     */
+    private keyAttributes(table: InMemoryTable, index?: GlobalSecondaryIndex): KeyAttribute[] {
+        const { partitionKey, sortKey } = table.definition;
+        const attributes = [index?.partitionKey, index?.sortKey, partitionKey, sortKey]
+            .filter((attribute): attribute is KeyAttribute => attribute !== undefined);
+
+        return attributes.filter((attribute, position) => attributes.findIndex(other => other.name === attribute.name) === position);
+    }
+
+    private itemId(table: InMemoryTable, item: StoredItem): string {
+        return JSON.stringify(this.keyAttributes(table).map(attribute => item[attribute.name]));
+    }
+
+    private assertKey(table: InMemoryTable, key: StoredItem): void {
+        const attributes = this.keyAttributes(table);
+        const matches = Object.keys(key).length === attributes.length
+            && attributes.every(attribute => typeOf(key[attribute.name]) === attribute.type as string);
+
+        if (!matches) {
+            throw validationException("The provided key element does not match the schema");
+        }
+    }
+
+    private assertItem(table: InMemoryTable, item: StoredItem): void {
+        for (const attribute of this.keyAttributes(table)) {
+            const value = item[attribute.name];
+            const type = typeOf(value);
+
+            if (value === undefined) {
+                throw validationException(`One or more parameter values were invalid: Missing the key ${attribute.name} in the item`);
+            }
+            if (type !== attribute.type as string) {
+                throw validationException(`One or more parameter values were invalid: Type mismatch for key ${attribute.name} expected: ${attribute.type} actual: ${type}`);
+            }
+            if (isEmptyKeyValue(value)) {
+                throw validationException(`One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty string value. Key: ${attribute.name}`);
+            }
+        }
+
+        for (const index of table.definition.globalSecondaryIndexes || []) {
+            for (const attribute of [index.partitionKey, index.sortKey]) {
+                const value = attribute && item[attribute.name];
+                if (!attribute || value === undefined) continue;
+
+                if (typeOf(value) !== attribute.type as string) {
+                    throw validationException(`One or more parameter values were invalid: Type mismatch for Index Key ${attribute.name} Expected: ${attribute.type} Actual: ${typeOf(value)} IndexName: ${index.indexName}`);
+                }
+                if (isEmptyKeyValue(value)) {
+                    throw validationException(`One or more parameter values are not valid. A value specified for a secondary index key is not supported. The AttributeValue for a key attribute cannot contain an empty string value. IndexName: ${index.indexName}, IndexKey: ${attribute.name}`);
+                }
+            }
+        }
+    }
+
+    private expressionContext(input: ExpressionInput): ExpressionContext {
+        const values = input.ExpressionAttributeValues && this.marshallItem(input.ExpressionAttributeValues);
+        return new ExpressionContext(input.ExpressionAttributeNames, values);
+    }
+
+    private marshallItem(item: Record<string, unknown> | undefined): StoredItem {
+        return marshall(item || {}, this.translateConfig.marshallOptions);
+    }
+
+    private toOutput(item: StoredItem, projection?: DocumentPath[]): Record<string, unknown> {
+        return unmarshall(projection ? projectItem(item, projection) : item, this.translateConfig.unmarshallOptions);
+    }
+
+    private attributes(item: StoredItem | undefined): object {
+        return item && Object.keys(item).length > 0 ? { Attributes: this.toOutput(item) } : {};
+    }
+}
+
+function conditionMet(condition: ConditionNode | undefined, item: StoredItem | undefined): boolean {
+    return !condition || evaluateCondition(condition, item || {});
+}
+
+/**
+ * Accepts the key conditions DynamoDB does: equality on the partition key, optionally
+ * combined with one comparison, `BETWEEN` or `begins_with` on the sort key
+ */
+function assertKeyCondition(condition: ConditionNode, partitionKey: string, sortKey?: string): void {
+    const terms = condition.kind === "and" ? [condition.left, condition.right] : [condition];
+    const partitionTerm = terms.find(term => term.kind === "compare" && term.comparator === "="
+        && isPathTo(term.left, partitionKey) && term.right.kind === "value");
+
+    if (!partitionTerm) {
+        throw validationException(`Query condition missed key schema element: ${partitionKey}`);
+    }
+
+    const sortTerms = terms.filter(term => term !== partitionTerm);
+    const supported = sortTerms.every(term => sortKey !== undefined && (
+        (term.kind === "compare" && term.comparator !== "<>" && isPathTo(term.left, sortKey) && term.right.kind === "value")
+        || (term.kind === "between" && isPathTo(term.operand, sortKey) && term.low.kind === "value" && term.high.kind === "value")
+        || (term.kind === "function" && term.name === "begins_with" && isPathTo(term.args[0], sortKey) && term.args[1]?.kind === "value")
+    ));
+
+    if (!supported) {
+        throw validationException("Query key condition not supported");
+    }
+}
+
+function isPathTo(operand: Operand | undefined, attribute: string): boolean {
+    return operand?.kind === "path" && operand.path.length === 1 && operand.path[0] === attribute;
+}
+
+function compareKeys(a: StoredItem, b: StoredItem, keys: string[]): number {
+    for (const name of keys) {
+        const order = compareValues(a[name], b[name]);
+        if (order !== 0) return order;
+    }
+    return 0;
+}
+
+function isEmptyKeyValue(value: AttributeValue): boolean {
+    return value.S === "" || value.B?.length === 0;
+}
+
+function writeId(write: PlannedWrite): string {
+    return `${write.table.definition.tableName}/${write.id}`;
+}
+
+function assertUnique(ids: string[], message: string): void {
+    if (new Set(ids).size !== ids.length) {
+        throw validationException(message);
+    }
+}
+
+function assertTransactionSize(count: number): void {
+    if (count > MAX_TRANSACTION_ITEMS) {
+        throw validationException(`1 validation error detected: Value at 'transactItems' failed to satisfy constraint: Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}`);
+    }
+}
+
+function segmentOf(value: string, totalSegments: number): number {
+    let hash = 0;
+    for (const character of value) {
+        hash = (hash * SEGMENT_HASH_MULTIPLIER + character.charCodeAt(0)) >>> 0;
+    }
+    return hash % totalSegments;
+}
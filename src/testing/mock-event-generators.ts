@@ -1,11 +1,18 @@
 import {
+    ALBEvent,
     APIGatewayProxyEvent,
     APIGatewayProxyEventV2,
     SQSEvent,
     SNSEvent,
     DynamoDBStreamEvent,
+    KinesisStreamEvent,
     S3Event,
-    EventBridgeEvent
+    EventBridgeEvent,
+    PreSignUpTriggerEvent,
+    PostConfirmationTriggerEvent,
+    PreTokenGenerationTriggerEvent,
+    CustomMessageTriggerEvent,
+    UserMigrationTriggerEvent
 } from "aws-lambda";
 import { v4 as uuidv4 } from "uuid";
 
@@ -130,6 +137,74 @@ export function createHttpApiEvent(options: {
     };
 }
 
+/**
+ * Creates a mock Application Load Balancer target group event
+ */
+export function createAlbEvent(options: {
+  path?: string;
+  httpMethod?: string;
+  headers?: Record<string, string>;
+  queryStringParameters?: Record<string, string>;
+  body?: unknown;
+  isBase64Encoded?: boolean;
+} = {}): ALBEvent {
+    const {
+        path = "/",
+        httpMethod = "GET",
+        headers = {},
+        queryStringParameters = {},
+        body = null,
+        isBase64Encoded = false,
+    } = options;
+
+    return {
+        requestContext: {
+            elb: {
+                targetGroupArn: "arn:aws:elasticloadbalancing:us-east-1:123456789012:targetgroup/test/0123456789abcdef",
+            },
+        },
+        httpMethod,
+        path,
+        queryStringParameters,
+        headers: {
+            "x-forwarded-for": "127.0.0.1",
+            "user-agent": "Custom User Agent String",
+            ...headers,
+        },
+        body: body ? JSON.stringify(body) : null,
+        isBase64Encoded,
+    };
+}
+
+/**
+ * Creates a mock Lambda Function URL event
+ */
+export function createFunctionUrlEvent(options: {
+  path?: string;
+  method?: string;
+  headers?: Record<string, string>;
+  queryStringParameters?: Record<string, string>;
+  body?: unknown;
+  isBase64Encoded?: boolean;
+} = {}): APIGatewayProxyEventV2 {
+    const event = createHttpApiEvent({ ...options, pathParameters: undefined });
+    const domainName = "abcdefghijklmnop.lambda-url.us-east-1.on.aws";
+
+    return {
+        ...event,
+        routeKey: "$default",
+        pathParameters: undefined,
+        requestContext: {
+            ...event.requestContext,
+            apiId: "abcdefghijklmnop",
+            domainName,
+            domainPrefix: "abcdefghijklmnop",
+            routeKey: "$default",
+            stage: "$default",
+        },
+    };
+}
+
 /**
  * Creates a mock SQS event
  */
@@ -186,12 +261,13 @@ export function createSnsEvent(messages: any[]): SNSEvent {
 export function createDynamoDBStreamEvent(
     records: {
     eventName: "INSERT" | "MODIFY" | "REMOVE";
+    keys?: Record<string, unknown>;
     oldImage?: Record<string, any>;
     newImage?: Record<string, any>;
   }[]
 ): DynamoDBStreamEvent {
     return {
-        Records: records.map(record => ({
+        Records: records.map((record, index) => ({
             eventID: uuidv4(),
             eventName: record.eventName,
             eventVersion: "1.1",
@@ -199,10 +275,10 @@ export function createDynamoDBStreamEvent(
             awsRegion: "us-east-1",
             dynamodb: {
                 ApproximateCreationDateTime: Date.now(),
-                Keys: {},
+                Keys: record.keys ? convertToDynamoDBFormat(record.keys) : {},
                 NewImage: record.newImage ? convertToDynamoDBFormat(record.newImage) : undefined,
                 OldImage: record.oldImage ? convertToDynamoDBFormat(record.oldImage) : undefined,
-                SequenceNumber: "000000000000000000000",
+                SequenceNumber: toSequenceNumber(index),
                 SizeBytes: 100,
                 StreamViewType: "NEW_AND_OLD_IMAGES",
             },
@@ -211,6 +287,45 @@ export function createDynamoDBStreamEvent(
     };
 }
 
+/**
+ * Creates a mock Kinesis Data Streams event. Objects are JSON-encoded, strings and
+ * buffers are sent as they are.
+ */
+export function createKinesisEvent(
+    records: {
+    data: unknown;
+    partitionKey?: string;
+  }[]
+): KinesisStreamEvent {
+    const arrival = Math.floor(Date.now() / MS_PER_SECOND);
+
+    return {
+        Records: records.map((record, index) => {
+            const sequenceNumber = toSequenceNumber(index);
+            const payload = Buffer.isBuffer(record.data)
+                ? record.data
+                : Buffer.from(typeof record.data === "string" ? record.data : JSON.stringify(record.data));
+
+            return {
+                kinesis: {
+                    kinesisSchemaVersion: "1.0",
+                    partitionKey: record.partitionKey || "partition-key",
+                    sequenceNumber,
+                    data: payload.toString("base64"),
+                    approximateArrivalTimestamp: arrival,
+                },
+                eventSource: "aws:kinesis",
+                eventVersion: "1.0",
+                eventID: `shardId-000000000000:${sequenceNumber}`,
+                eventName: "aws:kinesis:record",
+                invokeIdentityArn: "arn:aws:iam::123456789012:role/lambda-role",
+                awsRegion: "us-east-1",
+                eventSourceARN: "arn:aws:kinesis:us-east-1:123456789012:stream/my-stream",
+            };
+        }),
+    };
+}
+
 /**
  * Creates a mock S3 event
  */
@@ -282,6 +397,152 @@ export function createEventBridgeEvent<T>(
     };
 }
 
+/**
+ * Creates a mock Cognito PreSignUp trigger event
+ */
+export function createPreSignUpEvent(options: {
+  triggerSource?: PreSignUpTriggerEvent["triggerSource"];
+  userName?: string;
+  userAttributes?: Record<string, string>;
+  validationData?: Record<string, string>;
+  clientMetadata?: Record<string, string>;
+} = {}): PreSignUpTriggerEvent {
+    return {
+        ...createCognitoTriggerBase(options.triggerSource || "PreSignUp_SignUp", options.userName),
+        request: {
+            userAttributes: options.userAttributes || { email: "user@example.com" },
+            validationData: options.validationData,
+            clientMetadata: options.clientMetadata,
+        },
+        response: {
+            autoConfirmUser: false,
+            autoVerifyEmail: false,
+            autoVerifyPhone: false,
+        },
+    } as PreSignUpTriggerEvent;
+}
+
+/**
+ * Creates a mock Cognito PostConfirmation trigger event
+ */
+export function createPostConfirmationEvent(options: {
+  triggerSource?: PostConfirmationTriggerEvent["triggerSource"];
+  userName?: string;
+  userAttributes?: Record<string, string>;
+  clientMetadata?: Record<string, string>;
+} = {}): PostConfirmationTriggerEvent {
+    const userName = options.userName || "user123";
+
+    return {
+        ...createCognitoTriggerBase(options.triggerSource || "PostConfirmation_ConfirmSignUp", userName),
+        request: {
+            userAttributes: options.userAttributes || {
+                sub: userName,
+                email: "user@example.com",
+                email_verified: "true",
+                "cognito:user_status": "CONFIRMED",
+            },
+            clientMetadata: options.clientMetadata,
+        },
+        response: {},
+    } as PostConfirmationTriggerEvent;
+}
+
+/**
+ * Creates a mock Cognito PreTokenGeneration trigger event
+ */
+export function createPreTokenGenerationEvent(options: {
+  triggerSource?: PreTokenGenerationTriggerEvent["triggerSource"];
+  userName?: string;
+  userAttributes?: Record<string, string>;
+  groups?: string[];
+  clientMetadata?: Record<string, string>;
+} = {}): PreTokenGenerationTriggerEvent {
+    const userName = options.userName || "user123";
+
+    return {
+        ...createCognitoTriggerBase(options.triggerSource || "TokenGeneration_Authentication", userName),
+        request: {
+            userAttributes: options.userAttributes || { sub: userName, email: "user@example.com" },
+            groupConfiguration: {
+                groupsToOverride: options.groups || [],
+                iamRolesToOverride: [],
+            },
+            clientMetadata: options.clientMetadata,
+        },
+        response: {
+            claimsOverrideDetails: {},
+        },
+    } as PreTokenGenerationTriggerEvent;
+}
+
+/**
+ * Creates a mock Cognito CustomMessage trigger event
+ */
+export function createCustomMessageEvent(options: {
+  triggerSource?: CustomMessageTriggerEvent["triggerSource"];
+  userName?: string;
+  userAttributes?: Record<string, string>;
+  clientMetadata?: Record<string, string>;
+} = {}): CustomMessageTriggerEvent {
+    return {
+        ...createCognitoTriggerBase(options.triggerSource || "CustomMessage_SignUp", options.userName),
+        request: {
+            userAttributes: options.userAttributes || { email: "user@example.com" },
+            codeParameter: "{####}",
+            linkParameter: "{##Click Here##}",
+            usernameParameter: "{username}",
+            clientMetadata: options.clientMetadata,
+        },
+        response: {
+            smsMessage: null,
+            emailMessage: null,
+            emailSubject: null,
+        },
+    } as CustomMessageTriggerEvent;
+}
+
+/**
+ * Creates a mock Cognito UserMigration trigger event
+ */
+export function createUserMigrationEvent(options: {
+  triggerSource?: UserMigrationTriggerEvent["triggerSource"];
+  userName?: string;
+  password?: string;
+  validationData?: Record<string, string>;
+  clientMetadata?: Record<string, string>;
+} = {}): UserMigrationTriggerEvent {
+    return {
+        ...createCognitoTriggerBase(options.triggerSource || "UserMigration_Authentication", options.userName),
+        request: {
+            password: options.password ?? "Password123!",
+            validationData: options.validationData,
+            clientMetadata: options.clientMetadata,
+        },
+        response: {
+            userAttributes: {},
+            desiredDeliveryMediums: [],
+        },
+    } as UserMigrationTriggerEvent;
+}
+
+/**
+ * Helper function to create the fields shared by Cognito trigger events
+ */
+function createCognitoTriggerBase<T extends string>(triggerSource: T, userName: string = "user123") {
+    return {
+        version: "1",
+        region: "us-east-1",
+        userPoolId: "us-east-1_EXAMPLE",
+        triggerSource,
+        userName,
+        callerContext: {
+            awsSdkVersion: "aws-sdk-unknown-unknown",
+            clientId: "client-id",
+        },
+    };
+}
+
 /**
  * Helper function to convert JavaScript objects to DynamoDB format
  */
@@ -314,3 +575,15 @@ function convertToDynamoDBFormat(obj: Record<string, any>): Record<string, any>
 
     return result;
 }
+
+const MS_PER_SECOND = 1000;
+const SEQUENCE_NUMBER_PREFIX = "4959";
+const SEQUENCE_NUMBER_LENGTH = 56;
+
+/**
+ * Helper function to create increasing stream sequence numbers
+ */
+function toSequenceNumber(index: number): string {
+    const digits = SEQUENCE_NUMBER_LENGTH - SEQUENCE_NUMBER_PREFIX.length;
+    return `${SEQUENCE_NUMBER_PREFIX}${String(index + 1).padStart(digits, "0")}`;
+}